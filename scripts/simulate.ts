@@ -0,0 +1,102 @@
+/**
+ * ヘッドレスシミュレーションのCLI
+ *
+ * 使い方:
+ *   bun scripts/simulate.ts --scenario scenarios/default.json --ticks 1000 --format csv --output out.csv
+ *
+ * bun がない環境では Node で実行する（vitest に含まれる vite-node を使う）:
+ *   npx vite-node scripts/simulate.ts --scenario scenarios/default.json --ticks 1000
+ *
+ * --output を省略した場合は標準出力に書き出す
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import {
+  formatMetricsAsCsv,
+  formatMetricsAsJson,
+  runHeadlessSimulation,
+} from '../src/lib/aco/headless'
+import { parseScenario } from '../src/lib/aco/scenario'
+
+const USAGE = `Usage: bun scripts/simulate.ts --scenario <file> [options]
+       npx vite-node scripts/simulate.ts --scenario <file> [options]   (Node)
+
+Options:
+  --scenario <file>        Scenario JSON file (required)
+  --ticks <n>              Number of ticks to run (default: 1000)
+  --seed <n>               Override the scenario seed
+  --decay-interval <n>     Override the pheromone decay interval in ticks
+  --format <json|csv>      Output format (default: json)
+  --output <file>          Output file (default: stdout)
+  --help                   Show this message
+`
+
+const parseNonNegativeInteger = (value: string, name: string): number => {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer: ${value}`)
+  }
+  return parsed
+}
+
+const parsePositiveInteger = (value: string, name: string): number => {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer: ${value}`)
+  }
+  return parsed
+}
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      ticks: { type: 'string', default: '1000' },
+      seed: { type: 'string' },
+      'decay-interval': { type: 'string' },
+      format: { type: 'string', default: 'json' },
+      output: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help || !values.scenario) {
+    process.stdout.write(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  if (values.format !== 'json' && values.format !== 'csv') {
+    throw new Error(`--format must be json or csv: ${values.format}`)
+  }
+
+  const scenario = parseScenario(readFileSync(values.scenario, 'utf-8'))
+
+  if (values.seed !== undefined) {
+    scenario.seed = parseNonNegativeInteger(values.seed, 'seed')
+  }
+  if (values['decay-interval'] !== undefined) {
+    scenario.config.pheromoneDecayInterval = parsePositiveInteger(
+      values['decay-interval'],
+      'decay-interval'
+    )
+  }
+
+  const ticks = parseNonNegativeInteger(values.ticks, 'ticks')
+  const metrics = runHeadlessSimulation(scenario, { ticks })
+  const output = values.format === 'csv'
+    ? formatMetricsAsCsv(metrics)
+    : formatMetricsAsJson(metrics)
+
+  if (values.output) {
+    writeFileSync(values.output, output)
+  } else {
+    process.stdout.write(output)
+  }
+}
+
+try {
+  main()
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+  process.exit(1)
+}
@@ -0,0 +1,78 @@
+import { useSimulationStore } from '@/stores/simulation.store'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { Label } from '@/components/ui/label'
+import { BehaviorTuningSchema, type BehaviorTuning } from '@/lib/aco/types'
+import { RotateCcwIcon } from 'lucide-react'
+
+type TuningField = {
+  key: keyof BehaviorTuning
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+const TUNING_FIELDS: ReadonlyArray<TuningField> = [
+  { key: 'antSpeed', label: 'アリの移動速度', min: 0.5, max: 10, step: 0.1 },
+  { key: 'antTurnRange', label: 'ランダムな方向転換の幅', min: 0, max: Math.PI, step: 0.05 },
+  { key: 'foodDetectionRange', label: '餌の検出距離', min: 0, max: 100, step: 1 },
+  { key: 'foodCollectionRange', label: '餌の収集距離', min: 1, max: 50, step: 1 },
+  { key: 'foodApproachBias', label: '餌へ向かうバイアス', min: 0, max: 1, step: 0.05 },
+  { key: 'foodApproachTurnRange', label: '餌へ向かう際の方向転換の幅', min: 0, max: Math.PI, step: 0.05 },
+  { key: 'antCarryCapacity', label: '1回に運べる餌の量', min: 1, max: 20, step: 1 },
+  { key: 'nestArrivalRange', label: '巣への到達距離', min: 1, max: 50, step: 1 },
+  { key: 'nestDetectionRange', label: '巣を直接知覚できる距離', min: 0, max: 200, step: 1 },
+  { key: 'collisionAvoidanceRadius', label: '衝突回避の半径', min: 0, max: 50, step: 1 },
+  { key: 'collisionAvoidanceStrength', label: '衝突回避の強さ', min: 0, max: 1, step: 0.05 },
+  { key: 'pheromoneSensorDistance', label: 'センサーの距離', min: 1, max: 100, step: 1 },
+  { key: 'pheromoneDetectionRadius', label: 'フェロモンの検出半径', min: 1, max: 100, step: 1 },
+  { key: 'pheromoneMinimumStrength', label: '追跡する最小のフェロモン強度', min: 0, max: 10, step: 0.1 },
+]
+
+const DEFAULT_TUNING = BehaviorTuningSchema.parse({})
+
+const formatValue = (value: number, step: number) =>
+  step >= 1 ? value.toFixed(0) : value.toFixed(2)
+
+/**
+ * 移動・知覚・運搬・衝突回避の調整値を変更する詳細設定
+ * 通常は既定値のままでよいため折りたたんで表示する
+ */
+export const AdvancedSettings = () => {
+  const state = useSimulationStore()
+  const { setBehaviorTuning } = state
+
+  return (
+    <details className="rounded-md border border-gray-200 p-3">
+      <summary className="cursor-pointer text-sm font-medium">詳細設定</summary>
+      <div className="mt-4 space-y-4">
+        {TUNING_FIELDS.map(({ key, label, min, max, step }) => (
+          <div key={key}>
+            <Label htmlFor={key} className="flex justify-between mb-2">
+              <span>{label}</span>
+              <span className="text-gray-600">{formatValue(state[key], step)}</span>
+            </Label>
+            <Slider
+              id={key}
+              value={[state[key]]}
+              onValueChange={(value) => setBehaviorTuning({ [key]: value[0] })}
+              min={min}
+              max={max}
+              step={step}
+            />
+          </div>
+        ))}
+        <Button
+          onClick={() => setBehaviorTuning(DEFAULT_TUNING)}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+        >
+          <RotateCcwIcon className="w-4 h-4" />
+          既定値に戻す
+        </Button>
+      </div>
+    </details>
+  )
+}
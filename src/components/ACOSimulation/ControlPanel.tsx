@@ -1,8 +1,31 @@
+import { useRef, useState } from 'react'
+import { defaultStringifySearch } from '@tanstack/react-router'
 import { useSimulationStore } from '@/stores/simulation.store'
 import { Button } from '@/components/ui/button'
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
-import { PlayIcon, PauseIcon, RefreshCwIcon, PlusIcon } from 'lucide-react'
+import { downloadTextFile } from '@/lib/utils'
+import { BehaviorPolicyIdSchema, DiffusionKernelSchema, EvaporationModelIdSchema, HomingModeSchema, TopologySchema } from '@/lib/aco/types'
+import { EVAPORATION_MODELS } from '@/lib/aco/evaporation'
+import { BEHAVIOR_POLICIES } from '@/lib/aco/behavior-policy'
+import { parseScenario, serializeScenario } from '@/lib/aco/scenario'
+import { parseSnapshot, serializeSnapshot } from '@/lib/aco/snapshot'
+import { createSimulationSearch } from '@/lib/aco/share'
+import { AdvancedSettings } from './AdvancedSettings'
+import { PopulationSettings } from './PopulationSettings'
+import {
+  PlayIcon,
+  PauseIcon,
+  RefreshCwIcon,
+  PlusIcon,
+  EraserIcon,
+  DownloadIcon,
+  UploadIcon,
+  CameraIcon,
+  HistoryIcon,
+  LinkIcon,
+  HomeIcon,
+} from 'lucide-react'
 
 export const ControlPanel = () => {
   const {
@@ -12,15 +35,91 @@ export const ControlPanel = () => {
     pheromoneDecayRate,
     pheromoneDepositAmount,
     pheromoneTrackingStrength,
+    homingMode,
+    pheromoneDiffusionRate,
+    pheromoneDiffusionKernel,
+    evaporationModel,
+    topology,
+    behaviorPolicy,
+    pheromoneAlpha,
+    pheromoneBeta,
+    pheromoneSensorCount,
+    pheromoneSensorAngle,
+    seed,
+    restoreLastSession,
     toggleSimulation,
     setSpeed,
     setAntCount,
     setPheromoneDecayRate,
     setPheromoneDepositAmount,
     setPheromoneTrackingStrength,
+    setHomingMode,
+    setPheromoneDiffusionRate,
+    setPheromoneDiffusionKernel,
+    setEvaporationModel,
+    setTopology,
+    setBehaviorPolicy,
+    setPheromoneAlpha,
+    setPheromoneBeta,
+    setPheromoneSensorCount,
+    setPheromoneSensorAngle,
+    setSeed,
+    setRestoreLastSession,
     addRandomFoods,
+    clearObstacles,
+    colonies,
+    resetColonies,
+    loadScenario,
+    saveScenario,
+    loadSnapshot,
+    saveSnapshot,
     reset,
   } = useSimulationStore()
+  const scenarioInputRef = useRef<HTMLInputElement>(null)
+  const snapshotInputRef = useRef<HTMLInputElement>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [shareMessage, setShareMessage] = useState<string | null>(null)
+
+  const handleSaveScenario = () => {
+    downloadTextFile(`aco-scenario-${seed}.json`, serializeScenario(saveScenario()))
+  }
+
+  const handleSaveSnapshot = () => {
+    const snapshot = saveSnapshot()
+    downloadTextFile(`aco-snapshot-${snapshot.seed}-${snapshot.tick}.json`, serializeSnapshot(snapshot))
+  }
+
+  const handleCopyShareLink = async () => {
+    const search = defaultStringifySearch(createSimulationSearch(saveScenario()))
+    const url = `${window.location.origin}${window.location.pathname}${search}`
+
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareMessage('共有リンクをコピーしました')
+    } catch (error) {
+      console.error('共有リンクのコピーに失敗しました:', error)
+      setShareMessage('共有リンクをコピーできませんでした')
+    }
+  }
+
+  // 選択されたファイルを読み込み、失敗した場合はエラーメッセージを表示する
+  const loadFromFile = (label: string, apply: (text: string) => void) =>
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ''
+      if (!file) return
+
+      try {
+        apply(await file.text())
+        setFileError(null)
+      } catch (error) {
+        console.error(`${label}の読み込みに失敗しました:`, error)
+        setFileError(`${label}ファイルの形式が正しくありません`)
+      }
+    }
+
+  const handleLoadScenario = loadFromFile('シナリオ', (text) => loadScenario(parseScenario(text)))
+  const handleLoadSnapshot = loadFromFile('スナップショット', (text) => loadSnapshot(parseSnapshot(text)))
 
   return (
     <div className="space-y-6 p-6 bg-white rounded-lg shadow-md">
@@ -63,7 +162,105 @@ export const ControlPanel = () => {
             <PlusIcon className="w-4 h-4" />
             餌を追加
           </Button>
+
+          <Button
+            onClick={clearObstacles}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <EraserIcon className="w-4 h-4" />
+            壁を消去
+          </Button>
+
+          <Button
+            onClick={resetColonies}
+            variant="outline"
+            className="flex items-center gap-2"
+            disabled={colonies.length <= 1}
+          >
+            <HomeIcon className="w-4 h-4" />
+            巣をひとつに戻す
+          </Button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Button
+            onClick={handleSaveScenario}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            シナリオを保存
+          </Button>
+
+          <Button
+            onClick={() => scenarioInputRef.current?.click()}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <UploadIcon className="w-4 h-4" />
+            シナリオを読み込み
+          </Button>
+
+          <input
+            ref={scenarioInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleLoadScenario}
+            className="hidden"
+          />
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Button
+            onClick={handleSaveSnapshot}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <CameraIcon className="w-4 h-4" />
+            スナップショットを保存
+          </Button>
+
+          <Button
+            onClick={() => snapshotInputRef.current?.click()}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <HistoryIcon className="w-4 h-4" />
+            スナップショットを復元
+          </Button>
+
+          <input
+            ref={snapshotInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleLoadSnapshot}
+            className="hidden"
+          />
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Button
+            onClick={handleCopyShareLink}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <LinkIcon className="w-4 h-4" />
+            共有リンクをコピー
+          </Button>
         </div>
+
+        {fileError && (
+          <p className="text-sm text-red-600 mb-4">{fileError}</p>
+        )}
+
+        {shareMessage && (
+          <p className="text-sm text-gray-600 mb-4">{shareMessage}</p>
+        )}
+
+        <p className="text-sm text-gray-600">
+          Ctrl+クリックで巣（コロニー）を追加、Shift+ドラッグで壁を描画、Alt+ドラッグで壁を消去（どの編集ツールでも使えます）
+        </p>
       </div>
 
       <div className="space-y-4">
@@ -92,7 +289,7 @@ export const ControlPanel = () => {
             value={[antCount]}
             onValueChange={(value) => setAntCount(value[0])}
             min={1}
-            max={100}
+            max={1000}
             step={1}
           />
         </div>
@@ -112,6 +309,22 @@ export const ControlPanel = () => {
           />
         </div>
 
+        <div>
+          <Label htmlFor="evaporationModel" className="flex justify-between mb-2">
+            <span>蒸発モデル</span>
+          </Label>
+          <select
+            id="evaporationModel"
+            value={evaporationModel}
+            onChange={(event) => setEvaporationModel(EvaporationModelIdSchema.parse(event.target.value))}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {Object.values(EVAPORATION_MODELS).map((model) => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <Label htmlFor="depositAmount" className="flex justify-between mb-2">
             <span>フェロモン放出量</span>
@@ -141,6 +354,177 @@ export const ControlPanel = () => {
             step={0.05}
           />
         </div>
+
+        <div>
+          <Label htmlFor="pheromoneAlpha" className="flex justify-between mb-2">
+            <span>フェロモンの重み α</span>
+            <span className="text-gray-600">{pheromoneAlpha.toFixed(1)}</span>
+          </Label>
+          <Slider
+            id="pheromoneAlpha"
+            value={[pheromoneAlpha]}
+            onValueChange={(value) => setPheromoneAlpha(value[0])}
+            min={0}
+            max={5}
+            step={0.1}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pheromoneBeta" className="flex justify-between mb-2">
+            <span>向きの重み β</span>
+            <span className="text-gray-600">{pheromoneBeta.toFixed(1)}</span>
+          </Label>
+          <Slider
+            id="pheromoneBeta"
+            value={[pheromoneBeta]}
+            onValueChange={(value) => setPheromoneBeta(value[0])}
+            min={0}
+            max={5}
+            step={0.1}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="sensorCount" className="flex justify-between mb-2">
+            <span>センサーの数</span>
+            <span className="text-gray-600">{pheromoneSensorCount}</span>
+          </Label>
+          <Slider
+            id="sensorCount"
+            value={[pheromoneSensorCount]}
+            onValueChange={(value) => setPheromoneSensorCount(value[0])}
+            min={1}
+            max={9}
+            step={1}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="sensorAngle" className="flex justify-between mb-2">
+            <span>センサーの角度</span>
+            <span className="text-gray-600">±{Math.round((pheromoneSensorAngle * 180) / Math.PI)}°</span>
+          </Label>
+          <Slider
+            id="sensorAngle"
+            value={[Math.round((pheromoneSensorAngle * 180) / Math.PI)]}
+            onValueChange={(value) => setPheromoneSensorAngle((value[0] * Math.PI) / 180)}
+            min={0}
+            max={90}
+            step={5}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="diffusionRate" className="flex justify-between mb-2">
+            <span>フェロモン拡散率</span>
+            <span className="text-gray-600">{(pheromoneDiffusionRate * 100).toFixed(0)}%</span>
+          </Label>
+          <Slider
+            id="diffusionRate"
+            value={[pheromoneDiffusionRate]}
+            onValueChange={(value) => setPheromoneDiffusionRate(value[0])}
+            min={0}
+            max={0.5}
+            step={0.01}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="diffusionKernel" className="flex justify-between mb-2">
+            <span>拡散近傍</span>
+          </Label>
+          <select
+            id="diffusionKernel"
+            value={pheromoneDiffusionKernel}
+            onChange={(event) => setPheromoneDiffusionKernel(DiffusionKernelSchema.parse(event.target.value))}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="von-neumann">4近傍（上下左右）</option>
+            <option value="moore">8近傍（斜めを含む）</option>
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="behaviorPolicy" className="flex justify-between mb-2">
+            <span>行動方針</span>
+          </Label>
+          <select
+            id="behaviorPolicy"
+            value={behaviorPolicy}
+            onChange={(event) => setBehaviorPolicy(BehaviorPolicyIdSchema.parse(event.target.value))}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {Object.values(BEHAVIOR_POLICIES).map((policy) => (
+              <option key={policy.id} value={policy.id}>{policy.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="homingMode" className="flex justify-between mb-2">
+            <span>帰巣方法</span>
+          </Label>
+          <select
+            id="homingMode"
+            value={homingMode}
+            onChange={(event) => setHomingMode(HomingModeSchema.parse(event.target.value))}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="omniscient">ネストへ直進（全知）</option>
+            <option value="pheromone">toNestフェロモンを辿る</option>
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="topology" className="flex justify-between mb-2">
+            <span>世界の境界</span>
+          </Label>
+          <select
+            id="topology"
+            value={topology}
+            onChange={(event) => setTopology(TopologySchema.parse(event.target.value))}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="torus">トーラス（端が反対側と繋がる）</option>
+            <option value="bounded-reflect">壁で反射</option>
+            <option value="bounded-clamp">壁で停止</option>
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="seed" className="flex justify-between mb-2">
+            <span>乱数シード</span>
+          </Label>
+          <input
+            id="seed"
+            type="number"
+            min={0}
+            value={seed}
+            onChange={(event) => {
+              const value = Number(event.target.value)
+              if (Number.isInteger(value) && value >= 0) {
+                setSeed(value)
+              }
+            }}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            id="restoreLastSession"
+            type="checkbox"
+            checked={restoreLastSession}
+            onChange={(event) => setRestoreLastSession(event.target.checked)}
+            className="h-4 w-4"
+          />
+          <Label htmlFor="restoreLastSession">前回のセッションを復元する</Label>
+        </div>
+
+        <PopulationSettings />
+
+        <AdvancedSettings />
       </div>
     </div>
   )
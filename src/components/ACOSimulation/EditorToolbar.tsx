@@ -0,0 +1,155 @@
+import { useSimulationStore } from '@/stores/simulation.store'
+import { useEditorStore, type EditorTool } from '@/stores/editor.store'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { EDITOR_CONSTANTS } from '@/lib/aco/constants'
+import { findColony } from '@/lib/aco/colony'
+import { PheromoneTypeSchema } from '@/lib/aco/types'
+import {
+  CookieIcon,
+  Trash2Icon,
+  HouseIcon,
+  BrickWallIcon,
+  EraserIcon,
+  PaintbrushIcon,
+  SprayCanIcon,
+  type LucideIcon,
+} from 'lucide-react'
+
+type ToolDefinition = {
+  tool: EditorTool
+  label: string
+  icon: LucideIcon
+}
+
+const TOOLS: ReadonlyArray<ToolDefinition> = [
+  { tool: 'food', label: '餌', icon: CookieIcon },
+  { tool: 'eraseFood', label: '餌を消す', icon: Trash2Icon },
+  { tool: 'nest', label: '巣を移動', icon: HouseIcon },
+  { tool: 'wall', label: '壁', icon: BrickWallIcon },
+  { tool: 'eraseWall', label: '壁を消す', icon: EraserIcon },
+  { tool: 'pheromone', label: 'フェロモン', icon: PaintbrushIcon },
+  { tool: 'erasePheromone', label: 'フェロモンを消す', icon: SprayCanIcon },
+]
+
+const TOOL_HINTS: Record<EditorTool, string> = {
+  food: 'クリックで餌を置き、ドラッグで餌を動かす',
+  eraseFood: 'クリックした餌を消す',
+  nest: '巣をドラッグして動かす',
+  wall: 'ドラッグで壁を描く',
+  eraseWall: 'ドラッグで壁を消す',
+  pheromone: 'ドラッグでフェロモンを塗る',
+  erasePheromone: 'ドラッグでフェロモンを消す',
+}
+
+const PHEROMONE_TYPE_LABELS = {
+  toFood: '餌への道',
+  toNest: '巣への道',
+} as const
+
+const selectClassName = 'rounded-md border border-gray-300 px-2 py-1 text-sm'
+
+/**
+ * キャンバスの編集ツールバー
+ * 実行中・一時停止中のどちらでも使える
+ */
+export const EditorToolbar = () => {
+  const colonies = useSimulationStore((state) => state.colonies)
+  const {
+    tool,
+    foodAmount,
+    foodQuality,
+    pheromoneType,
+    pheromoneColonyId,
+    setTool,
+    setFoodAmount,
+    setFoodQuality,
+    setPheromoneType,
+    setPheromoneColonyId,
+  } = useEditorStore()
+
+  return (
+    <div className="space-y-3 p-4 bg-white rounded-lg shadow-md">
+      <div className="flex flex-wrap gap-2" role="toolbar" aria-label="編集ツール">
+        {TOOLS.map(({ tool: value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            onClick={() => setTool(value)}
+            variant={tool === value ? 'default' : 'outline'}
+            size="sm"
+            className="flex items-center gap-2"
+            aria-pressed={tool === value}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {tool === 'food' && (
+        <div>
+          <Label htmlFor="editorFoodAmount" className="flex justify-between mb-2">
+            <span>置く餌の量</span>
+            <span className="text-gray-600">{foodAmount}</span>
+          </Label>
+          <Slider
+            id="editorFoodAmount"
+            value={[foodAmount]}
+            onValueChange={(value) => setFoodAmount(value[0])}
+            min={EDITOR_CONSTANTS.MIN_FOOD_AMOUNT}
+            max={EDITOR_CONSTANTS.MAX_FOOD_AMOUNT}
+            step={10}
+          />
+          <Label htmlFor="editorFoodQuality" className="flex justify-between mt-3 mb-2">
+            <span>置く餌の質</span>
+            <span className="text-gray-600">{foodQuality.toFixed(1)}</span>
+          </Label>
+          <Slider
+            id="editorFoodQuality"
+            value={[foodQuality]}
+            onValueChange={(value) => setFoodQuality(value[0])}
+            min={EDITOR_CONSTANTS.MIN_FOOD_QUALITY}
+            max={EDITOR_CONSTANTS.MAX_FOOD_QUALITY}
+            step={0.1}
+          />
+        </div>
+      )}
+
+      {tool === 'pheromone' && (
+        <div className="flex flex-wrap gap-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="editorPheromoneType">種類</Label>
+            <select
+              id="editorPheromoneType"
+              value={pheromoneType}
+              onChange={(event) => setPheromoneType(PheromoneTypeSchema.parse(event.target.value))}
+              className={selectClassName}
+            >
+              {PheromoneTypeSchema.options.map((type) => (
+                <option key={type} value={type}>{PHEROMONE_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          {colonies.length > 1 && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="editorPheromoneColony">コロニー</Label>
+              <select
+                id="editorPheromoneColony"
+                value={findColony(colonies, pheromoneColonyId).id}
+                onChange={(event) => setPheromoneColonyId(event.target.value)}
+                className={selectClassName}
+              >
+                {colonies.map((colony, index) => (
+                  <option key={colony.id} value={colony.id}>巣 {index + 1}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">{TOOL_HINTS[tool]}</p>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { useSimulationStore } from '@/stores/simulation.store'
+import { useExperiment } from '@/hooks/useExperiment'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { downloadTextFile } from '@/lib/utils'
+import {
+  ExperimentSpecSchema,
+  SweepParameterSchema,
+  formatExperimentAsCsv,
+  type ParameterRange,
+  type SweepParameter,
+} from '@/lib/aco/experiment'
+import { FlaskConicalIcon, SquareIcon, DownloadIcon } from 'lucide-react'
+
+const PARAMETER_LABELS: Partial<Record<SweepParameter, string>> = {
+  pheromoneDecayRate: 'フェロモン減衰率',
+  pheromoneTrackingStrength: 'フェロモン追跡強度',
+  pheromoneAlpha: 'フェロモンの重み α',
+  pheromoneBeta: '向きの重み β',
+  antCount: 'アリの数',
+  scoutRatio: '偵察アリの割合',
+  speedVariation: '速度のばらつき',
+}
+
+const DEFAULT_RANGES: ParameterRange[] = [
+  { parameter: 'pheromoneDecayRate', min: 0.95, max: 0.99, steps: 3 },
+  { parameter: 'pheromoneTrackingStrength', min: 0.3, max: 0.9, steps: 3 },
+  { parameter: 'antCount', min: 20, max: 80, steps: 3 },
+]
+
+const inputClassName = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm'
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(3)
+
+export const ExperimentPanel = () => {
+  const { saveScenario } = useSimulationStore()
+  const { status, completed, total, results, error, run, cancel } = useExperiment()
+  const [ranges, setRanges] = useState<ParameterRange[]>(DEFAULT_RANGES)
+  const [seedCount, setSeedCount] = useState(3)
+  const [ticks, setTicks] = useState(500)
+  const [specError, setSpecError] = useState<string | null>(null)
+
+  const updateRange = (index: number, updates: Partial<ParameterRange>) => {
+    setRanges((current) => current.map((range, i) => (i === index ? { ...range, ...updates } : range)))
+  }
+
+  const handleRun = () => {
+    // 現在の世界の配置と設定を基準に、指定した項目だけを変えて実行する
+    const spec = ExperimentSpecSchema.safeParse({ scenario: saveScenario(), ranges, seedCount, ticks })
+    if (!spec.success) {
+      setSpecError('実験の設定が正しくありません')
+      return
+    }
+
+    setSpecError(null)
+    run(spec.data)
+  }
+
+  // 結果の表には実行時にスイープした項目を表示する（入力欄はその後も編集できるため）
+  const resultParameters = SweepParameterSchema.options.filter(parameter =>
+    results[0]?.parameters[parameter] !== undefined
+  )
+
+  const handleExport = () => {
+    downloadTextFile('aco-experiment.csv', formatExperimentAsCsv(results), 'text/csv')
+  }
+
+  return (
+    <div className="space-y-4 p-6 bg-white rounded-lg shadow-md">
+      <h2 className="text-xl font-bold">パラメータスイープ</h2>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-4 gap-2 text-xs text-gray-600">
+          <span>項目</span>
+          <span>最小</span>
+          <span>最大</span>
+          <span>分割数</span>
+        </div>
+        {ranges.map((range, index) => (
+          <div key={range.parameter} className="grid grid-cols-4 gap-2 items-center">
+            <span className="text-sm">{PARAMETER_LABELS[range.parameter] ?? range.parameter}</span>
+            <input
+              type="number"
+              aria-label={`${PARAMETER_LABELS[range.parameter]}の最小値`}
+              value={range.min}
+              onChange={(event) => updateRange(index, { min: Number(event.target.value) })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              aria-label={`${PARAMETER_LABELS[range.parameter]}の最大値`}
+              value={range.max}
+              onChange={(event) => updateRange(index, { max: Number(event.target.value) })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={1}
+              aria-label={`${PARAMETER_LABELS[range.parameter]}の分割数`}
+              value={range.steps}
+              onChange={(event) => updateRange(index, { steps: Number(event.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="experimentSeedCount" className="mb-2 block">シード数</Label>
+          <input
+            id="experimentSeedCount"
+            type="number"
+            min={1}
+            value={seedCount}
+            onChange={(event) => setSeedCount(Number(event.target.value))}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <Label htmlFor="experimentTicks" className="mb-2 block">ティック数</Label>
+          <input
+            id="experimentTicks"
+            type="number"
+            min={1}
+            value={ticks}
+            onChange={(event) => setTicks(Number(event.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {status === 'running' ? (
+          <Button onClick={cancel} variant="outline" className="flex items-center gap-2">
+            <SquareIcon className="w-4 h-4" />
+            中止
+          </Button>
+        ) : (
+          <Button onClick={handleRun} variant="outline" className="flex items-center gap-2">
+            <FlaskConicalIcon className="w-4 h-4" />
+            実験を実行
+          </Button>
+        )}
+        <Button
+          onClick={handleExport}
+          variant="outline"
+          className="flex items-center gap-2"
+          disabled={status !== 'done' || results.length === 0}
+        >
+          <DownloadIcon className="w-4 h-4" />
+          CSVを保存
+        </Button>
+      </div>
+
+      {status === 'running' && (
+        <p className="text-sm text-gray-600">実行中: {completed} / {total || '-'}</p>
+      )}
+      {(specError ?? error) && (
+        <p className="text-sm text-red-600">{specError ?? error}</p>
+      )}
+
+      {status === 'done' && results.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600">
+                {resultParameters.map(parameter => (
+                  <th key={parameter} className="pr-2">{PARAMETER_LABELS[parameter] ?? parameter}</th>
+                ))}
+                <th className="pr-2">運ばれた餌（平均 ± 標準偏差）</th>
+                <th>最初の発見</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result, index) => (
+                <tr key={index}>
+                  {resultParameters.map(parameter => (
+                    <td key={parameter} className="pr-2">
+                      {formatNumber(result.parameters[parameter] ?? 0)}
+                    </td>
+                  ))}
+                  <td className="pr-2">
+                    {result.metrics.foodCollected.mean.toFixed(1)}
+                    {' ± '}
+                    {Math.sqrt(result.metrics.foodCollected.variance).toFixed(1)}
+                  </td>
+                  <td>{result.metrics.firstDiscoveryTick.mean.toFixed(0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useSimulationStore } from '@/stores/simulation.store'
+import { Button } from '@/components/ui/button'
+import {
+  getLatestSample,
+  getMetricSeries,
+  type MetricKey,
+  type MetricPoint,
+  type MetricsSample,
+} from '@/lib/aco/metrics'
+import { PinIcon, PinOffIcon } from 'lucide-react'
+
+/** グラフに表示するティック幅 */
+const CHART_WINDOW_TICKS = 600
+const CHART_WIDTH = 320
+const CHART_HEIGHT = 100
+const CHART_PADDING = 4
+
+const CURRENT_COLOR = '#0096ff'
+const PINNED_COLOR = '#999999'
+
+type ChartDefinition = {
+  key: MetricKey
+  label: string
+  format: (value: number) => string
+}
+
+const CHARTS: ReadonlyArray<ChartDefinition> = [
+  { key: 'foodCollected', label: '運ばれた餌の総量', format: (value) => value.toFixed(0) },
+  { key: 'carryingRatio', label: '餌を運んでいるアリの割合', format: (value) => `${(value * 100).toFixed(0)}%` },
+  { key: 'pheromoneMass', label: 'フェロモンの総量', format: (value) => value.toFixed(0) },
+]
+
+type MetricChartProps = {
+  definition: ChartDefinition
+  current: MetricPoint[]
+  pinned: MetricPoint[] | null
+  fromTick: number
+  toTick: number
+}
+
+const drawSeries = (
+  ctx: CanvasRenderingContext2D,
+  points: MetricPoint[],
+  toX: (tick: number) => number,
+  toY: (value: number) => number
+) => {
+  ctx.beginPath()
+  points.forEach((point, i) => {
+    if (i === 0) {
+      ctx.moveTo(toX(point.tick), toY(point.value))
+    } else {
+      ctx.lineTo(toX(point.tick), toY(point.value))
+    }
+  })
+  ctx.stroke()
+}
+
+const MetricChart = ({ definition, current, pinned, fromTick, toTick }: MetricChartProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+
+    ctx.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT)
+
+    // 縦軸は 0 から表示中の系列の最大値まで
+    const maxValue = Math.max(
+      ...current.map(point => point.value),
+      ...(pinned ?? []).map(point => point.value),
+      Number.EPSILON
+    )
+    const toX = (tick: number) =>
+      CHART_PADDING + ((tick - fromTick) / (toTick - fromTick)) * (CHART_WIDTH - CHART_PADDING * 2)
+    const toY = (value: number) =>
+      CHART_HEIGHT - CHART_PADDING - (value / maxValue) * (CHART_HEIGHT - CHART_PADDING * 2)
+
+    ctx.strokeStyle = '#CCCCCC'
+    ctx.lineWidth = 1
+    ctx.strokeRect(0.5, 0.5, CHART_WIDTH - 1, CHART_HEIGHT - 1)
+
+    if (pinned) {
+      ctx.strokeStyle = PINNED_COLOR
+      ctx.setLineDash([4, 3])
+      drawSeries(ctx, pinned, toX, toY)
+      ctx.setLineDash([])
+    }
+
+    ctx.strokeStyle = CURRENT_COLOR
+    ctx.lineWidth = 2
+    drawSeries(ctx, current, toX, toY)
+  }, [current, pinned, fromTick, toTick])
+
+  const latest = current[current.length - 1]
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span>{definition.label}</span>
+        <span className="text-gray-600">{latest ? definition.format(latest.value) : '-'}</span>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={CHART_WIDTH}
+        height={CHART_HEIGHT}
+        className="w-full bg-gray-50 rounded"
+      />
+    </div>
+  )
+}
+
+export const MetricsDashboard = () => {
+  const { metrics, colonies, colonyMetrics } = useSimulationStore(useShallow((state) => ({
+    metrics: state.metrics,
+    colonies: state.colonies,
+    colonyMetrics: state.colonyMetrics,
+  })))
+  const [pinnedSamples, setPinnedSamples] = useState<MetricsSample[] | null>(null)
+
+  const latest = getLatestSample(metrics)
+  // 直近 CHART_WINDOW_TICKS ティックを表示し、固定した系列も同じティックの範囲で重ねる
+  const fromTick = Math.max(0, (latest?.tick ?? 0) - CHART_WINDOW_TICKS)
+  const toTick = fromTick + CHART_WINDOW_TICKS
+
+  const selectWindow = (samples: MetricsSample[], key: MetricKey) =>
+    getMetricSeries({ samples }, key, fromTick, toTick)
+
+  return (
+    <div className="space-y-4 p-6 bg-white rounded-lg shadow-md">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">コロニーの統計</h2>
+        {pinnedSamples ? (
+          <Button
+            onClick={() => setPinnedSamples(null)}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <PinOffIcon className="w-4 h-4" />
+            固定を解除
+          </Button>
+        ) : (
+          <Button
+            onClick={() => setPinnedSamples([...metrics.samples])}
+            variant="outline"
+            className="flex items-center gap-2"
+            disabled={metrics.samples.length === 0}
+          >
+            <PinIcon className="w-4 h-4" />
+            この実行を固定
+          </Button>
+        )}
+      </div>
+
+      {CHARTS.map(definition => (
+        <MetricChart
+          key={definition.key}
+          definition={definition}
+          current={selectWindow(metrics.samples, definition.key)}
+          pinned={pinnedSamples && selectWindow(pinnedSamples, definition.key)}
+          fromTick={fromTick}
+          toTick={toTick}
+        />
+      ))}
+
+      <div className="text-sm text-gray-600 space-y-1">
+        <p>巣の貯蔵量: {colonies.reduce((total, colony) => total + colony.storage, 0).toFixed(0)}</p>
+        <p>平均往復時間: {latest ? `${latest.averageTripLength.toFixed(1)} ティック` : '-'}</p>
+        <p>
+          最初の餌の発見: {metrics.firstDiscoveryTick !== null ? `${metrics.firstDiscoveryTick} ティック` : '-'}
+        </p>
+        {pinnedSamples && (
+          <p>
+            <span style={{ color: CURRENT_COLOR }}>━ 現在の実行</span>
+            {'　'}
+            <span style={{ color: PINNED_COLOR }}>┅ 固定した実行</span>
+          </p>
+        )}
+      </div>
+
+      {colonies.length > 1 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="pr-2">コロニー</th>
+              <th className="pr-2">運ばれた餌</th>
+              <th className="pr-2">貯蔵量</th>
+              <th className="pr-2">平均往復時間</th>
+              <th>最初の発見</th>
+            </tr>
+          </thead>
+          <tbody>
+            {colonies.map((colony, index) => {
+              const stats = colonyMetrics[colony.id]
+              const colonyLatest = stats && getLatestSample(stats)
+              return (
+                <tr key={colony.id}>
+                  <td className="pr-2">
+                    {/* 白い巣も見えるよう、色見本には枠線を付ける */}
+                    <span
+                      className="inline-block w-3 h-3 mr-1 align-middle rounded-full border border-gray-400"
+                      style={{ backgroundColor: colony.color }}
+                    />
+                    巣 {index + 1}
+                  </td>
+                  <td className="pr-2">{stats ? stats.totalFoodCollected.toFixed(0) : '-'}</td>
+                  <td className="pr-2">{colony.storage.toFixed(0)}</td>
+                  <td className="pr-2">{colonyLatest ? colonyLatest.averageTripLength.toFixed(1) : '-'}</td>
+                  <td>{stats?.firstDiscoveryTick ?? '-'}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useSimulationStore } from '@/stores/simulation.store'
+import { Slider } from '@/components/ui/slider'
+import { Label } from '@/components/ui/label'
+import { TraitDistributionSchema, type Population } from '@/lib/aco/types'
+
+type VariationField = {
+  key: keyof Omit<Population, 'scoutRatio' | 'traitDistribution'>
+  label: string
+}
+
+const VARIATION_FIELDS: ReadonlyArray<VariationField> = [
+  { key: 'speedVariation', label: '速度' },
+  { key: 'sensitivityVariation', label: 'フェロモン感度' },
+  { key: 'capacityVariation', label: '運搬量' },
+  { key: 'explorationVariation', label: '探索の広さ' },
+]
+
+/**
+ * 偵察アリの割合と、個体ごとの特性のばらつきを設定する
+ * 変更するとアリを作り直してシミュレーションを初期化する
+ */
+export const PopulationSettings = () => {
+  const state = useSimulationStore()
+  const { scoutRatio, traitDistribution, setPopulation } = state
+
+  return (
+    <details className="rounded-md border border-gray-200 p-3">
+      <summary className="cursor-pointer text-sm font-medium">個体差とカースト</summary>
+      <div className="mt-4 space-y-4">
+        <div>
+          <Label htmlFor="scoutRatio" className="flex justify-between mb-2">
+            <span>偵察アリの割合</span>
+            <span className="text-gray-600">{(scoutRatio * 100).toFixed(0)}%</span>
+          </Label>
+          <Slider
+            id="scoutRatio"
+            value={[scoutRatio]}
+            onValueChange={(value) => setPopulation({ scoutRatio: value[0] })}
+            min={0}
+            max={1}
+            step={0.05}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="traitDistribution" className="flex justify-between mb-2">
+            <span>ばらつきの分布</span>
+          </Label>
+          <select
+            id="traitDistribution"
+            value={traitDistribution}
+            onChange={(event) => setPopulation({ traitDistribution: TraitDistributionSchema.parse(event.target.value) })}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="uniform">一様分布（基準値 ± ばらつき）</option>
+            <option value="normal">正規分布（標準偏差 = ばらつき）</option>
+          </select>
+        </div>
+
+        {VARIATION_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <Label htmlFor={key} className="flex justify-between mb-2">
+              <span>{label}のばらつき</span>
+              <span className="text-gray-600">{(state[key] * 100).toFixed(0)}%</span>
+            </Label>
+            <Slider
+              id={key}
+              value={[state[key]]}
+              onValueChange={(value) => setPopulation({ [key]: value[0] })}
+              min={0}
+              max={1}
+              step={0.05}
+            />
+          </div>
+        ))}
+
+        <p className="text-sm text-gray-600">
+          偵察アリは速く広く歩き回り、フェロモンの道にはあまり従いません
+        </p>
+      </div>
+    </details>
+  )
+}
@@ -1,6 +1,22 @@
-import { useEffect, useRef, useCallback, useMemo } from 'react'
+import { useEffect, useRef, useCallback } from 'react'
 import { useSimulationStore } from '@/stores/simulation.store'
+import { useFrameStore } from '@/stores/frame.store'
+import { useEditorStore } from '@/stores/editor.store'
 import type { Position } from '@/lib/aco/types'
+import { EDITOR_CONSTANTS, PHEROMONE_CONSTANTS } from '@/lib/aco/constants'
+import { findColony } from '@/lib/aco/colony'
+import { findColonyAt, findFoodAt } from '@/lib/aco/world-editor'
+import { obstacleSetToCells } from '@/lib/aco/obstacles'
+import {
+  ANT_FRAME_STRIDE,
+  forEachFramePheromone,
+  type SimulationFrame,
+} from '@/lib/aco/frame'
+
+type PaintMode = 'wall' | 'eraseWall' | 'pheromone' | 'erasePheromone' | null
+
+/** ドラッグで動かしている餌または巣 */
+type DragTarget = { kind: 'food'; id: string } | { kind: 'nest'; colonyId: string } | null
 
 type SimulationCanvasProps = {
   width: number
@@ -17,8 +33,21 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
   const staticCtxRef = useRef<OffscreenCanvasRenderingContext2D | null>(null)
   const animationFrameRef = useRef<number>(0)
   const lastPheromoneUpdateRef = useRef<number>(0)
+  const paintModeRef = useRef<PaintMode>(null)
+  const dragTargetRef = useRef<DragTarget>(null)
+  // 餌や巣をつかんだ押下では、続くクリックで餌を置かない
+  const skipClickRef = useRef(false)
   
-  const { ants, foods, pheromones, nest, addFood } = useSimulationStore()
+  // アリ・餌・フェロモンは毎ティック変わるため購読せず、描画ループで frame ストアから読む
+  const colonies = useSimulationStore((state) => state.colonies)
+  const obstacles = useSimulationStore((state) => state.obstacles)
+  const addFood = useSimulationStore((state) => state.addFood)
+  const addColony = useSimulationStore((state) => state.addColony)
+  const removeFood = useSimulationStore((state) => state.removeFood)
+  const editWorld = useSimulationStore((state) => state.editWorld)
+  const addObstacle = useSimulationStore((state) => state.addObstacle)
+  const removeObstacle = useSimulationStore((state) => state.removeObstacle)
+  const tool = useEditorStore((state) => state.tool)
 
   // オフスクリーンキャンバスの初期化（エラーハンドリング付き）
   useEffect(() => {
@@ -62,25 +91,6 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     }
   }, [width, height])
 
-  // Spatial indexing for pheromones
-  const pheromoneGrid = useMemo(() => {
-    const gridSize = 50
-    const grid = new Map<string, Array<typeof pheromones extends Map<any, infer V> ? V : never>>()
-    
-    pheromones.forEach((pheromone) => {
-      const gridX = Math.floor(pheromone.position.x / gridSize)
-      const gridY = Math.floor(pheromone.position.y / gridSize)
-      const key = `${gridX},${gridY}`
-      
-      if (!grid.has(key)) {
-        grid.set(key, [])
-      }
-      grid.get(key)!.push(pheromone)
-    })
-    
-    return grid
-  }, [pheromones])
-
   const drawCircle = useCallback(
     (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
      position: Position,
@@ -92,7 +102,28 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     ctx.fill()
   }, [])
 
-  const drawPheromones = useCallback((ctx: OffscreenCanvasRenderingContext2D) => {
+  const drawPheromoneLayer = useCallback(
+    (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+     frame: SimulationFrame,
+     alpha: number) => {
+    forEachFramePheromone(frame, (x, y, strength, type) => {
+      const intensity = Math.min(strength / 100, 1)
+      if (intensity < 0.05) return
+
+      const radius = 12 + intensity * 15
+
+      // Use simpler rendering for better performance
+      ctx.globalAlpha = intensity * alpha
+      ctx.fillStyle = type === 'toFood' ? '#00ff00' : '#0096ff'
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, Math.PI * 2)
+      ctx.fill()
+    })
+
+    ctx.globalAlpha = 1
+  }, [])
+
+  const drawPheromones = useCallback((ctx: OffscreenCanvasRenderingContext2D, frame: SimulationFrame) => {
     const now = performance.now()
     
     // Only update pheromone layer every 100ms
@@ -102,90 +133,75 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     lastPheromoneUpdateRef.current = now
     
     ctx.clearRect(0, 0, width, height)
-    
-    // Use pre-sorted pheromones from spatial index
-    pheromoneGrid.forEach((pheromonesInCell) => {
-      // Sort by intensity within each cell
-      const sorted = pheromonesInCell.sort((a, b) => a.intensity - b.intensity)
-      
-      sorted.forEach((pheromone) => {
-        const intensity = Math.min(pheromone.intensity / 100, 1)
-        if (intensity < 0.05) return
-        
-        const radius = 12 + intensity * 15
-        
-        // Use simpler rendering for better performance
-        ctx.globalAlpha = intensity
-        if (pheromone.type === 'toFood') {
-          ctx.fillStyle = '#00ff00'
-        } else {
-          ctx.fillStyle = '#0096ff'
-        }
-        
-        ctx.beginPath()
-        ctx.arc(pheromone.position.x, pheromone.position.y, radius, 0, Math.PI * 2)
-        ctx.fill()
-      })
-    })
-    
-    ctx.globalAlpha = 1
+    drawPheromoneLayer(ctx, frame, 1)
     return true
-  }, [pheromoneGrid, width, height])
+  }, [drawPheromoneLayer, width, height])
 
-  const drawFoods = useCallback((ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
+  const drawFoods = useCallback(
+    (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, frame: SimulationFrame) => {
     // Batch render all foods with same color
     ctx.fillStyle = '#FFA500'
-    foods.forEach((food) => {
+    frame.foods.forEach((food) => {
       const size = Math.max(3, food.amount / 10)
       ctx.beginPath()
       ctx.arc(food.position.x, food.position.y, size, 0, Math.PI * 2)
       ctx.fill()
     })
-  }, [foods])
+  }, [])
 
-  const drawAnts = useCallback((ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
-    // Batch render ants by state
-    const antsWithFood = ants.filter(ant => ant.hasFood)
-    const antsWithoutFood = ants.filter(ant => !ant.hasFood)
-    
-    // Draw ants without food
-    ctx.fillStyle = '#FFFFFF'
-    antsWithoutFood.forEach((ant) => {
-      ctx.beginPath()
-      ctx.arc(ant.position.x, ant.position.y, 3, 0, Math.PI * 2)
-      ctx.fill()
-    })
-    
-    // Draw ants with food
-    ctx.fillStyle = '#FF6B6B'
-    antsWithFood.forEach((ant) => {
-      ctx.beginPath()
-      ctx.arc(ant.position.x, ant.position.y, 3, 0, Math.PI * 2)
-      ctx.fill()
-    })
+  const drawAnts = useCallback(
+    (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, frame: SimulationFrame) => {
+    const { ants, antsCarryingFood, antColonies } = frame
+
+    // Batch render ants by state (colony index -1 matches every colony)
+    const drawBodies = (carrying: number, colony: number, color: string) => {
+      ctx.fillStyle = color
+      for (let i = 0; i < antsCarryingFood.length; i++) {
+        if (antsCarryingFood[i] !== carrying) continue
+        if (colony !== -1 && antColonies[i] !== colony) continue
+        ctx.beginPath()
+        ctx.arc(ants[i * ANT_FRAME_STRIDE], ants[i * ANT_FRAME_STRIDE + 1], 3, 0, Math.PI * 2)
+        ctx.fill()
+      }
+    }
+
+    // Draw ants without food in their colony's colour, then ants with food
+    frame.colonies.forEach((colony, index) => drawBodies(0, index, colony.color))
+    drawBodies(1, -1, '#FF6B6B')
     
     // Draw ant directions
     ctx.strokeStyle = '#CCCCCC'
     ctx.lineWidth = 1
     ctx.beginPath()
-    ants.forEach((ant) => {
-      ctx.moveTo(ant.position.x, ant.position.y)
+    for (let i = 0; i < ants.length; i += ANT_FRAME_STRIDE) {
+      ctx.moveTo(ants[i], ants[i + 1])
       ctx.lineTo(
-        ant.position.x + Math.cos(ant.direction) * 8,
-        ant.position.y + Math.sin(ant.direction) * 8
+        ants[i] + Math.cos(ants[i + 2]) * 8,
+        ants[i + 1] + Math.sin(ants[i + 2]) * 8
       )
-    })
+    }
     ctx.stroke()
-  }, [ants])
+  }, [])
 
-  const drawNest = useCallback((ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
-    drawCircle(ctx, nest, 15, '#D2691E')
-    ctx.strokeStyle = '#FF8C00'
-    ctx.lineWidth = 3
-    ctx.beginPath()
-    ctx.arc(nest.x, nest.y, 15, 0, Math.PI * 2)
-    ctx.stroke()
-  }, [nest, drawCircle])
+  // 巣の縁をコロニーの色で描き、どのアリがどの巣に属するか分かるようにする
+  const drawNests = useCallback((ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
+    colonies.forEach(({ nest, color }) => {
+      drawCircle(ctx, nest, 15, '#D2691E')
+      ctx.strokeStyle = color
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      ctx.arc(nest.x, nest.y, 15, 0, Math.PI * 2)
+      ctx.stroke()
+    })
+  }, [colonies, drawCircle])
+
+  const drawObstacles = useCallback((ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
+    const cellSize = PHEROMONE_CONSTANTS.GRID_CELL_SIZE
+    ctx.fillStyle = '#808080'
+    obstacleSetToCells(obstacles).forEach(({ column, row }) => {
+      ctx.fillRect(column * cellSize, row * cellSize, cellSize, cellSize)
+    })
+  }, [obstacles])
 
   const drawStatic = useCallback(() => {
     const ctx = staticCtxRef.current
@@ -193,8 +209,9 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     
     ctx.fillStyle = '#2a2a2a'
     ctx.fillRect(0, 0, width, height)
-    drawNest(ctx)
-  }, [width, height, drawNest])
+    drawObstacles(ctx)
+    drawNests(ctx)
+  }, [width, height, drawObstacles, drawNests])
 
   // Draw static elements once
   useEffect(() => {
@@ -209,6 +226,12 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     const staticCtx = staticCtxRef.current
     
     if (!canvas || !mainCtx) return
+
+    const frame = useFrameStore.getState().frame
+    if (!frame) {
+      animationFrameRef.current = requestAnimationFrame(render)
+      return
+    }
     
     // Use offscreen canvas if available
     if (offscreenCtx && pheromoneCtx && staticCtx) {
@@ -218,22 +241,15 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
       // Draw static background
       offscreenCtx.drawImage(staticCanvasRef.current!, 0, 0)
       
-      // Update and draw pheromones (cached)
-      if (drawPheromones(pheromoneCtx)) {
-        // Only redraw if updated
-        offscreenCtx.globalAlpha = 0.7
-        offscreenCtx.drawImage(pheromoneCanvasRef.current!, 0, 0)
-        offscreenCtx.globalAlpha = 1
-      } else {
-        // Use cached pheromone layer
-        offscreenCtx.globalAlpha = 0.7
-        offscreenCtx.drawImage(pheromoneCanvasRef.current!, 0, 0)
-        offscreenCtx.globalAlpha = 1
-      }
+      // Update pheromones every 100ms, otherwise draw the cached layer
+      drawPheromones(pheromoneCtx, frame)
+      offscreenCtx.globalAlpha = 0.7
+      offscreenCtx.drawImage(pheromoneCanvasRef.current!, 0, 0)
+      offscreenCtx.globalAlpha = 1
       
       // Draw dynamic elements
-      drawFoods(offscreenCtx)
-      drawAnts(offscreenCtx)
+      drawFoods(offscreenCtx, frame)
+      drawAnts(offscreenCtx, frame)
       
       // Copy to main canvas
       mainCtx.clearRect(0, 0, width, height)
@@ -245,28 +261,16 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
       mainCtx.fillRect(0, 0, width, height)
       
       // Draw all elements directly
-      pheromoneGrid.forEach((pheromonesInCell) => {
-        pheromonesInCell.forEach((pheromone) => {
-          const intensity = Math.min(pheromone.intensity / 100, 1)
-          if (intensity < 0.05) return
-          
-          const radius = 12 + intensity * 15
-          mainCtx.globalAlpha = intensity * 0.7
-          mainCtx.fillStyle = pheromone.type === 'toFood' ? '#00ff00' : '#0096ff'
-          mainCtx.beginPath()
-          mainCtx.arc(pheromone.position.x, pheromone.position.y, radius, 0, Math.PI * 2)
-          mainCtx.fill()
-        })
-      })
-      mainCtx.globalAlpha = 1
+      drawPheromoneLayer(mainCtx, frame, 0.7)
       
-      drawNest(mainCtx)
-      drawFoods(mainCtx)
-      drawAnts(mainCtx)
+      drawObstacles(mainCtx)
+      drawNests(mainCtx)
+      drawFoods(mainCtx, frame)
+      drawAnts(mainCtx, frame)
     }
     
     animationFrameRef.current = requestAnimationFrame(render)
-  }, [width, height, drawPheromones, drawNest, drawFoods, drawAnts, pheromoneGrid])
+  }, [width, height, drawPheromones, drawPheromoneLayer, drawObstacles, drawNests, drawFoods, drawAnts])
 
   useEffect(() => {
     animationFrameRef.current = requestAnimationFrame(render)
@@ -278,18 +282,132 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
     }
   }, [render])
 
-  const handleClick = useCallback(
-    (event: React.MouseEvent<HTMLCanvasElement>) => {
+  const getCanvasPosition = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>): Position | null => {
       const canvas = canvasRef.current
-      if (!canvas) return
+      if (!canvas) return null
 
       const rect = canvas.getBoundingClientRect()
-      const x = event.clientX - rect.left
-      const y = event.clientY - rect.top
+      return {
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+      }
+    },
+    []
+  )
+
+  // 実行中はストアの餌が同期時点のものなので、描画中のフレームの餌を対象にする
+  const findFoodUnder = useCallback((position: Position) =>
+    findFoodAt(useFrameStore.getState().frame?.foods ?? useSimulationStore.getState().foods, position),
+  [])
 
-      addFood({ x, y })
+  const paintAt = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const position = getCanvasPosition(event)
+      if (!position) return
+
+      switch (paintModeRef.current) {
+        case 'wall':
+          addObstacle(position)
+          break
+        case 'eraseWall':
+          removeObstacle(position)
+          break
+        case 'pheromone': {
+          const { pheromoneType, pheromoneColonyId } = useEditorStore.getState()
+          editWorld({
+            type: 'paintPheromone',
+            position,
+            radius: EDITOR_CONSTANTS.PHEROMONE_BRUSH_RADIUS,
+            pheromoneType,
+            colonyId: findColony(colonies, pheromoneColonyId).id,
+            amount: EDITOR_CONSTANTS.PHEROMONE_BRUSH_AMOUNT,
+          })
+          break
+        }
+        case 'erasePheromone':
+          editWorld({ type: 'erasePheromone', position, radius: EDITOR_CONSTANTS.PHEROMONE_BRUSH_RADIUS })
+          break
+      }
+    },
+    [getCanvasPosition, addObstacle, removeObstacle, editWorld, colonies]
+  )
+
+  // Shift+ドラッグで壁を描き、Alt+ドラッグで壁を消す（選択中のツールより優先する）
+  const handleMouseDown = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const position = getCanvasPosition(event)
+      if (!position) return
+
+      skipClickRef.current = false
+      if (event.shiftKey) {
+        paintModeRef.current = 'wall'
+      } else if (event.altKey) {
+        paintModeRef.current = 'eraseWall'
+      } else if (event.ctrlKey || event.metaKey) {
+        return
+      } else if (tool === 'food') {
+        const food = findFoodUnder(position)
+        dragTargetRef.current = food && { kind: 'food', id: food.id }
+        skipClickRef.current = food !== null
+        return
+      } else if (tool === 'nest') {
+        const colony = findColonyAt(colonies, position)
+        dragTargetRef.current = colony && { kind: 'nest', colonyId: colony.id }
+        return
+      } else if (tool !== 'eraseFood') {
+        paintModeRef.current = tool
+      } else {
+        return
+      }
+
+      event.preventDefault()
+      paintAt(event)
+    },
+    [getCanvasPosition, paintAt, tool, colonies, findFoodUnder]
+  )
+
+  const handleMouseMove = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const dragTarget = dragTargetRef.current
+      if (dragTarget) {
+        const position = getCanvasPosition(event)
+        if (!position) return
+
+        editWorld(dragTarget.kind === 'food'
+          ? { type: 'moveFood', id: dragTarget.id, position }
+          : { type: 'moveNest', colonyId: dragTarget.colonyId, position })
+      } else if (paintModeRef.current) {
+        paintAt(event)
+      }
+    },
+    [getCanvasPosition, paintAt, editWorld]
+  )
+
+  const stopPainting = useCallback(() => {
+    paintModeRef.current = null
+    dragTargetRef.current = null
+  }, [])
+
+  // 餌ツールでは空いた場所のクリックで餌を置き、Ctrl（Mac では Command）+クリックで新しいコロニーの巣を置く
+  const handleClick = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      if (event.shiftKey || event.altKey || skipClickRef.current) return
+
+      const position = getCanvasPosition(event)
+      if (!position) return
+
+      if (event.ctrlKey || event.metaKey) {
+        addColony(position)
+      } else if (tool === 'food') {
+        const { foodAmount, foodQuality } = useEditorStore.getState()
+        addFood(position, foodAmount, foodQuality)
+      } else if (tool === 'eraseFood') {
+        const food = findFoodUnder(position)
+        if (food) removeFood(food.id)
+      }
     },
-    [addFood]
+    [getCanvasPosition, addFood, addColony, removeFood, tool, findFoodUnder]
   )
 
   return (
@@ -297,8 +415,12 @@ export const SimulationCanvas = ({ width, height }: SimulationCanvasProps) => {
       ref={canvasRef}
       width={width}
       height={height}
-      className="border border-gray-300 rounded-lg cursor-crosshair"
+      className={`border border-gray-300 rounded-lg ${tool === 'nest' ? 'cursor-move' : 'cursor-crosshair'}`}
       onClick={handleClick}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={stopPainting}
+      onMouseLeave={stopPainting}
     />
   )
 }
\ No newline at end of file
@@ -1,30 +1,54 @@
 import { useEffect, useRef } from 'react'
 import { useSimulationStore } from '@/stores/simulation.store'
 import { SimulationCanvas } from './SimulationCanvas'
+import { EditorToolbar } from './EditorToolbar'
 import { ControlPanel } from './ControlPanel'
+import { MetricsDashboard } from './MetricsDashboard'
+import { ExperimentPanel } from './ExperimentPanel'
 import { useSimulation } from '@/hooks/useSimulation'
+import { DEFAULT_RANDOM_FOOD_COUNT, hasSharedSetup, type SimulationSearch } from '@/lib/aco/share'
 
-export const ACOSimulation = () => {
-  const { initializeSimulation, addRandomFoods } = useSimulationStore()
+type ACOSimulationProps = {
+  /** 共有リンクで指定された設定とレイアウト */
+  sharedSetup?: SimulationSearch
+}
+
+export const ACOSimulation = ({ sharedSetup }: ACOSimulationProps) => {
+  const {
+    initializeSimulation,
+    addRandomFoods,
+    loadSharedSetup,
+    worldWidth,
+    worldHeight,
+  } = useSimulationStore()
   const isInitialized = useRef(false)
 
   useSimulation()
 
   useEffect(() => {
     if (!isInitialized.current) {
-      initializeSimulation()
-      addRandomFoods(10)
+      // 共有リンクの設定を優先し、次に前回のセッションを復元した状態から続ける
+      const loadedSharedSetup = sharedSetup !== undefined
+        && hasSharedSetup(sharedSetup)
+        && loadSharedSetup(sharedSetup)
+      if (!loadedSharedSetup && useSimulationStore.getState().ants.length === 0) {
+        initializeSimulation()
+        addRandomFoods(DEFAULT_RANDOM_FOOD_COUNT)
+      }
       isInitialized.current = true
     }
-  }, [initializeSimulation, addRandomFoods])
+  }, [initializeSimulation, addRandomFoods, loadSharedSetup, sharedSetup])
 
   return (
     <div className="flex flex-col lg:flex-row gap-6 p-6 min-h-screen bg-gray-100">
-      <div className="flex-1 flex items-center justify-center">
-        <SimulationCanvas width={800} height={600} />
+      <div className="flex-1 flex flex-col items-center justify-center gap-4">
+        <EditorToolbar />
+        <SimulationCanvas width={worldWidth} height={worldHeight} />
       </div>
-      <div className="w-full lg:w-96">
+      <div className="w-full lg:w-96 space-y-6">
         <ControlPanel />
+        <MetricsDashboard />
+        <ExperimentPanel />
       </div>
     </div>
   )
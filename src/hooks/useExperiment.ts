@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ExperimentCellResult, ExperimentSpec } from '../lib/aco/experiment'
+import type { ExperimentWorkerRequest, ExperimentWorkerResponse } from '../lib/aco/experiment.worker'
+
+export type ExperimentStatus = 'idle' | 'running' | 'done' | 'error'
+
+type ExperimentState = {
+  status: ExperimentStatus
+  completed: number
+  total: number
+  results: ExperimentCellResult[]
+  error: string | null
+}
+
+const initialState: ExperimentState = {
+  status: 'idle',
+  completed: 0,
+  total: 0,
+  results: [],
+  error: null,
+}
+
+/**
+ * パラメータスイープを Web Worker で実行する
+ * 実行中もメインスレッドのシミュレーションは止まらない
+ */
+export const useExperiment = () => {
+  const workerRef = useRef<Worker | null>(null)
+  const [state, setState] = useState<ExperimentState>(initialState)
+
+  const terminate = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }, [])
+
+  const run = useCallback((spec: ExperimentSpec) => {
+    terminate()
+
+    const worker = new Worker(
+      new URL('../lib/aco/experiment.worker.ts', import.meta.url),
+      { type: 'module' }
+    )
+    workerRef.current = worker
+    setState({ ...initialState, status: 'running' })
+
+    worker.addEventListener('message', (event: MessageEvent<ExperimentWorkerResponse>) => {
+      const response = event.data
+      switch (response.type) {
+        case 'progress':
+          setState((current) => ({ ...current, completed: response.completed, total: response.total }))
+          break
+        case 'done':
+          setState((current) => ({ ...current, status: 'done', results: response.results }))
+          terminate()
+          break
+        case 'error':
+          setState((current) => ({ ...current, status: 'error', error: response.message }))
+          terminate()
+          break
+      }
+    })
+
+    const request: ExperimentWorkerRequest = { type: 'run', spec }
+    worker.postMessage(request)
+  }, [terminate])
+
+  const cancel = useCallback(() => {
+    terminate()
+    setState((current) => ({ ...current, status: 'idle' }))
+  }, [terminate])
+
+  useEffect(() => terminate, [terminate])
+
+  return { ...state, run, cancel }
+}
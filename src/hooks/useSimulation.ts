@@ -1,178 +1,169 @@
 import { useEffect, useRef } from 'react'
-import { useSimulationStore } from '../stores/simulation.store'
-import { executeAntBehavior } from '../lib/aco/ant-behavior'
-import { decayPheromones } from '../lib/aco/pheromone'
-import type { Ant, Food, Pheromone, Position } from '../lib/aco/types'
+import { selectEngineState, selectSimulationConfig, useSimulationStore } from '../stores/simulation.store'
+import { useFrameStore } from '../stores/frame.store'
+import { SIMULATION_CONSTANTS } from '../lib/aco/constants'
+import { createSimulationFrame } from '../lib/aco/frame'
+import type {
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+} from '../lib/aco/simulation-runner'
+
+type StoreState = ReturnType<typeof useSimulationStore.getState>
+
+const canUseWorker = () => typeof Worker !== 'undefined'
+
+const hasConfigChanged = (state: StoreState, prev: StoreState) => {
+  const config = selectSimulationConfig(state)
+  const prevConfig = selectSimulationConfig(prev)
+  return (Object.keys(config) as (keyof typeof config)[]).some(key => config[key] !== prevConfig[key])
+}
+
+// ストアで行われた編集をワーカーへ転送する
+// 実行中のストアの状態は同期時点のものなので、餌は全体ではなく増減のみを送る
+const forwardStoreChanges = (
+  state: StoreState,
+  prev: StoreState,
+  post: (request: SimulationWorkerRequest) => void
+) => {
+  if (hasConfigChanged(state, prev)) {
+    post({ type: 'config', config: selectSimulationConfig(state) })
+  }
 
-// Configuration constants
-const FRAME_DELAY_MS = 50
-const PHEROMONE_DECAY_INTERVAL_MS = 500
+  if (state.foods !== prev.foods) {
+    const prevIds = new Set(prev.foods.map(food => food.id))
+    const ids = new Set(state.foods.map(food => food.id))
+    const added = state.foods.filter(food => !prevIds.has(food.id))
+    const removed = prev.foods.filter(food => !ids.has(food.id)).map(food => food.id)
+    if (added.length > 0) post({ type: 'addFoods', foods: added })
+    if (removed.length > 0) post({ type: 'removeFoods', ids: removed })
+  }
 
+  if (state.obstacles !== prev.obstacles) {
+    post({ type: 'obstacles', obstacles: new Set(state.obstacles) })
+  }
+}
+
+/**
+ * シミュレーションの実行ループ
+ * Web Worker が使える場合はワーカーでティックを進め、描画用フレームを受け取って frame ストアに渡す。
+ * 完全な状態は一時停止時と一定間隔でのみストアへ同期するため、メインスレッドの再描画は抑えられる。
+ * ワーカーが使えない環境では、メインスレッドで executeSimulationTick を実行する
+ */
 export const useSimulation = () => {
   const animationFrameRef = useRef<number>(0)
   const lastTimeRef = useRef<number>(0)
-  const lastDecayTimeRef = useRef<number>(0)
-  
-  const simulationState = useSimulationStore()
 
-  const animate = (currentTime: number) => {
-    if (!simulationState.isRunning) {
-      lastTimeRef.current = currentTime
-      animationFrameRef.current = requestAnimationFrame(animate)
-      return
-    }
+  const isRunning = useSimulationStore((state) => state.isRunning)
+  const speed = useSimulationStore((state) => state.speed)
+  const stepSimulation = useSimulationStore((state) => state.stepSimulation)
 
-    const deltaTime = currentTime - lastTimeRef.current
-    
-    if (deltaTime > FRAME_DELAY_MS / simulationState.speed) {
-      performSimulationStep(currentTime)
-      lastTimeRef.current = currentTime
+  useEffect(() => {
+    const { publishFrame } = useFrameStore.getState()
+
+    if (!canUseWorker()) {
+      // メインスレッドで実行する場合はストアの変更ごとにフレームを作る
+      const publish = (state: StoreState) =>
+        publishFrame(createSimulationFrame(selectSimulationConfig(state), selectEngineState(state)))
+      publish(useSimulationStore.getState())
+      return useSimulationStore.subscribe((state, prev) => {
+        if (
+          state.ants !== prev.ants
+          || state.foods !== prev.foods
+          || state.pheromones !== prev.pheromones
+          || state.tick !== prev.tick
+        ) {
+          publish(state)
+        }
+      })
     }
 
-    animationFrameRef.current = requestAnimationFrame(animate)
-  }
-
-  const performSimulationStep = (currentTime: number) => {
-    const {
-      ants,
-      foods,
-      pheromones,
-      nest,
-      worldWidth,
-      worldHeight,
-      pheromoneDecayRate,
-      pheromoneDepositAmount,
-      pheromoneTrackingStrength,
-    } = simulationState
-
-    // Process all ants and collect updates
-    const updates = processAnts({
-      ants,
-      foods,
-      pheromones,
-      nest,
-      worldWidth,
-      worldHeight,
-      pheromoneDepositAmount,
-      pheromoneTrackingStrength,
-    })
-
-    // Apply all updates in a single state change
-    applyUpdates(updates, currentTime)
-  }
-
-  const processAnts = (context: {
-    ants: Ant[]
-    foods: Food[]
-    pheromones: Map<string, Pheromone>
-    nest: Position
-    worldWidth: number
-    worldHeight: number
-    pheromoneDepositAmount: number
-    pheromoneTrackingStrength: number
-  }) => {
-    const antUpdates: Array<{ id: string; updates: Partial<Ant> }> = []
-    const pheromoneUpdates = new Map<string, Pheromone>()
-    const foodUpdates: Array<{ id: string; updates: Partial<Food> }> = []
-    const foodsToRemove: string[] = []
-
-    context.ants.forEach(ant => {
-      const result = executeAntBehavior({
-        ant,
-        foods: context.foods,
-        pheromones: context.pheromones,
-        nest: context.nest,
-        worldWidth: context.worldWidth,
-        worldHeight: context.worldHeight,
-        pheromoneDepositAmount: context.pheromoneDepositAmount,
-        pheromoneTrackingStrength: context.pheromoneTrackingStrength,
-        ants: context.ants,
+    const worker = new Worker(
+      new URL('../lib/aco/simulation.worker.ts', import.meta.url),
+      { type: 'module' }
+    )
+    let generation = 0
+    let syncing = false
+
+    const post = (request: SimulationWorkerRequest) => worker.postMessage(request)
+    const load = (state: StoreState) => {
+      generation++
+      post({
+        type: 'load',
+        generation,
+        config: selectSimulationConfig(state),
+        state: selectEngineState(state),
       })
+    }
 
-      // Collect ant updates
-      if (result.antUpdate) {
-        antUpdates.push({ id: ant.id, updates: result.antUpdate })
+    worker.addEventListener('message', (event: MessageEvent<SimulationWorkerResponse>) => {
+      const response = event.data
+      // 読み込み直す前の状態からの応答は捨てる
+      if (response.generation !== generation) return
+
+      if (response.type === 'frame') {
+        publishFrame(response.frame)
+      } else {
+        syncing = true
+        useSimulationStore.getState().syncEngineState(response.state)
+        syncing = false
       }
+    })
 
-      // Merge pheromone updates
-      result.pheromoneUpdates.forEach((pheromone: Pheromone, key: string) => {
-        pheromoneUpdates.set(key, pheromone)
-      })
-
-      // Collect food updates
-      if (result.foodUpdate) {
-        foodUpdates.push({ id: result.foodUpdate.id, updates: { amount: result.foodUpdate.amount } })
+    const initialState = useSimulationStore.getState()
+    load(initialState)
+    if (initialState.isRunning) post({ type: 'run' })
+
+    const unsubscribe = useSimulationStore.subscribe((state, prev) => {
+      if (syncing) return
+
+      // エディタの編集は操作をそのまま送り、ワーカー側の最新の状態に適用させる
+      // 初期化や読み込みでストアの状態が置き換えられた場合のみ、ワーカーに読み込み直させる
+      // （実行中のストアの状態は同期時点のものなので、それ以外で読み込み直すとワーカーが巻き戻る）
+      if (state.lastEdit !== prev.lastEdit && state.lastEdit) {
+        post({ type: 'edit', edit: state.lastEdit })
+      } else if (state.stateRevision !== prev.stateRevision) {
+        load(state)
+      } else {
+        forwardStoreChanges(state, prev, post)
       }
-      if (result.removeFood) {
-        foodsToRemove.push(result.removeFood)
+
+      if (state.isRunning !== prev.isRunning) {
+        post({ type: state.isRunning ? 'run' : 'pause' })
       }
     })
 
-    return { antUpdates, pheromoneUpdates, foodUpdates, foodsToRemove }
-  }
+    return () => {
+      unsubscribe()
+      worker.terminate()
+    }
+  }, [])
 
-  const applyUpdates = (
-    updates: {
-      antUpdates: Array<{ id: string; updates: Partial<Ant> }>
-      pheromoneUpdates: Map<string, Pheromone>
-      foodUpdates: Array<{ id: string; updates: Partial<Food> }>
-      foodsToRemove: string[]
-    },
-    currentTime: number
-  ) => {
-    useSimulationStore.setState((state) => {
-      // Update ants
-      const newAnts = state.ants.map(ant => {
-        const update = updates.antUpdates.find(u => u.id === ant.id)
-        return update ? { ...ant, ...update.updates } : ant
-      })
-      
-      // Update foods
-      let newFoods = state.foods
-      if (updates.foodUpdates.length > 0 || updates.foodsToRemove.length > 0) {
-        newFoods = state.foods
-          .filter(f => !updates.foodsToRemove.includes(f.id))
-          .map(food => {
-            const update = updates.foodUpdates.find(u => u.id === food.id)
-            return update ? { ...food, ...update.updates } : food
-          })
-      }
-      
-      // Update pheromones
-      const newPheromones = new Map(state.pheromones)
-      updates.pheromoneUpdates.forEach((pheromone: Pheromone, key: string) => {
-        newPheromones.set(key, pheromone)
-      })
-      
-      // Decay pheromones periodically
-      let finalPheromones = newPheromones
-      if (currentTime - lastDecayTimeRef.current > PHEROMONE_DECAY_INTERVAL_MS) {
-        finalPheromones = decayPheromones(newPheromones, state.pheromoneDecayRate)
-        lastDecayTimeRef.current = currentTime
+  useEffect(() => {
+    if (canUseWorker()) return
+
+    const animate = (currentTime: number) => {
+      if (!isRunning) {
+        lastTimeRef.current = currentTime
+        animationFrameRef.current = requestAnimationFrame(animate)
+        return
       }
-      
-      return {
-        ants: newAnts,
-        foods: newFoods,
-        pheromones: finalPheromones
+
+      const deltaTime = currentTime - lastTimeRef.current
+
+      if (deltaTime > SIMULATION_CONSTANTS.FRAME_DELAY_MS / speed) {
+        stepSimulation()
+        lastTimeRef.current = currentTime
       }
-    })
-  }
 
-  useEffect(() => {
+      animationFrameRef.current = requestAnimationFrame(animate)
+    }
+
     animationFrameRef.current = requestAnimationFrame(animate)
-    
+
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current)
       }
     }
-  }, [
-    simulationState.isRunning, 
-    simulationState.speed, 
-    simulationState.ants, 
-    simulationState.foods, 
-    simulationState.pheromones
-  ])
+  }, [isRunning, speed, stepSimulation])
 }
-
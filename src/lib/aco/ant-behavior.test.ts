@@ -1,18 +1,30 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { executeAntBehavior } from './ant-behavior'
-import type { Ant, Food, Pheromone, Position } from './types'
+import { createRng, type Rng } from './random'
+import { createPheromoneGrid, depositToGrid, type PheromoneGrid } from './pheromone-grid'
+import type { ObstacleSet } from './obstacles'
+import { createWorldGeometry, type WorldGeometry } from './geometry'
+import { DEFAULT_TRAITS } from './traits'
+import { DEFAULT_TRACKING_PARAMS, type PheromoneTrackingParams } from './pathfinding'
+import { BehaviorTuningSchema, type Ant, type AntTraits, type BehaviorTuning, type Food, type HomingMode, type Position } from './types'
 
 describe('executeAntBehavior', () => {
+  const geometry = createWorldGeometry('torus', 800, 600)
   let mockContext: {
     ant: Ant
     foods: Food[]
-    pheromones: Map<string, Pheromone>
+    pheromones: PheromoneGrid
     nest: Position
-    worldWidth: number
-    worldHeight: number
+    geometry: WorldGeometry
     pheromoneDepositAmount: number
     pheromoneTrackingStrength: number
+    pheromoneTracking: PheromoneTrackingParams
+    tuning: BehaviorTuning
+    traits: AntTraits
+    homingMode: HomingMode
     ants: Ant[]
+    obstacles: ObstacleSet
+    rng: Rng
   }
 
   beforeEach(() => {
@@ -24,15 +36,21 @@ describe('executeAntBehavior', () => {
         hasFood: false,
         targetFood: null,
         foodAmount: null,
+        colonyId: 'colony-0',
       },
       foods: [],
-      pheromones: new Map(),
+      pheromones: createPheromoneGrid(geometry),
       nest: { x: 400, y: 300 },
-      worldWidth: 800,
-      worldHeight: 600,
+      geometry,
       pheromoneDepositAmount: 2,
       pheromoneTrackingStrength: 0.7,
+      pheromoneTracking: DEFAULT_TRACKING_PARAMS,
+      tuning: BehaviorTuningSchema.parse({}),
+      traits: DEFAULT_TRAITS,
+      homingMode: 'omniscient',
       ants: [],
+      obstacles: new Set(),
+      rng: createRng(42),
     }
   })
 
@@ -42,7 +60,7 @@ describe('executeAntBehavior', () => {
 
       expect(result.antUpdate?.position).toBeDefined()
       expect(result.antUpdate?.direction).toBeDefined()
-      expect(result.pheromoneUpdates.size).toBe(0)
+      expect(result.pheromoneDeposits.length).toBe(0)
       expect(result.foodUpdate).toBeUndefined()
       expect(result.removeFood).toBeUndefined()
     })
@@ -58,7 +76,7 @@ describe('executeAntBehavior', () => {
       const result = executeAntBehavior(mockContext)
 
       expect(result.antUpdate?.position).toBeDefined()
-      expect(result.pheromoneUpdates.size).toBe(0) // No pheromone when approaching
+      expect(result.pheromoneDeposits.length).toBe(0) // No pheromone when approaching
     })
 
     it('should collect food when close enough', () => {
@@ -74,10 +92,19 @@ describe('executeAntBehavior', () => {
       expect(result.antUpdate).toMatchObject({
         hasFood: true,
         targetFood: 'food1',
-        foodAmount: 10,
+        foodAmount: 1,
+        foodQuality: 1,
       })
       expect(result.foodUpdate).toEqual({ id: 'food1', amount: 9 })
-      expect(result.pheromoneUpdates.size).toBe(0) // No pheromone when collecting
+      expect(result.pheromoneDeposits.length).toBe(0) // No pheromone when collecting
+    })
+
+    it('should carry the quality of the food it collected', () => {
+      mockContext.foods = [{ id: 'food1', position: { x: 105, y: 105 }, amount: 10, quality: 2.5 }]
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.antUpdate?.foodQuality).toBe(2.5)
     })
 
     it('should remove food when amount becomes zero', () => {
@@ -101,7 +128,7 @@ describe('executeAntBehavior', () => {
         ...mockContext.ant,
         hasFood: true,
         targetFood: 'food1',
-        foodAmount: 10,
+        foodAmount: 1,
       }
     })
 
@@ -110,20 +137,20 @@ describe('executeAntBehavior', () => {
 
       expect(result.antUpdate?.position).toBeDefined()
       expect(result.antUpdate?.direction).toBeDefined()
-      expect(result.pheromoneUpdates.size).toBeGreaterThan(0) // Should deposit pheromone
+      expect(result.pheromoneDeposits.length).toBeGreaterThan(0) // Should deposit pheromone
     })
 
-    it('should deposit pheromone based on food amount', () => {
-      // Test with high food amount
-      mockContext.ant.foodAmount = 60
+    it('should deposit pheromone based on food quality', () => {
+      // Test with high quality food
+      mockContext.ant.foodQuality = 2
       
       const result = executeAntBehavior(mockContext)
 
-      const pheromoneValues = Array.from(result.pheromoneUpdates.values())
+      const pheromoneValues = result.pheromoneDeposits
       expect(pheromoneValues.length).toBeGreaterThan(0)
       
-      // Should have higher intensity due to large food amount
-      const intensity = pheromoneValues[0].intensity
+      // Should have higher intensity due to better food
+      const intensity = pheromoneValues[0].amount
       expect(intensity).toBeGreaterThan(mockContext.pheromoneDepositAmount)
     })
 
@@ -136,14 +163,16 @@ describe('executeAntBehavior', () => {
         hasFood: false,
         targetFood: null,
         foodAmount: null,
+        foodQuality: undefined,
       })
-      expect(result.pheromoneUpdates.size).toBe(0) // No pheromone when dropping
+      expect(result.deliveredFood).toBe(1)
+      expect(result.pheromoneDeposits.length).toBe(0) // No pheromone when dropping
     })
 
     it('should create toFood pheromone when returning', () => {
       const result = executeAntBehavior(mockContext)
 
-      const pheromoneValues = Array.from(result.pheromoneUpdates.values())
+      const pheromoneValues = result.pheromoneDeposits
       expect(pheromoneValues.length).toBeGreaterThan(0)
       expect(pheromoneValues[0].type).toBe('toFood')
     })
@@ -155,25 +184,25 @@ describe('executeAntBehavior', () => {
         ...mockContext.ant,
         hasFood: true,
         targetFood: 'food1',
-        foodAmount: 30,
+        foodAmount: 1,
       }
     })
 
-    it('should scale pheromone intensity with food amount', () => {
-      // Test different food amounts
+    it('should scale pheromone intensity with food quality', () => {
+      // Food without a quality counts as quality 1
       const testCases = [
-        { foodAmount: 10, expectedMultiplier: 1 + 10/30 },
-        { foodAmount: 30, expectedMultiplier: 1 + 30/30 },
-        { foodAmount: 60, expectedMultiplier: 1 + 2 }, // Capped at 3x total
+        { foodQuality: undefined, expectedMultiplier: 1 },
+        { foodQuality: 0.5, expectedMultiplier: 0.5 },
+        { foodQuality: 3, expectedMultiplier: 3 },
       ]
 
-      testCases.forEach(({ foodAmount, expectedMultiplier }) => {
-        mockContext.ant.foodAmount = foodAmount
+      testCases.forEach(({ foodQuality, expectedMultiplier }) => {
+        mockContext.ant.foodQuality = foodQuality
         
         const result = executeAntBehavior(mockContext)
-        const pheromoneValues = Array.from(result.pheromoneUpdates.values())
+        const pheromoneValues = result.pheromoneDeposits
         
-        expect(pheromoneValues[0].intensity).toBeCloseTo(
+        expect(pheromoneValues[0].amount).toBeCloseTo(
           mockContext.pheromoneDepositAmount * expectedMultiplier,
           1
         )
@@ -183,21 +212,19 @@ describe('executeAntBehavior', () => {
 
   describe('Pheromone following', () => {
     beforeEach(() => {
-      // Add some pheromones to follow
-      const mockPheromone: Pheromone = {
-        position: { x: 150, y: 150 },
-        intensity: 50,
-        type: 'toFood',
-      }
-      mockContext.pheromones.set('15,15', mockPheromone)
+      // A trail ahead to the right, within reach of the +π/4 sensor only
+      depositToGrid(mockContext.pheromones, { x: 112, y: 132 }, 'toFood', 50)
     })
 
     it('should follow pheromone trails when exploring', () => {
-      // The behavior is probabilistic, but we can test that the function runs
+      // With seed 42 the ant follows the trail: it turns to the +π/4 sensor, then takes its random turn
       const result = executeAntBehavior(mockContext)
 
-      expect(result.antUpdate?.position).toBeDefined()
-      expect(result.antUpdate?.direction).toBeDefined()
+      expect(result.antUpdate?.direction).toBeCloseTo(0.9616310601426532, 12)
+      expect(result.antUpdate?.position?.x).toBeCloseTo(101.14436614612964, 12)
+      expect(result.antUpdate?.position?.y).toBeCloseTo(101.64025184761135, 12)
+      expect(Math.abs(result.antUpdate!.direction! - Math.PI / 4))
+        .toBeLessThanOrEqual(mockContext.tuning.antTurnRange / 2)
     })
 
     it('should not follow pheromones when carrying food', () => {
@@ -208,7 +235,140 @@ describe('executeAntBehavior', () => {
 
       // Should move towards nest, not follow pheromones
       expect(result.antUpdate?.position).toBeDefined()
-      expect(result.pheromoneUpdates.size).toBeGreaterThan(0)
+      expect(result.pheromoneDeposits.length).toBeGreaterThan(0)
+    })
+  })
+
+  describe('Pheromone homing mode', () => {
+    beforeEach(() => {
+      mockContext.homingMode = 'pheromone'
+    })
+
+    it('should deposit toNest pheromone while exploring', () => {
+      const result = executeAntBehavior(mockContext)
+
+      const pheromoneValues = result.pheromoneDeposits
+      expect(pheromoneValues).toHaveLength(1)
+      expect(pheromoneValues[0].type).toBe('toNest')
+      expect(pheromoneValues[0].amount).toBe(mockContext.pheromoneDepositAmount)
+    })
+
+    it('should not deposit toNest pheromone in omniscient mode', () => {
+      mockContext.homingMode = 'omniscient'
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.pheromoneDeposits.length).toBe(0)
+    })
+
+    it('should turn around when collecting food', () => {
+      mockContext.foods = [{ id: 'food1', position: { x: 105, y: 105 }, amount: 10 }]
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.antUpdate?.direction).toBeCloseTo(Math.PI)
+    })
+
+    it('should follow the toNest gradient instead of heading straight home', () => {
+      // ネストは右下だが、toNestフェロモンは左にある
+      mockContext.ant = {
+        ...mockContext.ant,
+        hasFood: true,
+        foodAmount: 10,
+        direction: Math.PI,
+      }
+      depositToGrid(mockContext.pheromones, { x: 80, y: 100 }, 'toNest', 50)
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.antUpdate?.position?.x).toBeLessThan(100)
+    })
+
+    it('should head straight home once the nest is in sensing range', () => {
+      mockContext.ant = {
+        ...mockContext.ant,
+        position: { x: 380, y: 300 },
+        hasFood: true,
+        foodAmount: 10,
+        direction: Math.PI,
+      }
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.antUpdate?.position?.x).toBeGreaterThan(380)
+    })
+  })
+
+  describe('Tuning', () => {
+    it('should move at the configured speed', () => {
+      mockContext.tuning = { ...mockContext.tuning, antSpeed: 5, collisionAvoidanceRadius: 0 }
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(geometry.distance(mockContext.ant.position, result.antUpdate!.position!)).toBeCloseTo(5)
+    })
+
+    it('should use the configured collection and arrival ranges', () => {
+      mockContext.foods = [{ id: 'food1', position: { x: 115, y: 100 }, amount: 10 }]
+      expect(executeAntBehavior(mockContext).antUpdate?.hasFood).toBeUndefined()
+
+      mockContext.tuning = { ...mockContext.tuning, foodCollectionRange: 20 }
+      expect(executeAntBehavior(mockContext).antUpdate?.hasFood).toBe(true)
+
+      mockContext.ant = { ...mockContext.ant, position: { x: 385, y: 300 }, hasFood: true }
+      expect(executeAntBehavior(mockContext).deliveredFood).toBeUndefined()
+
+      mockContext.tuning = { ...mockContext.tuning, nestArrivalRange: 20 }
+      expect(executeAntBehavior(mockContext).deliveredFood).toBe(1)
+    })
+
+    it('should carry up to the configured capacity scaled by the ant\'s trait', () => {
+      mockContext.tuning = { ...mockContext.tuning, antCarryCapacity: 4 }
+      mockContext.traits = { ...DEFAULT_TRAITS, carryCapacity: 1.5 }
+      mockContext.foods = [{ id: 'food1', position: { x: 105, y: 100 }, amount: 10 }]
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(result.antUpdate?.foodAmount).toBe(6)
+      expect(result.foodUpdate).toEqual({ id: 'food1', amount: 4 })
+    })
+  })
+
+  describe('Traits', () => {
+    it('should scale the speed by the ant\'s speed trait', () => {
+      mockContext.tuning = { ...mockContext.tuning, collisionAvoidanceRadius: 0 }
+      mockContext.traits = { ...DEFAULT_TRAITS, speed: 1.5 }
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(geometry.distance(mockContext.ant.position, result.antUpdate!.position!)).toBeCloseTo(3)
+    })
+
+    it('should carry up to its capacity and deliver the load', () => {
+      mockContext.traits = { ...DEFAULT_TRAITS, carryCapacity: 3 }
+      mockContext.foods = [{ id: 'food1', position: { x: 105, y: 100 }, amount: 10 }]
+
+      const collected = executeAntBehavior(mockContext)
+      expect(collected.antUpdate?.foodAmount).toBe(3)
+      expect(collected.foodUpdate).toEqual({ id: 'food1', amount: 7 })
+
+      mockContext.foods = [{ id: 'food1', position: { x: 105, y: 100 }, amount: 2 }]
+      const lastLoad = executeAntBehavior(mockContext)
+      expect(lastLoad.antUpdate?.foodAmount).toBe(2)
+      expect(lastLoad.removeFood).toBe('food1')
+
+      mockContext.ant = { ...mockContext.ant, position: { x: 402, y: 300 }, hasFood: true, foodAmount: 3 }
+      expect(executeAntBehavior(mockContext).deliveredFood).toBe(3)
+    })
+
+    it('should never follow a trail with zero pheromone sensitivity', () => {
+      [120, 120, 120, 140, 160].forEach((x) => depositToGrid(mockContext.pheromones, { x, y: 114 }, 'toFood', 100))
+      mockContext.pheromoneTrackingStrength = 1
+      mockContext.traits = { ...DEFAULT_TRAITS, pheromoneSensitivity: 0 }
+
+      const result = executeAntBehavior(mockContext)
+
+      expect(Math.abs(result.antUpdate!.direction!)).toBeLessThanOrEqual(0.25)
     })
   })
 
@@ -233,11 +393,25 @@ describe('executeAntBehavior', () => {
       const result = executeAntBehavior(mockContext)
 
       // Should still work with default multiplier
-      expect(result.pheromoneUpdates.size).toBeGreaterThan(0)
+      expect(result.pheromoneDeposits.length).toBeGreaterThan(0)
+    })
+
+    it('should produce identical results for the same seed', () => {
+      const first = executeAntBehavior({ ...mockContext, rng: createRng(123) })
+      const second = executeAntBehavior({ ...mockContext, rng: createRng(123) })
+
+      expect(first.antUpdate).toEqual(second.antUpdate)
+    })
+
+    it('should produce different movement for different seeds', () => {
+      const first = executeAntBehavior({ ...mockContext, rng: createRng(1) })
+      const second = executeAntBehavior({ ...mockContext, rng: createRng(2) })
+
+      expect(first.antUpdate?.direction).not.toBe(second.antUpdate?.direction)
     })
 
-    it('should handle empty pheromone map', () => {
-      mockContext.pheromones.clear()
+    it('should handle empty pheromone grid', () => {
+      mockContext.pheromones = createPheromoneGrid(geometry)
       
       const result = executeAntBehavior(mockContext)
 
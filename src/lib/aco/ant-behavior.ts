@@ -1,165 +1,254 @@
-import type { Ant, Food, Position, Pheromone } from './types'
-import { torusDistance, moveTowardsTarget, moveWithBias, moveAnt, followPheromone, avoidCollisions } from './ant'
-import { depositPheromone } from './pheromone'
+import type { Ant, AntTraits, BehaviorTuning, Food, Position, HomingMode } from './types'
+import { ANT_CONSTANTS } from './constants'
+import type { Rng } from './random'
+import {
+  moveTowardsTargetAroundWalls,
+  moveWithBias,
+  moveAnt,
+  followPheromone,
+  avoidCollisions,
+  type PheromoneTrackingParams,
+} from './ant'
+import type { PheromoneDeposit, PheromoneGrid } from './pheromone-grid'
+import type { ObstacleSet } from './obstacles'
+import type { WorldGeometry } from './geometry'
 
 /**
  * アリの行動実行に必要なコンテキスト情報
  */
-type AntBehaviorContext = {
+export type AntBehaviorContext = {
   /** 対象のアリ */
   ant: Ant
   /** 環境内の食べ物リスト */
   foods: Food[]
-  /** フェロモンマップ */
-  pheromones: Map<string, Pheromone>
+  /** フェロモングリッド */
+  pheromones: PheromoneGrid
   /** ネストの位置 */
   nest: Position
-  /** 世界の幅 */
-  worldWidth: number
-  /** 世界の高さ */
-  worldHeight: number
+  /** 世界の形状 */
+  geometry: WorldGeometry
   /** フェロモン放出量 */
   pheromoneDepositAmount: number
   /** フェロモン追跡強度 */
   pheromoneTrackingStrength: number
+  /** フェロモン追跡のセンサーと遷移規則のパラメータ */
+  pheromoneTracking: PheromoneTrackingParams
+  /** 移動・知覚・衝突回避の調整値 */
+  tuning: BehaviorTuning
+  /** アリの個体の特性（速度・追跡感度・運搬量・探索の広さ） */
+  traits: AntTraits
+  /** 帰巣方法（omniscient: ネストへ直進 / pheromone: toNestフェロモンを辿る） */
+  homingMode: HomingMode
   /** 他のアリのリスト（衝突回避用） */
   ants: Ant[]
+  /** 障害物レイヤー */
+  obstacles: ObstacleSet
+  /** 擬似乱数生成器 */
+  rng: Rng
 }
 
 /**
  * アリの行動実行の結果
  */
-type AntBehaviorResult = {
+export type AntBehaviorResult = {
   /** アリの状態更新 */
   antUpdate?: Partial<Ant>
-  /** フェロモンの更新 */
-  pheromoneUpdates: Map<string, Pheromone>
+  /** フェロモンの放出 */
+  pheromoneDeposits: PheromoneDeposit[]
   /** 食べ物の量更新 */
   foodUpdate?: { id: string; amount: number }
   /** 削除する食べ物のID */
   removeFood?: string
+  /** ネストに届けた食べ物の量 */
+  deliveredFood?: number
 }
 
-/** 行動制御定数 */
-/** 食べ物の検出可能距離 */
-const FOOD_DETECTION_RANGE = 20
-/** 食べ物を収集可能な距離 */
-const FOOD_COLLECTION_RANGE = 10
-/** ネストに到達したと判定する距離 */
-const NEST_ARRIVAL_RANGE = 10
-/** 衝突回避を開始する距離 */
-const COLLISION_AVOIDANCE_RADIUS = 6
-/** アリの移動速度 */
-const ANT_SPEED = 2
-/** 食べ物に向かう際のバイアス強度 */
-const FOOD_APPROACH_BIAS = 0.4
+/** 衝突回避のパラメータを設定から取り出す */
+const getAvoidanceParams = ({ collisionAvoidanceRadius, collisionAvoidanceStrength }: BehaviorTuning) => ({
+  avoidanceRadius: collisionAvoidanceRadius,
+  avoidanceStrength: collisionAvoidanceStrength,
+})
 
 /**
- * アリの現在の状態に基づいて行動を実行
+ * 個体のフェロモン感度をフェロモン追跡のパラメータに反映する
+ * すべての行動方針と帰巣時の追跡が、感度を掛けた濃度でフェロモンを検出する
+ * （濃度の比は変わらないため、これだけでは薄い道しるべを見落とすことにしか効かない）
+ */
+const withPheromoneSensitivity = (context: AntBehaviorContext): AntBehaviorContext => ({
+  ...context,
+  pheromoneTracking: {
+    ...context.pheromoneTracking,
+    sensitivity: context.pheromoneTracking.sensitivity * context.traits.pheromoneSensitivity,
+  },
+})
+
+/**
+ * フェロモンを辿る向きを、個体のフェロモン感度の確率で採用する
+ * 採用しなかった場合は今の向きを保つ。感度が1以上のアリは乱数を引かずに常に採用する
  * @param context 行動実行に必要なコンテキスト情報
- * @returns 行動実行の結果
+ * @param trailDirection フェロモンから選んだ向き
+ * @returns 進む向き
+ */
+const acceptTrailDirection = (context: AntBehaviorContext, trailDirection: number): number => {
+  const { ant, traits, rng } = context
+  if (trailDirection === ant.direction || traits.pheromoneSensitivity >= 1) return trailDirection
+
+  return rng.next() < traits.pheromoneSensitivity ? trailDirection : ant.direction
+}
+
+/** 個体の特性を反映した移動速度 */
+const getSpeed = ({ tuning, traits }: AntBehaviorContext): number =>
+  tuning.antSpeed * traits.speed
+
+/**
+ * 探索中（餌を持たず、近くに餌もない）のアリが進む方向を決める
+ * 行動方針ごとの違いはこの選び方に集約される
+ * @param context 行動実行に必要なコンテキスト情報
+ * @returns 進む方向（ランダムな揺らぎを加える前の値）
+ */
+export type ExplorationDirection = (context: AntBehaviorContext) => number
+
+/**
+ * 探索方向の選び方から行動を組み立てる
+ * 餌を持っていれば帰巣し、近くに餌があれば向かって拾い、それ以外は探索する
+ * 帰巣と餌の収集、フェロモン感度の反映はすべての行動方針で共通
+ * @param chooseDirection 探索方向の選び方
+ * @returns 行動実行関数
  */
-export const executeAntBehavior = (context: AntBehaviorContext): AntBehaviorResult => {
+export const createAntBehavior = (
+  chooseDirection: ExplorationDirection
+) => (behaviorContext: AntBehaviorContext): AntBehaviorResult => {
+  const context = withPheromoneSensitivity(behaviorContext)
   const { ant } = context
   
   if (ant.hasFood) {
     return executeReturningBehavior(context)
+  }
+  
+  const nearbyFood = detectNearbyFood(context)
+  
+  if (nearbyFood) {
+    return handleFoodInteraction(context, nearbyFood)
   } else {
-    return executeForagingBehavior(context)
+    return executeExploration(context, acceptTrailDirection(context, chooseDirection(context)))
   }
 }
 
+/**
+ * 検出したtoFoodフェロモンを追跡強度の確率で辿り、それ以外は今の向きを保つ
+ */
+const chooseTrailDirection: ExplorationDirection = (context) => {
+  const { ant, pheromones, pheromoneTracking, rng } = context
+  
+  // Try to follow pheromone trails
+  const pheromoneDirection = followPheromone(
+    ant.position,
+    pheromones,
+    'toFood',
+    ant.direction,
+    rng,
+    pheromoneTracking
+  )
+  
+  return shouldFollowPheromone(context, pheromoneDirection) ? pheromoneDirection : ant.direction
+}
+
+/**
+ * アリの現在の状態に基づいて行動を実行（標準の行動方針）
+ * @param context 行動実行に必要なコンテキスト情報
+ * @returns 行動実行の結果
+ */
+export const executeAntBehavior = createAntBehavior(chooseTrailDirection)
+
 const executeReturningBehavior = (context: AntBehaviorContext): AntBehaviorResult => {
-  const { ant, nest, worldWidth, worldHeight, pheromoneDepositAmount, pheromones } = context
-  const distanceToNest = torusDistance(ant.position, nest, worldWidth, worldHeight)
+  const { ant, nest, geometry, pheromoneDepositAmount, tuning } = context
+  const distanceToNest = geometry.distance(ant.position, nest)
   
-  if (distanceToNest < NEST_ARRIVAL_RANGE) {
+  if (distanceToNest < tuning.nestArrivalRange) {
     // ネストに到達 - 食べ物を配送
     return {
-      antUpdate: { hasFood: false, targetFood: null, foodAmount: null },
-      pheromoneUpdates: new Map()
+      antUpdate: { hasFood: false, targetFood: null, foodAmount: null, foodQuality: undefined },
+      pheromoneDeposits: [],
+      deliveredFood: ant.foodAmount ?? ANT_CONSTANTS.FOOD_CARRY_AMOUNT
     }
   }
 
   // Move towards nest
-  const movement = moveTowardsNest(context)
+  const movement = context.homingMode === 'pheromone' && distanceToNest >= tuning.nestDetectionRange
+    ? followNestPheromone(context)
+    : moveTowardsNest(context)
   
-  // Deposit pheromone trail back to food source
-  const foodQualityMultiplier = calculateFoodQualityMultiplier(ant.foodAmount)
-  const newPheromones = depositPheromone(
-    pheromones,
-    ant.position,
-    'toFood',
-    pheromoneDepositAmount * foodQualityMultiplier
-  )
+  // Deposit pheromone trail back to food source, stronger for better food
+  const deposit: PheromoneDeposit = {
+    position: ant.position,
+    type: 'toFood',
+    amount: pheromoneDepositAmount * (ant.foodQuality ?? ANT_CONSTANTS.DEFAULT_FOOD_QUALITY)
+  }
 
   return {
     antUpdate: movement,
-    pheromoneUpdates: newPheromones
-  }
-}
-
-const executeForagingBehavior = (context: AntBehaviorContext): AntBehaviorResult => {
-  const nearbyFood = detectNearbyFood(context)
-  
-  if (nearbyFood) {
-    return handleFoodInteraction(context, nearbyFood)
-  } else {
-    return executeExploration(context)
+    pheromoneDeposits: [deposit]
   }
 }
 
 const detectNearbyFood = (context: AntBehaviorContext): Food | undefined => {
-  const { ant, foods, worldWidth, worldHeight } = context
+  const { ant, foods, geometry, tuning } = context
   
   return foods.find(food => {
-    const distance = torusDistance(ant.position, food.position, worldWidth, worldHeight)
-    return distance <= FOOD_DETECTION_RANGE
+    const distance = geometry.distance(ant.position, food.position)
+    return distance <= tuning.foodDetectionRange
   })
 }
 
 const handleFoodInteraction = (context: AntBehaviorContext, food: Food): AntBehaviorResult => {
-  const { ant, worldWidth, worldHeight } = context
-  const distanceToFood = torusDistance(ant.position, food.position, worldWidth, worldHeight)
+  const { ant, geometry, tuning } = context
+  const distanceToFood = geometry.distance(ant.position, food.position)
   
-  if (distanceToFood < FOOD_COLLECTION_RANGE) {
+  if (distanceToFood < tuning.foodCollectionRange) {
     // Collect food
-    return collectFood(food)
+    return collectFood(context, food)
   } else {
     // Approach food
     return approachFood(context, food)
   }
 }
 
-const collectFood = (food: Food): AntBehaviorResult => {
-  const newAmount = food.amount - 1
+const collectFood = (context: AntBehaviorContext, food: Food): AntBehaviorResult => {
+  const { ant, homingMode, traits, tuning } = context
+  // 運べるだけ運ぶ（餌の残りが運搬能力より少なければ残りすべて）
+  const load = Math.min(tuning.antCarryCapacity * traits.carryCapacity, food.amount)
+  const newAmount = food.amount - load
   
   return {
     antUpdate: { 
       hasFood: true, 
       targetFood: food.id, 
-      foodAmount: food.amount 
+      foodAmount: load,
+      foodQuality: food.quality ?? ANT_CONSTANTS.DEFAULT_FOOD_QUALITY,
+      // フェロモン帰巣では来た道（toNestの軌跡）を辿れるよう反転する
+      ...(homingMode === 'pheromone' && { direction: ant.direction + Math.PI }),
     },
-    pheromoneUpdates: new Map(),
+    pheromoneDeposits: [],
     foodUpdate: newAmount > 0 ? { id: food.id, amount: newAmount } : undefined,
     removeFood: newAmount <= 0 ? food.id : undefined
   }
 }
 
 const approachFood = (context: AntBehaviorContext, food: Food): AntBehaviorResult => {
-  const { ant, worldWidth, worldHeight, ants } = context
+  const { ant, geometry, ants, obstacles, rng, tuning } = context
   
   const { position, direction: tempDirection } = moveWithBias(
     ant.position,
     ant.direction,
     food.position,
-    worldWidth,
-    worldHeight,
+    geometry,
+    rng,
     { 
-      speed: ANT_SPEED, 
-      randomTurnRange: 0.8, 
-      biasStrength: FOOD_APPROACH_BIAS 
-    }
+      speed: getSpeed(context), 
+      randomTurnRange: tuning.foodApproachTurnRange, 
+      biasStrength: tuning.foodApproachBias 
+    },
+    obstacles
   )
   
   const avoidanceResult = avoidCollisions(
@@ -167,9 +256,9 @@ const approachFood = (context: AntBehaviorContext, food: Food): AntBehaviorResul
     tempDirection,
     ants,
     ant.id,
-    worldWidth,
-    worldHeight,
-    { avoidanceRadius: COLLISION_AVOIDANCE_RADIUS, avoidanceStrength: 0.5 }
+    geometry,
+    getAvoidanceParams(tuning),
+    obstacles
   )
   
   return {
@@ -177,37 +266,30 @@ const approachFood = (context: AntBehaviorContext, food: Food): AntBehaviorResul
       position: avoidanceResult.position, 
       direction: avoidanceResult.direction 
     },
-    pheromoneUpdates: new Map()
+    pheromoneDeposits: depositNestTrail(context)
   }
 }
 
-const executeExploration = (context: AntBehaviorContext): AntBehaviorResult => {
-  const { ant, pheromones, worldWidth, worldHeight, ants } = context
+const executeExploration = (context: AntBehaviorContext, explorationDirection: number): AntBehaviorResult => {
+  const { ant, geometry, ants, obstacles, rng, tuning, traits } = context
   
-  // Try to follow pheromone trails
-  const pheromoneDirection = followPheromone(
+  const { position, direction: tempDirection } = moveAnt(
     ant.position,
-    pheromones,
-    'toFood',
-    ant.direction,
-    worldWidth,
-    worldHeight
+    explorationDirection,
+    geometry,
+    rng,
+    { speed: getSpeed(context), randomTurnRange: tuning.antTurnRange * traits.explorationBias },
+    obstacles
   )
   
-  const shouldFollow = shouldFollowPheromone(context, pheromoneDirection)
-  
-  const { position, direction: tempDirection } = shouldFollow
-    ? moveAnt(ant.position, pheromoneDirection, worldWidth, worldHeight, { speed: ANT_SPEED, randomTurnRange: 0.5 })
-    : moveAnt(ant.position, ant.direction, worldWidth, worldHeight, { speed: ANT_SPEED, randomTurnRange: 0.5 })
-  
   const avoidanceResult = avoidCollisions(
     position,
     tempDirection,
     ants,
     ant.id,
-    worldWidth,
-    worldHeight,
-    { avoidanceRadius: COLLISION_AVOIDANCE_RADIUS, avoidanceStrength: 0.5 }
+    geometry,
+    getAvoidanceParams(tuning),
+    obstacles
   )
   
   return {
@@ -215,38 +297,84 @@ const executeExploration = (context: AntBehaviorContext): AntBehaviorResult => {
       position: avoidanceResult.position, 
       direction: avoidanceResult.direction 
     },
-    pheromoneUpdates: new Map()
+    pheromoneDeposits: depositNestTrail(context)
+  }
+}
+
+/**
+ * 探索中のアリがネストへの軌跡（toNestフェロモン）を残す
+ * omniscient モードでは帰巣に使われないため放出しない
+ */
+const depositNestTrail = (context: AntBehaviorContext): PheromoneDeposit[] => {
+  const { ant, pheromoneDepositAmount, homingMode } = context
+  
+  if (homingMode !== 'pheromone') return []
+  
+  return [{ position: ant.position, type: 'toNest', amount: pheromoneDepositAmount }]
+}
+
+/**
+ * toNestフェロモンの勾配を辿ってネストへ戻る
+ * フェロモンが検出されない場合はランダムウォークになる
+ */
+const followNestPheromone = (context: AntBehaviorContext): Partial<Ant> => {
+  const { ant, pheromones, pheromoneTracking, geometry, ants, obstacles, rng, tuning } = context
+  
+  const pheromoneDirection = acceptTrailDirection(context, followPheromone(
+    ant.position,
+    pheromones,
+    'toNest',
+    ant.direction,
+    rng,
+    pheromoneTracking
+  ))
+  
+  const { position, direction: tempDirection } = moveAnt(
+    ant.position,
+    pheromoneDirection,
+    geometry,
+    rng,
+    { speed: getSpeed(context), randomTurnRange: tuning.antTurnRange },
+    obstacles
+  )
+  
+  const avoidanceResult = avoidCollisions(
+    position,
+    tempDirection,
+    ants,
+    ant.id,
+    geometry,
+    getAvoidanceParams(tuning),
+    obstacles
+  )
+  
+  return { 
+    position: avoidanceResult.position, 
+    direction: avoidanceResult.direction 
   }
 }
 
 const moveTowardsNest = (context: AntBehaviorContext): Partial<Ant> => {
-  const { ant, nest, worldWidth, worldHeight, ants } = context
+  const { ant, nest, geometry, ants, obstacles, tuning } = context
   
-  const newPosition = moveTowardsTarget(
+  // Head straight home, keeping the heading along a wall so the detour carries on next tick
+  const { position, direction } = moveTowardsTargetAroundWalls(
     ant.position,
+    ant.direction,
     nest,
-    worldWidth,
-    worldHeight,
-    ANT_SPEED
+    geometry,
+    getSpeed(context),
+    obstacles
   )
   
-  // Calculate proper orientation
-  const dx = nest.x - ant.position.x
-  const dy = nest.y - ant.position.y
-  const wrappedDx = dx > worldWidth / 2 ? dx - worldWidth :
-                    dx < -worldWidth / 2 ? dx + worldWidth : dx
-  const wrappedDy = dy > worldHeight / 2 ? dy - worldHeight :
-                    dy < -worldHeight / 2 ? dy + worldHeight : dy
-  let newDirection = Math.atan2(wrappedDy, wrappedDx)
-  
   const avoidanceResult = avoidCollisions(
-    newPosition,
-    newDirection,
+    position,
+    direction,
     ants,
     ant.id,
-    worldWidth,
-    worldHeight,
-    { avoidanceRadius: COLLISION_AVOIDANCE_RADIUS, avoidanceStrength: 0.5 }
+    geometry,
+    getAvoidanceParams(tuning),
+    obstacles
   )
   
   return { 
@@ -256,20 +384,13 @@ const moveTowardsNest = (context: AntBehaviorContext): Partial<Ant> => {
 }
 
 const shouldFollowPheromone = (context: AntBehaviorContext, pheromoneDirection: number): boolean => {
-  const { ant, pheromones, pheromoneTrackingStrength } = context
-  
-  if (pheromones.size === 0) return false
-  if (Math.random() >= pheromoneTrackingStrength) return false
+  const { ant, pheromoneTrackingStrength, rng } = context
   
   // Check if pheromone direction is significantly different from current direction
+  // (followPheromone returns the current direction when nothing is detected)
   const directionDiff = Math.abs(pheromoneDirection - ant.direction)
   const normalizedDiff = Math.min(directionDiff, 2 * Math.PI - directionDiff)
+  if (normalizedDiff <= 0.1) return false
   
-  return normalizedDiff > 0.1
+  return rng.next() < pheromoneTrackingStrength
 }
-
-const calculateFoodQualityMultiplier = (foodAmount: number | null): number => {
-  if (!foodAmount) return 1
-  // Scale multiplier between 1x and 3x based on food amount
-  return 1 + Math.min(foodAmount / 30, 2)
-}
\ No newline at end of file
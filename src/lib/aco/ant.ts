@@ -7,6 +7,7 @@
 export {
   moveAnt,
   moveTowardsTarget,
+  moveTowardsTargetAroundWalls,
   moveWithBias,
   type MovementParams,
   type BiasedMovementParams,
@@ -17,6 +18,8 @@ export {
   torusWrap,
   torusDistance,
   normalizeAngle,
+  createWorldGeometry,
+  type WorldGeometry,
 } from './geometry'
 
 export {
@@ -27,8 +30,10 @@ export {
 
 export {
   followPheromone,
+  followStrongestPheromone,
   findNearestTarget,
   getTargetsInRadius,
+  DEFAULT_TRACKING_PARAMS,
   type PheromoneTrackingParams,
 } from './pathfinding'
 
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { BEHAVIOR_POLICIES, getBehaviorPolicy } from './behavior-policy'
+import type { AntBehaviorContext } from './ant-behavior'
+import { createRng } from './random'
+import { createPheromoneGrid, depositToGrid } from './pheromone-grid'
+import { createWorldGeometry } from './geometry'
+import { DEFAULT_TRAITS } from './traits'
+import { DEFAULT_TRACKING_PARAMS } from './pathfinding'
+import { BehaviorTuningSchema, type BehaviorPolicyId } from './types'
+
+const geometry = createWorldGeometry('torus', 800, 600)
+
+const createContext = (seed = 42): AntBehaviorContext => ({
+  ant: {
+    id: 'ant1',
+    position: { x: 100, y: 100 },
+    direction: 0,
+    hasFood: false,
+    targetFood: null,
+    foodAmount: null,
+    colonyId: 'colony-0',
+  },
+  foods: [],
+  pheromones: createPheromoneGrid(geometry),
+  nest: { x: 400, y: 300 },
+  geometry,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  pheromoneTracking: DEFAULT_TRACKING_PARAMS,
+  tuning: BehaviorTuningSchema.parse({}),
+  traits: DEFAULT_TRAITS,
+  homingMode: 'omniscient',
+  ants: [],
+  obstacles: new Set(),
+  rng: createRng(seed),
+})
+
+/** 右前方（+π/4 と +π/8 のセンサーだけが届く位置）に toFood フェロモンがある状況 */
+const createTrailContext = (seed = 42): AntBehaviorContext => {
+  const context = createContext(seed)
+  depositToGrid(context.pheromones, { x: 112, y: 132 }, 'toFood', 100)
+  return context
+}
+
+const policyIds = Object.keys(BEHAVIOR_POLICIES) as BehaviorPolicyId[]
+
+describe('behavior policies', () => {
+  it('should register each policy under its own id', () => {
+    policyIds.forEach((id) => {
+      expect(getBehaviorPolicy(id).id).toBe(id)
+    })
+  })
+
+  it('should share food collection and delivery across all policies', () => {
+    policyIds.forEach((id) => {
+      const collecting = createContext()
+      collecting.foods = [{ id: 'food1', position: { x: 105, y: 105 }, amount: 10 }]
+      expect(getBehaviorPolicy(id).execute(collecting).antUpdate?.hasFood).toBe(true)
+
+      const delivering = createContext()
+      delivering.ant = { ...delivering.ant, position: { x: 405, y: 300 }, hasFood: true }
+      expect(getBehaviorPolicy(id).execute(delivering).deliveredFood).toBe(1)
+    })
+  })
+
+  it('should ignore pheromone with the random walk policy', () => {
+    const result = getBehaviorPolicy('random-walk').execute(createTrailContext())
+
+    expect(Math.abs(result.antUpdate!.direction!)).toBeLessThanOrEqual(0.25)
+  })
+
+  it('should always turn to the strongest trail with the pheromone greedy policy', () => {
+    [1, 2, 3, 4, 5].forEach((seed) => {
+      const result = getBehaviorPolicy('pheromone-greedy').execute(createTrailContext(seed))
+
+      expect(result.antUpdate!.direction).toBeCloseTo(Math.PI / 4, 0)
+    })
+  })
+
+  it('should choose among the sensors that smell the trail with the probabilistic ACO policy', () => {
+    const directions = [1, 2, 3, 4, 5, 6, 7, 8].map((seed) => {
+      const context = { ...createTrailContext(seed), pheromoneTracking: { ...DEFAULT_TRACKING_PARAMS, sensorCount: 5 } }
+      return getBehaviorPolicy('aco-probabilistic').execute(context).antUpdate!.direction!
+    })
+
+    directions.forEach((direction) => expect(direction).toBeGreaterThan(0))
+    // 最も濃い +π/4 以外のセンサーも選ばれる
+    expect(directions.some((direction) => direction < Math.PI / 4 - 0.25)).toBe(true)
+  })
+
+  it('should apply the ant\'s pheromone sensitivity under every policy', () => {
+    policyIds.forEach((id) => {
+      const numb = { ...createTrailContext(), traits: { ...DEFAULT_TRAITS, pheromoneSensitivity: 0 } }
+
+      expect(getBehaviorPolicy(id).execute(numb)).toEqual(getBehaviorPolicy(id).execute(createContext()))
+    })
+  })
+
+  it('should follow a trail less often with a lower pheromone sensitivity', () => {
+    const followRate = (id: BehaviorPolicyId, pheromoneSensitivity: number) => {
+      const seeds = Array.from({ length: 200 }, (_, i) => i + 1)
+      const followed = seeds.filter((seed) => {
+        const context = { ...createTrailContext(seed), traits: { ...DEFAULT_TRAITS, pheromoneSensitivity } }
+        return Math.abs(getBehaviorPolicy(id).execute(context).antUpdate!.direction!) > 0.25
+      })
+      return followed.length / seeds.length
+    }
+
+    policyIds.filter(id => id !== 'random-walk').forEach((id) => {
+      const worker = followRate(id, 1)
+      const scout = followRate(id, 0.3)
+
+      expect(scout).toBeGreaterThan(0)
+      expect(scout).toBeLessThan(worker * 0.5)
+    })
+  })
+
+  it('should apply the pheromone sensitivity while homing along the toNest trail', () => {
+    const createHomingContext = (pheromoneSensitivity: number): AntBehaviorContext => {
+      const context = createContext()
+      depositToGrid(context.pheromones, { x: 112, y: 132 }, 'toNest', 100)
+      return {
+        ...context,
+        ant: { ...context.ant, hasFood: true, foodAmount: 1 },
+        homingMode: 'pheromone',
+        traits: { ...DEFAULT_TRAITS, pheromoneSensitivity },
+      }
+    }
+
+    const sensing = getBehaviorPolicy('default').execute(createHomingContext(1))
+    const numb = getBehaviorPolicy('default').execute(createHomingContext(0))
+
+    expect(sensing.antUpdate!.direction).toBeGreaterThan(0.25)
+    expect(Math.abs(numb.antUpdate!.direction!)).toBeLessThanOrEqual(0.25)
+  })
+
+  it('should keep heading when no trail is detected with the probabilistic ACO policy', () => {
+    const result = getBehaviorPolicy('aco-probabilistic').execute(createContext())
+
+    expect(Math.abs(result.antUpdate!.direction!)).toBeLessThanOrEqual(0.25)
+  })
+})
@@ -0,0 +1,86 @@
+import type { BehaviorPolicyId } from './types'
+import { followPheromone, followStrongestPheromone } from './pathfinding'
+import {
+  createAntBehavior,
+  executeAntBehavior,
+  type AntBehaviorContext,
+  type AntBehaviorResult,
+} from './ant-behavior'
+
+/**
+ * アリの行動方針
+ * 設定でシミュレーション全体の方針を選び、アリごとに上書きもできる
+ */
+export type AntBehaviorPolicy = {
+  readonly id: BehaviorPolicyId
+  /** UI表示用の名前 */
+  readonly label: string
+  /**
+   * 1ティック分の行動を実行
+   * @param context 行動実行に必要なコンテキスト情報
+   * @returns 行動実行の結果
+   */
+  readonly execute: (context: AntBehaviorContext) => AntBehaviorResult
+}
+
+/**
+ * 標準の方針
+ * τ^α·η^β で選んだ方向を、さらに追跡強度の確率で辿る
+ */
+const defaultPolicy: AntBehaviorPolicy = {
+  id: 'default',
+  label: '標準',
+  execute: executeAntBehavior,
+}
+
+/**
+ * ランダムウォーク
+ * フェロモンを無視して探索する（比較の基準）
+ */
+const randomWalkPolicy: AntBehaviorPolicy = {
+  id: 'random-walk',
+  label: 'ランダムウォーク',
+  execute: createAntBehavior(({ ant }) => ant.direction),
+}
+
+/**
+ * フェロモン貪欲
+ * 追跡強度に関係なく、常に最も濃いフェロモンの方向へ進む
+ */
+const pheromoneGreedyPolicy: AntBehaviorPolicy = {
+  id: 'pheromone-greedy',
+  label: 'フェロモン貪欲',
+  execute: createAntBehavior(({ ant, pheromones, pheromoneTracking }) =>
+    followStrongestPheromone(ant.position, pheromones, 'toFood', ant.direction, pheromoneTracking)
+  ),
+}
+
+/**
+ * 確率的ACO
+ * 追跡強度に関係なく、常に τ^α·η^β に比例した確率で進む方向を選ぶ
+ */
+const acoProbabilisticPolicy: AntBehaviorPolicy = {
+  id: 'aco-probabilistic',
+  label: '確率的ACO（τ^α·η^β）',
+  execute: createAntBehavior(({ ant, pheromones, pheromoneTracking, rng }) =>
+    followPheromone(ant.position, pheromones, 'toFood', ant.direction, rng, pheromoneTracking)
+  ),
+}
+
+/**
+ * 組み込みの行動方針
+ */
+export const BEHAVIOR_POLICIES: Record<BehaviorPolicyId, AntBehaviorPolicy> = {
+  default: defaultPolicy,
+  'random-walk': randomWalkPolicy,
+  'pheromone-greedy': pheromoneGreedyPolicy,
+  'aco-probabilistic': acoProbabilisticPolicy,
+}
+
+/**
+ * 行動方針を取得
+ * @param id 方針ID
+ * @returns 行動方針
+ */
+export const getBehaviorPolicy = (id: BehaviorPolicyId): AntBehaviorPolicy =>
+  BEHAVIOR_POLICIES[id]
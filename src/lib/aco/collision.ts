@@ -1,5 +1,6 @@
 import type { Position } from './types'
-import { torusDistance, torusWrap, normalizeAngle } from './geometry'
+import { normalizeAngle, type WorldGeometry } from './geometry'
+import { EMPTY_OBSTACLES, isBlocked, type ObstacleSet } from './obstacles'
 
 /**
  * 衝突回避のパラメータ
@@ -24,9 +25,9 @@ export type CollisionResult = {
  * @param direction 現在の方向
  * @param otherAnts 他のアリの位置情報
  * @param currentAntId 現在のアリのID
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
  * @param params 衝突回避パラメータ
+ * @param obstacles 障害物レイヤー（位置調整で壁に入る場合は位置を変えない）
  * @returns 調整された方向と位置
  */
 export const avoidCollisions = (
@@ -34,12 +35,12 @@ export const avoidCollisions = (
   direction: number,
   otherAnts: Array<{ position: Position; id: string }>,
   currentAntId: string,
-  worldWidth: number,
-  worldHeight: number,
+  geometry: WorldGeometry,
   params: CollisionParams = { 
     avoidanceRadius: 8, 
     avoidanceStrength: 0.5 
-  }
+  },
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
 ): CollisionResult => {
   // 回避力を蓄積
   const avoidanceForce = { x: 0, y: 0 }
@@ -49,30 +50,19 @@ export const avoidCollisions = (
   otherAnts.forEach(ant => {
     if (ant.id === currentAntId) return
     
-    const distance = torusDistance(position, ant.position, worldWidth, worldHeight)
+    // 他のアリから離れる方向を計算
+    const away = geometry.delta(ant.position, position)
+    const distance = Math.sqrt(away.x * away.x + away.y * away.y)
     
     // 回避半径内にいる場合
     if (distance < params.avoidanceRadius && distance > 0) {
-      // 他のアリから離れる方向を計算
-      const dx = position.x - ant.position.x
-      const dy = position.y - ant.position.y
-      
-      // トーラス世界での適切な回避方向を計算
-      const wrappedDx = dx > worldWidth / 2 ? dx - worldWidth :
-                        dx < -worldWidth / 2 ? dx + worldWidth : dx
-      const wrappedDy = dy > worldHeight / 2 ? dy - worldHeight :
-                        dy < -worldHeight / 2 ? dy + worldHeight : dy
-      
       // 距離による重み付け（近いほど強い回避力）
       const weight = (params.avoidanceRadius - distance) / params.avoidanceRadius
-      const length = Math.sqrt(wrappedDx * wrappedDx + wrappedDy * wrappedDy)
       
       // 正規化された回避ベクトルを蓄積
-      if (length > 0) {
-        avoidanceForce.x += (wrappedDx / length) * weight
-        avoidanceForce.y += (wrappedDy / length) * weight
-        collisionCount++
-      }
+      avoidanceForce.x += (away.x / distance) * weight
+      avoidanceForce.y += (away.y / distance) * weight
+      collisionCount++
     }
   })
   
@@ -97,8 +87,10 @@ export const avoidCollisions = (
     y: position.y + avoidanceForce.y * adjustmentStrength
   }
   
+  const confinedPosition = geometry.confine(newPosition, newDirection).position
+  
   return { 
     direction: newDirection, 
-    position: torusWrap(newPosition, worldWidth, worldHeight)
+    position: isBlocked(obstacles, confinedPosition) ? position : confinedPosition
   }
 }
\ No newline at end of file
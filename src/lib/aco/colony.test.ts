@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { addColony, createSingleColony, findColony, migrateNestToColonies } from './colony'
+import { COLONY_CONSTANTS } from './constants'
+
+describe('addColony', () => {
+  it('should give each new colony the next ID and colour', () => {
+    const colonies = addColony(createSingleColony({ x: 0, y: 0 }), { x: 10, y: 20 })
+
+    expect(colonies.map(colony => colony.id)).toEqual(['colony-0', 'colony-1'])
+    expect(colonies[1]).toEqual({ id: 'colony-1', nest: { x: 10, y: 20 }, color: COLONY_CONSTANTS.COLORS[1], storage: 0 })
+  })
+
+  it('should not reuse the ID of a removed colony', () => {
+    const colonies = addColony(createSingleColony({ x: 0, y: 0 }), { x: 1, y: 1 })
+    const next = addColony([colonies[1]], { x: 2, y: 2 })
+
+    expect(next.map(colony => colony.id)).toEqual(['colony-1', 'colony-2'])
+  })
+})
+
+describe('findColony', () => {
+  it('should fall back to the first colony for unknown IDs', () => {
+    const colonies = addColony(createSingleColony({ x: 0, y: 0 }), { x: 1, y: 1 })
+
+    expect(findColony(colonies, 'colony-1')).toBe(colonies[1])
+    expect(findColony(colonies, 'colony-9')).toBe(colonies[0])
+  })
+})
+
+describe('migrateNestToColonies', () => {
+  it('should turn the single nest into the default colony', () => {
+    expect(migrateNestToColonies({ seed: 1, nest: { x: 3, y: 4 } })).toEqual({
+      seed: 1,
+      colonies: createSingleColony({ x: 3, y: 4 }),
+    })
+  })
+
+  it('should leave values without a valid nest untouched', () => {
+    const value = { nest: 'broken' }
+
+    expect(migrateNestToColonies(value)).toBe(value)
+  })
+})
@@ -0,0 +1,69 @@
+import { COLONY_CONSTANTS } from './constants'
+import { PositionSchema, type Colony, type Position } from './types'
+
+/**
+ * コロニーを作成
+ * ID と色は追加した順番から決まる
+ * @param index コロニーの番号
+ * @param nest 巣の位置
+ * @returns コロニー
+ */
+export const createColony = (index: number, nest: Position): Colony => ({
+  id: `colony-${index}`,
+  nest: { ...nest },
+  color: COLONY_CONSTANTS.COLORS[index % COLONY_CONSTANTS.COLORS.length],
+  storage: 0,
+})
+
+/**
+ * 巣がひとつだけのコロニー一覧を作成
+ * @param nest 巣の位置
+ * @returns コロニー一覧
+ */
+export const createSingleColony = (nest: Position): Colony[] => [createColony(0, nest)]
+
+/**
+ * 新しいコロニーを一覧に追加
+ * ID が重ならないよう、既存の番号の最大値の次の番号を使う
+ * @param colonies コロニー一覧
+ * @param nest 新しい巣の位置
+ * @returns 追加後のコロニー一覧
+ */
+export const addColony = (colonies: Colony[], nest: Position): Colony[] => {
+  const nextIndex = colonies.reduce((max, colony) => {
+    const index = Number(colony.id.replace(/^colony-/, ''))
+    return Number.isInteger(index) ? Math.max(max, index + 1) : max
+  }, colonies.length)
+
+  return [...colonies, createColony(nextIndex, nest)]
+}
+
+/**
+ * ID からコロニーを探す
+ * 見つからない場合は最初のコロニーを返す
+ * @param colonies コロニー一覧
+ * @param id コロニーID
+ * @returns コロニー
+ */
+export const findColony = (colonies: Colony[], id: string): Colony =>
+  colonies.find(colony => colony.id === id) ?? colonies[0]
+
+/**
+ * 巣がひとつだった頃の形式（nest）をコロニー一覧（colonies）の形式へ移行
+ * 統計（metrics）がある場合は、そのままただひとつのコロニーの統計とする
+ * nest を持たない値や巣の位置が不正な値はそのまま返し、検証はスキーマに任せる
+ * @param value 保存されていた値
+ * @returns 移行後の値
+ */
+export const migrateNestToColonies = (value: Record<string, unknown>): Record<string, unknown> => {
+  const { nest, ...rest } = value
+  const parsed = PositionSchema.safeParse(nest)
+  if (!parsed.success) return value
+
+  const colonies = createSingleColony(parsed.data)
+  return {
+    ...rest,
+    colonies,
+    ...(rest.metrics !== undefined && { colonyMetrics: { [colonies[0].id]: rest.metrics } }),
+  }
+}
@@ -8,9 +8,21 @@ export const SIMULATION_CONSTANTS = {
   /** フレーム間の遅延（ミリ秒） */
   FRAME_DELAY_MS: 50,
   
+  /** ワーカーが描画用フレームを送る間隔（ミリ秒） */
+  WORKER_FRAME_INTERVAL_MS: 16,
+  
+  /** 1フレームで進める最大ティック数（処理が追いつかない場合は遅れを切り捨てる） */
+  MAX_TICKS_PER_FRAME: 20,
+  
+  /** ワーカーが完全な状態をストアへ同期する間隔（ミリ秒） */
+  WORKER_SYNC_INTERVAL_MS: 500,
+  
   /** フェロモン減衰処理の間隔（ミリ秒） */
   PHEROMONE_DECAY_INTERVAL_MS: 500,
   
+  /** フェロモン減衰処理の間隔（ティック） */
+  PHEROMONE_DECAY_INTERVAL_TICKS: 10,
+  
   /** デフォルトの世界サイズ */
   DEFAULT_WORLD_WIDTH: 800,
   DEFAULT_WORLD_HEIGHT: 600,
@@ -19,7 +31,40 @@ export const SIMULATION_CONSTANTS = {
   DEFAULT_NEST_POSITION: { x: 400, y: 300 },
 } as const
 
-/** アリの行動に関する定数 */
+/** コロニー関連の定数 */
+export const COLONY_CONSTANTS = {
+  /** コロニーの指定がないアリとフェロモンが属するコロニー */
+  DEFAULT_COLONY_ID: 'colony-0',
+  
+  /** コロニーの色（追加した順に割り当てる） */
+  COLORS: ['#FFFFFF', '#00FFFF', '#FF00FF', '#FFFF00'],
+} as const
+
+/** ワールドエディタ関連の定数 */
+export const EDITOR_CONSTANTS = {
+  /** 置く餌の量の既定値と範囲 */
+  DEFAULT_FOOD_AMOUNT: 100,
+  MIN_FOOD_AMOUNT: 10,
+  MAX_FOOD_AMOUNT: 500,
+  
+  /** 置く餌の質の範囲 */
+  MIN_FOOD_QUALITY: 0.5,
+  MAX_FOOD_QUALITY: 3,
+  
+  /** フェロモンを塗る・消すブラシの半径 */
+  PHEROMONE_BRUSH_RADIUS: 20,
+  
+  /** ブラシが1回で塗るフェロモンの量 */
+  PHEROMONE_BRUSH_AMOUNT: 20,
+  
+  /** 餌をつかめる最小の半径（小さな餌でも選べるようにする） */
+  FOOD_HIT_RADIUS: 8,
+  
+  /** 巣をつかめる半径 */
+  NEST_HIT_RADIUS: 15,
+} as const
+
+/** アリの行動に関する定数（設定の既定値） */
 export const ANT_CONSTANTS = {
   /** デフォルトの移動速度 */
   DEFAULT_SPEED: 2,
@@ -27,20 +72,53 @@ export const ANT_CONSTANTS = {
   /** ランダム方向転換の範囲（ラジアン） */
   DEFAULT_RANDOM_TURN_RANGE: 0.5,
   
-  /** 目標へのバイアス強度（0.0-1.0） */
-  DEFAULT_BIAS_STRENGTH: 0.3,
+  /** 食べ物の検出可能距離 */
+  FOOD_DETECTION_DISTANCE: 20,
+  
+  /** 食べ物の収集可能距離 */
+  FOOD_COLLECTION_DISTANCE: 10,
+  
+  /** 食べ物に向かう際のバイアス強度（0.0-1.0） */
+  FOOD_APPROACH_BIAS: 0.4,
+  
+  /** 食べ物に向かう際のランダム方向転換の範囲（ラジアン） */
+  FOOD_APPROACH_TURN_RANGE: 0.8,
+  
+  /** ネストへの到達判定距離 */
+  NEST_ARRIVAL_DISTANCE: 10,
+  
+  /** フェロモン帰巣時にネストを直接知覚できる距離 */
+  NEST_DETECTION_DISTANCE: 30,
   
   /** 衝突回避半径 */
-  DEFAULT_AVOIDANCE_RADIUS: 8,
+  DEFAULT_AVOIDANCE_RADIUS: 6,
+  
+  /** 壁の中に取り残されたアリが出口を探す範囲（セル数） */
+  WALL_ESCAPE_SEARCH_CELLS: 20,
   
   /** 衝突回避強度 */
   DEFAULT_AVOIDANCE_STRENGTH: 0.5,
   
-  /** 食べ物の収集可能距離 */
-  FOOD_COLLECTION_DISTANCE: 10,
+  /** 1回の往復で運べる食べ物の量（運搬能力） */
+  FOOD_CARRY_AMOUNT: 1,
   
-  /** ネストへの到達判定距離 */
-  NEST_ARRIVAL_DISTANCE: 15,
+  /** 質を指定していない餌の質（帰り道のフェロモン量の倍率） */
+  DEFAULT_FOOD_QUALITY: 1,
+} as const
+
+/** アリの個体差とカーストに関する定数 */
+export const CASTE_CONSTANTS = {
+  /**
+   * カーストごとの基準の特性（すべて働きアリに対する倍率）
+   * 偵察アリは速く広く歩き回り、フェロモンの道にはあまり従わない
+   */
+  BASE_TRAITS: {
+    worker: { speed: 1, pheromoneSensitivity: 1, carryCapacity: 1, explorationBias: 1 },
+    scout: { speed: 1.3, pheromoneSensitivity: 0.3, carryCapacity: 1, explorationBias: 2 },
+  },
+  
+  /** 個体差で特性が下回らない下限（基準値に対する割合） */
+  MIN_TRAIT_FACTOR: 0.1,
 } as const
 
 /** フェロモン関連の定数 */
@@ -54,6 +132,9 @@ export const PHEROMONE_CONSTANTS = {
   /** 基本蒸発量 */
   BASE_EVAPORATION: 0.05,
   
+  /** 蒸発率 ρ（0.001〜0.1）を1回あたりの蒸発の強さ（0.01〜1.0）に換算する倍率 */
+  EVAPORATION_STRENGTH_SCALE: 10,
+  
   /** フェロモングリッドのセルサイズ */
   GRID_CELL_SIZE: 10,
   
@@ -63,6 +144,15 @@ export const PHEROMONE_CONSTANTS = {
   /** フェロモンセンサーの角度（ラジアン） */
   SENSOR_ANGLE: Math.PI / 4,
   
+  /** フェロモンセンサーの数 */
+  SENSOR_COUNT: 3,
+  
+  /** 遷移規則 τ^α·η^β のフェロモン濃度の重み指数 α */
+  DEFAULT_ALPHA: 1,
+  
+  /** 遷移規則 τ^α·η^β の向きの好みの重み指数 β */
+  DEFAULT_BETA: 2,
+  
   /** フェロモン検出半径 */
   DETECTION_RADIUS: 30,
   
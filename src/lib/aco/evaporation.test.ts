@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { EVAPORATION_MODELS, getEvaporationModel } from './evaporation'
+
+describe('evaporation models', () => {
+  it('should decay exponentially with the exponential model', () => {
+    const { evaporate } = getEvaporationModel('exponential')
+
+    expect(evaporate(50, 0.9)).toBeCloseTo(45)
+    expect(evaporate(evaporate(50, 0.9), 0.9)).toBeCloseTo(40.5)
+  })
+
+  it('should subtract a constant amount with the linear model', () => {
+    const { evaporate } = getEvaporationModel('linear')
+
+    expect(evaporate(50, 0.95)).toBeCloseTo(49.5)
+    expect(evaporate(10, 0.95)).toBeCloseTo(9.5)
+  })
+
+  it('should evaporate more at high intensity with the logarithmic model', () => {
+    const { evaporate } = getEvaporationModel('logarithmic')
+
+    const highLoss = 80 - evaporate(80, 0.95)
+    const lowLoss = 5 - evaporate(5, 0.95)
+    expect(highLoss / 80).toBeGreaterThan(lowLoss / 5)
+  })
+
+  it('should keep intensity within bounds with the max-min model', () => {
+    const { evaporate } = getEvaporationModel('max-min')
+
+    expect(evaporate(0.11, 0.5)).toBe(0.1)
+    expect(evaporate(150, 0.99)).toBe(100)
+    expect(evaporate(50, 0.9)).toBeCloseTo(45)
+  })
+
+  it('should remove pheromone below the threshold except for max-min', () => {
+    Object.values(EVAPORATION_MODELS).forEach((model) => {
+      const result = model.evaporate(0.105, 0.9)
+      if (model.id === 'max-min') {
+        expect(result).toBeGreaterThan(0)
+      } else {
+        expect(result).toBe(0)
+      }
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import type { EvaporationModelId } from './types'
+import { PHEROMONE_CONSTANTS } from './constants'
+
+/**
+ * フェロモン蒸発モデル
+ * decayRate は全モデル共通で「1回の減衰処理で残る割合」の目安として扱い、
+ * ρ = 1 - decayRate を蒸発率とする
+ */
+export type EvaporationModel = {
+  readonly id: EvaporationModelId
+  /** UI表示用の名前 */
+  readonly label: string
+  /**
+   * 1回の減衰処理後の強度を計算
+   * @param intensity 現在の強度
+   * @param decayRate 減衰率（0.9: 強い蒸発 〜 0.999: 弱い蒸発）
+   * @returns 減衰後の強度（0の場合はセルから削除される）
+   */
+  readonly evaporate: (intensity: number, decayRate: number) => number
+}
+
+/** しきい値以下の強度を0に丸める */
+const applyThreshold = (intensity: number): number =>
+  intensity > PHEROMONE_CONSTANTS.MIN_INTENSITY_THRESHOLD ? intensity : 0
+
+/**
+ * 指数減衰モデル（教科書的なACO）
+ * τ ← (1 - ρ)τ
+ */
+const exponentialModel: EvaporationModel = {
+  id: 'exponential',
+  label: '指数減衰',
+  evaporate: (intensity, decayRate) => applyThreshold(intensity * decayRate),
+}
+
+/**
+ * 線形減衰モデル
+ * 強度に関係なく一定量が蒸発する
+ */
+const linearModel: EvaporationModel = {
+  id: 'linear',
+  label: '線形減衰',
+  evaporate: (intensity, decayRate) => {
+    const evaporationStrength = (1 - decayRate) * PHEROMONE_CONSTANTS.EVAPORATION_STRENGTH_SCALE
+    return applyThreshold(intensity - evaporationStrength)
+  },
+}
+
+/**
+ * 対数関数的蒸発モデル
+ * 高濃度では多く蒸発し、低濃度では少なく蒸発する
+ * これにより、フェロモンが一定の濃度に収束しやすくなる
+ */
+const logarithmicModel: EvaporationModel = {
+  id: 'logarithmic',
+  label: '対数蒸発',
+  evaporate: (intensity, decayRate) => {
+    // 対数関数による蒸発量の計算
+    // intensity が高いほど蒸発量が増える
+    const logFactor = Math.log10(intensity + 1) / Math.log10(101) // 0〜1の範囲に正規化
+    
+    // decayRateパラメータを蒸発の強さとして使用
+    const evaporationStrength = (1 - decayRate) * PHEROMONE_CONSTANTS.EVAPORATION_STRENGTH_SCALE
+    
+    // 対数的な蒸発量（高濃度ほど多く蒸発）
+    const logEvaporation = logFactor * evaporationStrength * intensity
+    
+    // 最終的な蒸発計算（基本蒸発 + 対数的蒸発）
+    const totalEvaporation = PHEROMONE_CONSTANTS.BASE_EVAPORATION + logEvaporation
+    
+    return applyThreshold(intensity - totalEvaporation)
+  },
+}
+
+/**
+ * MAX-MIN Ant System モデル
+ * 指数減衰の結果を [τmin, τmax] に制限する
+ * 一度フェロモンが置かれたセルは τmin を下回らず、探索が完全には途絶えない
+ */
+const maxMinModel: EvaporationModel = {
+  id: 'max-min',
+  label: 'MAX-MIN',
+  evaporate: (intensity, decayRate) =>
+    Math.min(
+      PHEROMONE_CONSTANTS.MAX_INTENSITY,
+      Math.max(PHEROMONE_CONSTANTS.MIN_INTENSITY_THRESHOLD, intensity * decayRate)
+    ),
+}
+
+/**
+ * 組み込みの蒸発モデル
+ */
+export const EVAPORATION_MODELS: Record<EvaporationModelId, EvaporationModel> = {
+  exponential: exponentialModel,
+  linear: linearModel,
+  logarithmic: logarithmicModel,
+  'max-min': maxMinModel,
+}
+
+/**
+ * 蒸発モデルを取得
+ * @param id モデルID
+ * @returns 蒸発モデル
+ */
+export const getEvaporationModel = (id: EvaporationModelId): EvaporationModel =>
+  EVAPORATION_MODELS[id]
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createParameterGrid,
+  expandParameterRange,
+  formatExperimentAsCsv,
+  runExperiment,
+  summarize,
+  type ExperimentSpec,
+} from './experiment'
+import { ScenarioSchema } from './scenario'
+
+const spec: ExperimentSpec = {
+  scenario: ScenarioSchema.parse({
+    version: 1,
+    config: {
+      worldWidth: 200,
+      worldHeight: 200,
+      antCount: 10,
+      pheromoneDecayRate: 0.99,
+      pheromoneDepositAmount: 2,
+      pheromoneTrackingStrength: 0.7,
+      speed: 1,
+    },
+    seed: 7,
+    nest: { x: 100, y: 100 },
+    foods: [{ id: 'food-0', position: { x: 130, y: 100 }, amount: 50 }],
+  }),
+  ranges: [
+    { parameter: 'pheromoneTrackingStrength', min: 0.3, max: 0.9, steps: 2 },
+    { parameter: 'antCount', min: 5, max: 10, steps: 2 },
+  ],
+  seedCount: 2,
+  ticks: 40,
+}
+
+describe('expandParameterRange', () => {
+  it('should split the range into evenly spaced values', () => {
+    expect(expandParameterRange({ parameter: 'pheromoneDecayRate', min: 0.9, max: 1, steps: 3 }))
+      .toEqual([0.9, 0.95, 1])
+  })
+
+  it('should round integer parameters', () => {
+    expect(expandParameterRange({ parameter: 'antCount', min: 10, max: 15, steps: 3 }))
+      .toEqual([10, 13, 15])
+  })
+
+  it('should use only the minimum for a single step', () => {
+    expect(expandParameterRange({ parameter: 'antCount', min: 10, max: 50, steps: 1 })).toEqual([10])
+  })
+})
+
+describe('createParameterGrid', () => {
+  it('should enumerate every combination', () => {
+    expect(createParameterGrid(spec.ranges)).toEqual([
+      { pheromoneTrackingStrength: 0.3, antCount: 5 },
+      { pheromoneTrackingStrength: 0.3, antCount: 10 },
+      { pheromoneTrackingStrength: 0.9, antCount: 5 },
+      { pheromoneTrackingStrength: 0.9, antCount: 10 },
+    ])
+  })
+})
+
+describe('summarize', () => {
+  it('should compute the mean and sample variance', () => {
+    expect(summarize([2, 4, 6])).toEqual({ mean: 4, variance: 4 })
+  })
+
+  it('should report zero variance for a single value', () => {
+    expect(summarize([3])).toEqual({ mean: 3, variance: 0 })
+  })
+})
+
+describe('runExperiment', () => {
+  it('should aggregate every seed for each combination', () => {
+    const progress: number[] = []
+    const results = runExperiment(spec, { onProgress: (completed) => progress.push(completed) })
+
+    expect(results).toHaveLength(4)
+    expect(results.every(result => result.runs === 2)).toBe(true)
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8])
+  })
+
+  it('should be reproducible', () => {
+    expect(runExperiment(spec)).toEqual(runExperiment(spec))
+  })
+
+  it('should reject combinations that are not valid configurations', () => {
+    expect(() => runExperiment({
+      ...spec,
+      ranges: [{ parameter: 'pheromoneDecayRate', min: 2, max: 2, steps: 1 }],
+    })).toThrow()
+  })
+})
+
+describe('formatExperimentAsCsv', () => {
+  it('should write the swept parameters followed by mean and variance columns', () => {
+    const csv = formatExperimentAsCsv(runExperiment({ ...spec, ticks: 5 }))
+    const lines = csv.trimEnd().split('\n')
+
+    expect(lines[0].startsWith('antCount,pheromoneTrackingStrength,runs,foodCollectedMean,foodCollectedVariance')).toBe(true)
+    expect(lines).toHaveLength(5)
+  })
+})
@@ -0,0 +1,219 @@
+import { z } from 'zod'
+import { SimulationConfigSchema, type SimulationConfig } from './types'
+import { ScenarioSchema, createInitialState, type Scenario } from './scenario'
+import { executeSimulationTick, type SimulationState } from './simulation-engine'
+import { getLatestSample } from './metrics'
+
+/**
+ * スイープできる設定項目
+ */
+export const SweepParameterSchema = z.enum([
+  'antCount',
+  'pheromoneDecayRate',
+  'pheromoneDepositAmount',
+  'pheromoneTrackingStrength',
+  'pheromoneAlpha',
+  'pheromoneBeta',
+  'pheromoneDiffusionRate',
+  'pheromoneDecayInterval',
+  'scoutRatio',
+  'speedVariation',
+])
+
+/**
+ * 1つの設定項目の範囲
+ * min から max までを steps 個の等間隔な値に分割する（steps が 1 の場合は min のみ）
+ */
+export const ParameterRangeSchema = z.object({
+  parameter: SweepParameterSchema,
+  min: z.number(),
+  max: z.number(),
+  steps: z.number().int().min(1),
+})
+
+/**
+ * 実験の内容
+ * 各範囲のすべての組み合わせを、シナリオのシードから連続する seedCount 個のシードで ticks ティックずつ実行する
+ */
+export const ExperimentSpecSchema = z.object({
+  scenario: ScenarioSchema,
+  ranges: z.array(ParameterRangeSchema).min(1),
+  seedCount: z.number().int().min(1),
+  ticks: z.number().int().min(1),
+})
+
+export type SweepParameter = z.infer<typeof SweepParameterSchema>
+export type ParameterRange = z.infer<typeof ParameterRangeSchema>
+export type ExperimentSpec = z.infer<typeof ExperimentSpecSchema>
+
+/** 実行ごとに集計する統計の項目 */
+export const EXPERIMENT_METRICS = [
+  'foodCollected',
+  'deliveries',
+  'averageTripLength',
+  'firstDiscoveryTick',
+  'carryingRatio',
+  'pheromoneMass',
+] as const
+
+export type ExperimentMetric = typeof EXPERIMENT_METRICS[number]
+
+/**
+ * 平均と分散
+ */
+export type Summary = {
+  readonly mean: number
+  readonly variance: number
+}
+
+/**
+ * 1つの組み合わせの集計結果
+ */
+export type ExperimentCellResult = {
+  readonly parameters: Readonly<Partial<Record<SweepParameter, number>>>
+  readonly runs: number
+  readonly metrics: Readonly<Record<ExperimentMetric, Summary>>
+}
+
+/**
+ * 実験の実行オプション
+ */
+export type ExperimentRunOptions = {
+  /** 1回の実行が終わるたびに呼ばれるコールバック */
+  readonly onProgress?: (completed: number, total: number) => void
+}
+
+/**
+ * 範囲を等間隔の値に展開
+ * @param range 設定項目の範囲
+ * @returns 値の配列
+ */
+export const expandParameterRange = (range: ParameterRange): number[] => {
+  if (range.steps === 1) return [range.min]
+
+  return Array.from({ length: range.steps }, (_, i) => {
+    // 両端が min と max に一致するよう線形補間する
+    const t = i / (range.steps - 1)
+    const value = range.min * (1 - t) + range.max * t
+    return range.parameter === 'antCount' || range.parameter === 'pheromoneDecayInterval'
+      ? Math.round(value)
+      : value
+  })
+}
+
+/**
+ * すべての範囲の組み合わせを列挙
+ * @param ranges 設定項目の範囲
+ * @returns 組み合わせの配列
+ */
+export const createParameterGrid = (
+  ranges: ParameterRange[]
+): Partial<Record<SweepParameter, number>>[] =>
+  ranges.reduce<Partial<Record<SweepParameter, number>>[]>(
+    (combinations, range) => combinations.flatMap(combination =>
+      expandParameterRange(range).map(value => ({ ...combination, [range.parameter]: value }))
+    ),
+    [{}]
+  )
+
+/**
+ * 値の平均と不偏分散を計算
+ * @param values 値の配列
+ * @returns 平均と分散（値が1つ以下の場合、分散は 0）
+ */
+export const summarize = (values: number[]): Summary => {
+  if (values.length === 0) return { mean: 0, variance: 0 }
+
+  const mean = values.reduce((total, value) => total + value, 0) / values.length
+  const variance = values.length > 1
+    ? values.reduce((total, value) => total + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0
+
+  return { mean, variance }
+}
+
+/**
+ * 1回の実行の最終的な統計を取り出す
+ * 餌が見つからなかった場合の発見ティックはティック数の上限とする
+ */
+const collectRunMetrics = (state: SimulationState, ticks: number): Record<ExperimentMetric, number> => {
+  const latest = getLatestSample(state.metrics)
+
+  return {
+    foodCollected: state.metrics.totalFoodCollected,
+    deliveries: state.metrics.totalDeliveries,
+    averageTripLength: latest?.averageTripLength ?? 0,
+    firstDiscoveryTick: state.metrics.firstDiscoveryTick ?? ticks,
+    carryingRatio: latest?.carryingRatio ?? 0,
+    pheromoneMass: latest?.pheromoneMass ?? 0,
+  }
+}
+
+const runScenario = (scenario: Scenario, ticks: number): SimulationState => {
+  let state = createInitialState(scenario)
+  for (let i = 0; i < ticks; i++) {
+    state = executeSimulationTick(scenario.config, state)
+  }
+  return state
+}
+
+/**
+ * パラメータスイープを実行
+ * 同じ内容からは常に同じ結果が得られる
+ * @param spec 実験の内容
+ * @param options 実行オプション
+ * @returns 組み合わせごとの集計結果
+ * @throws 組み合わせが設定として不正な場合
+ */
+export const runExperiment = (
+  spec: ExperimentSpec,
+  options: ExperimentRunOptions = {}
+): ExperimentCellResult[] => {
+  const grid = createParameterGrid(spec.ranges)
+  const total = grid.length * spec.seedCount
+  let completed = 0
+
+  return grid.map(parameters => {
+    const config: SimulationConfig = SimulationConfigSchema.parse({
+      ...spec.scenario.config,
+      ...parameters,
+    })
+    const runs = Array.from({ length: spec.seedCount }, (_, i) => {
+      const seed = (spec.scenario.seed + i) >>> 0
+      const state = runScenario({ ...spec.scenario, config, seed }, spec.ticks)
+      completed++
+      options.onProgress?.(completed, total)
+      return collectRunMetrics(state, spec.ticks)
+    })
+
+    const metrics = Object.fromEntries(
+      EXPERIMENT_METRICS.map(metric => [metric, summarize(runs.map(run => run[metric]))])
+    ) as Record<ExperimentMetric, Summary>
+
+    return { parameters, runs: runs.length, metrics }
+  })
+}
+
+/**
+ * 集計結果をCSV形式に変換
+ * 列はスイープした設定項目、実行回数、各統計の平均と分散の順
+ * @param results 組み合わせごとの集計結果
+ * @returns ヘッダー行付きのCSV文字列
+ */
+export const formatExperimentAsCsv = (results: ExperimentCellResult[]): string => {
+  const parameters = SweepParameterSchema.options.filter(parameter =>
+    results.some(result => result.parameters[parameter] !== undefined)
+  )
+  const header = [
+    ...parameters,
+    'runs',
+    ...EXPERIMENT_METRICS.flatMap(metric => [`${metric}Mean`, `${metric}Variance`]),
+  ].join(',')
+  const rows = results.map(result => [
+    ...parameters.map(parameter => result.parameters[parameter] ?? ''),
+    result.runs,
+    ...EXPERIMENT_METRICS.flatMap(metric => [result.metrics[metric].mean, result.metrics[metric].variance]),
+  ].join(','))
+
+  return [header, ...rows].join('\n') + '\n'
+}
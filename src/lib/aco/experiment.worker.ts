@@ -0,0 +1,33 @@
+import { ExperimentSpecSchema, runExperiment, type ExperimentCellResult } from './experiment'
+
+/**
+ * ワーカーへの要求
+ */
+export type ExperimentWorkerRequest = {
+  type: 'run'
+  spec: unknown
+}
+
+/**
+ * ワーカーからの応答
+ */
+export type ExperimentWorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; results: ExperimentCellResult[] }
+  | { type: 'error'; message: string }
+
+const respond = (response: ExperimentWorkerResponse) => {
+  self.postMessage(response)
+}
+
+self.addEventListener('message', (event: MessageEvent<ExperimentWorkerRequest>) => {
+  try {
+    const spec = ExperimentSpecSchema.parse(event.data.spec)
+    const results = runExperiment(spec, {
+      onProgress: (completed, total) => respond({ type: 'progress', completed, total }),
+    })
+    respond({ type: 'done', results })
+  } catch (error) {
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ANT_FRAME_STRIDE,
+  createSimulationFrame,
+  forEachFramePheromone,
+  getFrameTransferables,
+} from './frame'
+import { createColonyMetrics } from './metrics'
+import { addColony, createSingleColony } from './colony'
+import { pheromoneMapToColonyPheromones } from './pheromone-grid'
+import { createConfigGeometry, type SimulationState } from './simulation-engine'
+import { SimulationConfigSchema } from './types'
+
+const config = SimulationConfigSchema.parse({
+  worldWidth: 100,
+  worldHeight: 100,
+  antCount: 2,
+  pheromoneDecayRate: 0.99,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  speed: 1,
+})
+
+const state: SimulationState = {
+  ants: [
+    { id: 'ant-0', position: { x: 10, y: 20 }, hasFood: false, targetFood: null, direction: 0.5, foodAmount: null, colonyId: 'colony-0' },
+    { id: 'ant-1', position: { x: 30, y: 40 }, hasFood: true, targetFood: 'food-0', direction: 1.5, foodAmount: 10, colonyId: 'colony-0' },
+  ],
+  foods: [{ id: 'food-0', position: { x: 50, y: 50 }, amount: 9 }],
+  pheromones: pheromoneMapToColonyPheromones(
+    new Map([
+      ['a', { position: { x: 5, y: 5 }, intensity: 3, type: 'toNest' as const, colonyId: 'colony-0' }],
+    ]),
+    createConfigGeometry(config),
+    ['colony-0']
+  ),
+  colonies: createSingleColony({ x: 0, y: 0 }),
+  obstacles: new Set(),
+  rngState: 1,
+  tick: 12,
+  metrics: createColonyMetrics(),
+  colonyMetrics: {},
+}
+
+describe('createSimulationFrame', () => {
+  it('should pack ants into typed arrays', () => {
+    const frame = createSimulationFrame(config, state)
+
+    expect(frame.ants).toHaveLength(2 * ANT_FRAME_STRIDE)
+    expect(Array.from(frame.ants.subarray(ANT_FRAME_STRIDE))).toEqual([30, 40, 1.5])
+    expect(Array.from(frame.antsCarryingFood)).toEqual([0, 1])
+  })
+
+  it('should copy every colony\'s pheromone layers into one buffer', () => {
+    const frame = createSimulationFrame(config, state)
+    const visited: [number, number, number, string][] = []
+    forEachFramePheromone(frame, (x, y, intensity, type) => visited.push([x, y, intensity, type]))
+
+    expect(frame.pheromones).toHaveLength(2 * frame.pheromoneColumns * frame.pheromoneRows)
+    expect(visited).toEqual([[5, 5, 3, 'toNest']])
+  })
+
+  it('should not share the layers with the state', () => {
+    const frame = createSimulationFrame(config, state)
+    frame.pheromones.fill(0)
+
+    expect(createSimulationFrame(config, state).pheromones.some(intensity => intensity > 0)).toBe(true)
+  })
+
+  it('should index each ant\'s colony', () => {
+    const colonies = addColony(state.colonies, { x: 50, y: 50 })
+    const frame = createSimulationFrame(config, {
+      ...state,
+      colonies,
+      ants: [state.ants[0], { ...state.ants[1], colonyId: 'colony-1' }],
+    })
+
+    expect(Array.from(frame.antColonies)).toEqual([0, 1])
+    expect(frame.colonies).toBe(colonies)
+  })
+
+  it('should list a separate buffer for every typed array', () => {
+    const frame = createSimulationFrame(config, state)
+
+    expect(new Set(getFrameTransferables(frame)).size).toBe(4)
+    expect(frame.tick).toBe(12)
+    expect(frame.metrics).toBeNull()
+  })
+})
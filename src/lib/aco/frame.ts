@@ -0,0 +1,123 @@
+import { PheromoneTypeSchema, type Colony, type Food, type PheromoneType } from './types'
+import { PHEROMONE_CONSTANTS } from './constants'
+import { getLatestSample, type MetricsSample } from './metrics'
+import type { SimulationState } from './simulation-engine'
+import type { SimulationConfig } from './types'
+
+/** ants の1匹あたりの要素数（x, y, 向き） */
+export const ANT_FRAME_STRIDE = 3
+
+/**
+ * 描画用の軽量な状態
+ * アリとフェロモンは型付き配列に詰めるため、ワーカーからコピーせずに転送できる
+ */
+export type SimulationFrame = {
+  readonly tick: number
+  /** x, y, 向きの繰り返し */
+  readonly ants: Float32Array
+  /** 餌を運んでいるアリは 1 */
+  readonly antsCarryingFood: Uint8Array
+  /** アリが属するコロニーの番号（colonies の添字） */
+  readonly antColonies: Uint8Array
+  /** コロニーごと・種類ごと（PheromoneTypeSchema.options の順）のフェロモン層を続けて並べたもの */
+  readonly pheromones: Float32Array
+  /** フェロモン層の列数 */
+  readonly pheromoneColumns: number
+  /** フェロモン層の行数 */
+  readonly pheromoneRows: number
+  /** フェロモン層のセルサイズ */
+  readonly pheromoneCellSize: number
+  readonly foods: Food[]
+  readonly colonies: Colony[]
+  readonly metrics: MetricsSample | null
+}
+
+/**
+ * シミュレーション状態から描画用フレームを作成
+ * @param config シミュレーション設定（フェロモンのセル位置を求めるのに使う）
+ * @param state シミュレーション状態
+ * @returns 描画用フレーム
+ */
+export const createSimulationFrame = (
+  config: SimulationConfig,
+  state: SimulationState
+): SimulationFrame => {
+  const ants = new Float32Array(state.ants.length * ANT_FRAME_STRIDE)
+  const antsCarryingFood = new Uint8Array(state.ants.length)
+  const antColonies = new Uint8Array(state.ants.length)
+  const colonyIndices = new Map(state.colonies.map((colony, i) => [colony.id, i]))
+  state.ants.forEach((ant, i) => {
+    ants[i * ANT_FRAME_STRIDE] = ant.position.x
+    ants[i * ANT_FRAME_STRIDE + 1] = ant.position.y
+    ants[i * ANT_FRAME_STRIDE + 2] = ant.direction
+    antsCarryingFood[i] = ant.hasFood ? 1 : 0
+    antColonies[i] = colonyIndices.get(ant.colonyId) ?? 0
+  })
+
+  // 各層はセル単位の Float32Array なので、そのまま続けて複製する
+  const cellSize = PHEROMONE_CONSTANTS.GRID_CELL_SIZE
+  const pheromoneColumns = Math.ceil(config.worldWidth / cellSize)
+  const pheromoneRows = Math.ceil(config.worldHeight / cellSize)
+  const cellCount = pheromoneColumns * pheromoneRows
+  const types = PheromoneTypeSchema.options
+  const pheromones = new Float32Array(state.pheromones.size * types.length * cellCount)
+  let offset = 0
+  state.pheromones.forEach((layers) => {
+    types.forEach((type) => {
+      // 大きさが合わない層（世界の大きさを変えた直後など）は空として扱う
+      if (layers[type].length === cellCount) pheromones.set(layers[type], offset)
+      offset += cellCount
+    })
+  })
+
+  return {
+    tick: state.tick,
+    ants,
+    antsCarryingFood,
+    antColonies,
+    pheromones,
+    pheromoneColumns,
+    pheromoneRows,
+    pheromoneCellSize: cellSize,
+    foods: state.foods,
+    colonies: state.colonies,
+    metrics: getLatestSample(state.metrics),
+  }
+}
+
+/**
+ * フレームに含まれるフェロモンのうち、強度が 0 より大きいセルを順に処理する
+ * @param frame 描画用フレーム
+ * @param visit セルの中心座標、強度、種類を受け取る関数
+ */
+export const forEachFramePheromone = (
+  frame: SimulationFrame,
+  visit: (x: number, y: number, intensity: number, type: PheromoneType) => void
+): void => {
+  const { pheromones, pheromoneColumns: columns, pheromoneCellSize: cellSize } = frame
+  const types = PheromoneTypeSchema.options
+  const cellCount = columns * frame.pheromoneRows
+
+  for (let i = 0; i < pheromones.length; i++) {
+    if (pheromones[i] <= 0) continue
+    const cell = i % cellCount
+    visit(
+      (cell % columns) * cellSize + cellSize / 2,
+      Math.floor(cell / columns) * cellSize + cellSize / 2,
+      pheromones[i],
+      types[Math.floor(i / cellCount) % types.length]
+    )
+  }
+}
+
+/**
+ * postMessage で転送するバッファの一覧
+ * @param frame 描画用フレーム
+ * @returns 転送するバッファ
+ */
+export const getFrameTransferables = (frame: SimulationFrame): ArrayBuffer[] => [
+  frame.ants.buffer as ArrayBuffer,
+  frame.antsCarryingFood.buffer as ArrayBuffer,
+  frame.antColonies.buffer as ArrayBuffer,
+  frame.pheromones.buffer as ArrayBuffer,
+]
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { createWorldGeometry } from './geometry'
+import { createPheromoneGrid, depositToGrid, diffusePheromoneGrid, sampleGrid } from './pheromone-grid'
+import { moveAnt } from './movement'
+import { createRng } from './random'
+
+const torus = createWorldGeometry('torus', 800, 600)
+const reflect = createWorldGeometry('bounded-reflect', 800, 600)
+const clamp = createWorldGeometry('bounded-clamp', 800, 600)
+
+describe('createWorldGeometry', () => {
+  it('should measure distance across the edge only on a torus', () => {
+    const a = { x: 10, y: 300 }
+    const b = { x: 790, y: 300 }
+
+    expect(torus.distance(a, b)).toBeCloseTo(20)
+    expect(reflect.distance(a, b)).toBeCloseTo(780)
+    expect(clamp.distance(a, b)).toBeCloseTo(780)
+  })
+
+  it('should point towards the shortest path', () => {
+    const a = { x: 10, y: 300 }
+    const b = { x: 790, y: 300 }
+
+    expect(Math.abs(torus.direction(a, b))).toBeCloseTo(Math.PI)
+    expect(reflect.direction(a, b)).toBeCloseTo(0)
+  })
+
+  it('should wrap positions on a torus', () => {
+    const { position, direction } = torus.confine({ x: 802, y: -3 }, 0.5)
+
+    expect(position.x).toBeCloseTo(2)
+    expect(position.y).toBeCloseTo(597)
+    expect(direction).toBe(0.5)
+  })
+
+  it('should reflect position and heading off the walls', () => {
+    const fromRight = reflect.confine({ x: 803, y: 300 }, 0)
+    expect(fromRight.position).toEqual({ x: 797, y: 300 })
+    expect(Math.cos(fromRight.direction)).toBeCloseTo(-1)
+
+    const fromTop = reflect.confine({ x: 400, y: -2 }, -Math.PI / 2)
+    expect(fromTop.position).toEqual({ x: 400, y: 2 })
+    expect(Math.sin(fromTop.direction)).toBeCloseTo(1)
+  })
+
+  it('should clamp positions to the walls without turning', () => {
+    const { position, direction } = clamp.confine({ x: -4, y: 610 }, 1)
+
+    expect(position).toEqual({ x: 0, y: 600 })
+    expect(direction).toBe(1)
+  })
+
+  it('should not list neighbours outside a bounded world', () => {
+    expect(torus.neighbors(0, 0, 80, 60, 'von-neumann')).toHaveLength(4)
+    expect(reflect.neighbors(0, 0, 80, 60, 'von-neumann')).toEqual([
+      { column: 1, row: 0 },
+      { column: 0, row: 1 },
+    ])
+    expect(clamp.neighbors(0, 0, 80, 60, 'moore')).toHaveLength(3)
+  })
+})
+
+describe('bounded worlds', () => {
+  it('should keep moving ants inside the arena', () => {
+    [reflect, clamp].forEach((geometry) => {
+      const rng = createRng(3)
+      let position = { x: 790, y: 10 }
+      let direction = -Math.PI / 4
+
+      for (let i = 0; i < 500; i++) {
+        const result = moveAnt(position, direction, geometry, rng)
+        expect(result.position.x).toBeGreaterThanOrEqual(0)
+        expect(result.position.x).toBeLessThanOrEqual(800)
+        expect(result.position.y).toBeGreaterThanOrEqual(0)
+        expect(result.position.y).toBeLessThanOrEqual(600)
+        position = result.position
+        direction = result.direction
+      }
+    })
+  })
+
+  it('should not sense pheromone across the edge', () => {
+    const grid = createPheromoneGrid(reflect)
+    depositToGrid(grid, { x: 795, y: 300 }, 'toFood', 50)
+
+    expect(sampleGrid(grid, { x: 5, y: 300 }, 'toFood', 30)).toBe(0)
+    expect(sampleGrid(grid, { x: 785, y: 300 }, 'toFood', 30)).toBeGreaterThan(0)
+  })
+
+  it('should conserve mass when diffusing against the walls', () => {
+    const grid = createPheromoneGrid(clamp)
+    depositToGrid(grid, { x: 5, y: 5 }, 'toFood', 40)
+
+    diffusePheromoneGrid(grid, 0.5, 'moore')
+
+    const layer = grid.layers.toFood
+    expect(layer.reduce((sum, value) => sum + value, 0)).toBeCloseTo(40)
+    expect(layer[grid.columns * grid.rows - 1]).toBe(0)
+  })
+})
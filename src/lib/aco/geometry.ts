@@ -1,4 +1,13 @@
-import type { Position } from './types'
+import type { DiffusionKernel, Position, Topology } from './types'
+
+/**
+ * 近傍セルへのオフセット
+ * von-neumann: 上下左右の4近傍 / moore: 斜めを含む8近傍
+ */
+export const NEIGHBOR_OFFSETS: Record<DiffusionKernel, ReadonlyArray<readonly [number, number]>> = {
+  'von-neumann': [[1, 0], [-1, 0], [0, 1], [0, -1]],
+  moore: [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]],
+}
 
 /**
  * トーラス世界での位置ラッピング
@@ -56,4 +65,138 @@ export const normalizeAngle = (angle: number): number => {
     normalized += 2 * Math.PI
   }
   return normalized
-}
\ No newline at end of file
+}
+
+/**
+ * 世界の形状
+ * 距離・方向・境界処理・グリッドのセル参照はすべてこのオブジェクトを経由する
+ */
+export type WorldGeometry = {
+  readonly topology: Topology
+  readonly width: number
+  readonly height: number
+  /** 点 a から点 b への変位（トーラスでは端を通る最短経路） */
+  readonly delta: (a: Position, b: Position) => Position
+  /** 2点間の距離 */
+  readonly distance: (a: Position, b: Position) => number
+  /** 点 a から点 b への方向（ラジアン） */
+  readonly direction: (a: Position, b: Position) => number
+  /** 移動後の位置を世界の中に収め、必要に応じて方向も更新する */
+  readonly confine: (position: Position, direction: number) => { position: Position; direction: number }
+  /** セル座標を解決する（範囲外で対応するセルがない場合は null） */
+  readonly resolveCell: (cell: number, size: number) => number | null
+  /** グリッドの近傍セルを取得 */
+  readonly neighbors: (
+    column: number,
+    row: number,
+    columns: number,
+    rows: number,
+    kernel: DiffusionKernel
+  ) => Array<{ column: number; row: number }>
+}
+
+const wrapCell = (cell: number, size: number): number =>
+  ((cell % size) + size) % size
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value))
+
+/**
+ * 壁で反射させた座標と、その軸の速度成分を反転したかどうかを返す
+ */
+const reflect = (value: number, size: number): { value: number; reflected: boolean } => {
+  if (value < 0) return { value: Math.min(-value, size), reflected: true }
+  if (value > size) return { value: Math.max(2 * size - value, 0), reflected: true }
+  return { value, reflected: false }
+}
+
+const confineByTopology = (
+  topology: Topology,
+  width: number,
+  height: number
+): WorldGeometry['confine'] => {
+  switch (topology) {
+    case 'torus':
+      return (position, direction) => ({
+        position: torusWrap(position, width, height),
+        direction,
+      })
+    case 'bounded-reflect':
+      return (position, direction) => {
+        const x = reflect(position.x, width)
+        const y = reflect(position.y, height)
+        // 縦の壁で反射すると x 成分が、横の壁で反射すると y 成分が反転する
+        const reflectedX = x.reflected ? Math.PI - direction : direction
+        return {
+          position: { x: x.value, y: y.value },
+          direction: y.reflected ? -reflectedX : reflectedX,
+        }
+      }
+    case 'bounded-clamp':
+      return (position, direction) => ({
+        position: {
+          x: clamp(position.x, 0, width),
+          y: clamp(position.y, 0, height),
+        },
+        direction,
+      })
+  }
+}
+
+/**
+ * 世界の形状を作成
+ * torus: 端が反対側と繋がる / bounded-reflect: 壁で反射する / bounded-clamp: 壁で止まる
+ * @param topology トポロジー
+ * @param width 世界の幅
+ * @param height 世界の高さ
+ * @returns 世界の形状
+ */
+export const createWorldGeometry = (
+  topology: Topology,
+  width: number,
+  height: number
+): WorldGeometry => {
+  const isTorus = topology === 'torus'
+
+  const delta = (a: Position, b: Position): Position => {
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    if (!isTorus) return { x: dx, y: dy }
+
+    // トーラス世界での最短経路を計算
+    return {
+      x: dx > width / 2 ? dx - width : dx < -width / 2 ? dx + width : dx,
+      y: dy > height / 2 ? dy - height : dy < -height / 2 ? dy + height : dy,
+    }
+  }
+
+  const resolveCell = (cell: number, size: number): number | null => {
+    if (isTorus) return wrapCell(cell, size)
+    return cell >= 0 && cell < size ? cell : null
+  }
+
+  return {
+    topology,
+    width,
+    height,
+    delta,
+    distance: (a, b) => {
+      const { x, y } = delta(a, b)
+      return Math.sqrt(x * x + y * y)
+    },
+    direction: (a, b) => {
+      const { x, y } = delta(a, b)
+      return Math.atan2(y, x)
+    },
+    confine: confineByTopology(topology, width, height),
+    resolveCell,
+    neighbors: (column, row, columns, rows, kernel) =>
+      NEIGHBOR_OFFSETS[kernel].flatMap(([dx, dy]) => {
+        const neighborColumn = resolveCell(column + dx, columns)
+        const neighborRow = resolveCell(row + dy, rows)
+        return neighborColumn === null || neighborRow === null
+          ? []
+          : [{ column: neighborColumn, row: neighborRow }]
+      }),
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { formatMetricsAsCsv, runHeadlessSimulation } from './headless'
+import { ScenarioSchema, type Scenario } from './scenario'
+
+const scenario: Scenario = ScenarioSchema.parse({
+  version: 1,
+  config: {
+    worldWidth: 800,
+    worldHeight: 600,
+    antCount: 20,
+    pheromoneDecayRate: 0.99,
+    pheromoneDepositAmount: 2,
+    pheromoneTrackingStrength: 0.7,
+    speed: 1,
+    pheromoneDecayInterval: 10,
+  },
+  seed: 42,
+  nest: { x: 400, y: 300 },
+  randomFoodCount: 5,
+})
+
+describe('runHeadlessSimulation', () => {
+  it('should record metrics for every tick', () => {
+    const metrics = runHeadlessSimulation(scenario, { ticks: 30 })
+
+    expect(metrics).toHaveLength(30)
+    expect(metrics.map(m => m.tick)).toEqual(Array.from({ length: 30 }, (_, i) => i + 1))
+  })
+
+  it('should be reproducible for the same scenario', () => {
+    const first = runHeadlessSimulation(scenario, { ticks: 50 })
+    const second = runHeadlessSimulation(scenario, { ticks: 50 })
+
+    expect(second).toEqual(first)
+  })
+})
+
+describe('formatMetricsAsCsv', () => {
+  it('should write a header and one row per tick', () => {
+    const metrics = runHeadlessSimulation(scenario, { ticks: 3 })
+    const lines = formatMetricsAsCsv(metrics).trim().split('\n')
+
+    expect(lines[0]).toBe('tick,antsCarryingFood,foodSources,foodRemaining,foodCollected,deliveries,pheromoneCells,pheromoneMass')
+    expect(lines).toHaveLength(4)
+  })
+})
@@ -0,0 +1,101 @@
+import { createInitialState, type Scenario } from './scenario'
+import { executeSimulationTick, type SimulationState } from './simulation-engine'
+import { getLatestSample, observeColony } from './metrics'
+
+/**
+ * 1ティック分の計測値
+ */
+export type TickMetrics = {
+  readonly tick: number
+  readonly antsCarryingFood: number
+  readonly foodSources: number
+  readonly foodRemaining: number
+  readonly foodCollected: number
+  readonly deliveries: number
+  readonly pheromoneCells: number
+  readonly pheromoneMass: number
+}
+
+/**
+ * ヘッドレス実行のオプション
+ */
+export type HeadlessRunOptions = {
+  /** 実行するティック数 */
+  readonly ticks: number
+  /** 各ティック終了後に呼ばれるコールバック */
+  readonly onTick?: (state: SimulationState, metrics: TickMetrics) => void
+}
+
+/**
+ * 現在の状態から計測値を収集
+ * @param state シミュレーション状態
+ * @returns 計測値
+ */
+export const collectTickMetrics = (state: SimulationState): TickMetrics => {
+  const { antsCarryingFood, pheromoneCells, pheromoneMass } = observeColony(state)
+  const latest = getLatestSample(state.metrics)
+
+  return {
+    tick: state.tick,
+    antsCarryingFood,
+    foodSources: state.foods.length,
+    foodRemaining: state.foods.reduce((total, food) => total + food.amount, 0),
+    foodCollected: state.metrics.totalFoodCollected,
+    deliveries: latest?.tick === state.tick ? latest.deliveries : 0,
+    pheromoneCells,
+    pheromoneMass,
+  }
+}
+
+/**
+ * ブラウザを使わずにシミュレーションを実行
+ * @param scenario シナリオ
+ * @param options 実行オプション
+ * @returns ティックごとの計測値
+ */
+export const runHeadlessSimulation = (
+  scenario: Scenario,
+  options: HeadlessRunOptions
+): TickMetrics[] => {
+  const metrics: TickMetrics[] = []
+  let state = createInitialState(scenario)
+
+  for (let i = 0; i < options.ticks; i++) {
+    state = executeSimulationTick(scenario.config, state)
+    const tickMetrics = collectTickMetrics(state)
+    metrics.push(tickMetrics)
+    options.onTick?.(state, tickMetrics)
+  }
+
+  return metrics
+}
+
+const METRIC_COLUMNS: ReadonlyArray<keyof TickMetrics> = [
+  'tick',
+  'antsCarryingFood',
+  'foodSources',
+  'foodRemaining',
+  'foodCollected',
+  'deliveries',
+  'pheromoneCells',
+  'pheromoneMass',
+]
+
+/**
+ * 計測値をCSV形式に変換
+ * @param metrics ティックごとの計測値
+ * @returns ヘッダー行付きのCSV文字列
+ */
+export const formatMetricsAsCsv = (metrics: TickMetrics[]): string => {
+  const header = METRIC_COLUMNS.join(',')
+  const rows = metrics.map(row => METRIC_COLUMNS.map(column => row[column]).join(','))
+  return [header, ...rows].join('\n') + '\n'
+}
+
+/**
+ * 計測値をJSON形式に変換
+ * @param metrics ティックごとの計測値
+ * @returns 整形済みJSON文字列
+ */
+export const formatMetricsAsJson = (metrics: TickMetrics[]): string =>
+  JSON.stringify(metrics, null, 2) + '\n'
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  METRICS_HISTORY_LIMIT,
+  createColonyMetrics,
+  getLatestSample,
+  getMetricSeries,
+  observeColony,
+  recordTick,
+  type ColonyObservation,
+} from './metrics'
+import { createWorldGeometry } from './geometry'
+import { pheromoneMapToColonyPheromones } from './pheromone-grid'
+
+const observation: ColonyObservation = {
+  antCount: 4,
+  antsCarryingFood: 1,
+  pheromoneCells: 3,
+  pheromoneMass: 12,
+}
+
+describe('recordTick', () => {
+  it('should accumulate deliveries and average round trip length', () => {
+    let metrics = createColonyMetrics()
+    metrics = recordTick(metrics, { tick: 10, deliveries: [{ antId: 'ant-0', amount: 1 }], collections: 0 }, observation)
+    metrics = recordTick(metrics, { tick: 11, deliveries: [], collections: 0 }, observation)
+    metrics = recordTick(metrics, { tick: 30, deliveries: [{ antId: 'ant-0', amount: 1 }], collections: 0 }, observation)
+
+    expect(metrics.totalFoodCollected).toBe(2)
+    expect(metrics.totalDeliveries).toBe(2)
+    // 1回目は 0 → 10、2回目は 10 → 30
+    expect(getLatestSample(metrics)?.averageTripLength).toBe(15)
+    expect(getMetricSeries(metrics, 'deliveries').map(point => point.value)).toEqual([1, 0, 1])
+  })
+
+  it('should keep the first discovery tick', () => {
+    let metrics = createColonyMetrics()
+    metrics = recordTick(metrics, { tick: 1, deliveries: [], collections: 0 }, observation)
+    metrics = recordTick(metrics, { tick: 2, deliveries: [], collections: 2 }, observation)
+    metrics = recordTick(metrics, { tick: 3, deliveries: [], collections: 1 }, observation)
+
+    expect(metrics.firstDiscoveryTick).toBe(2)
+  })
+
+  it('should drop the oldest samples once the history limit is reached', () => {
+    let metrics = createColonyMetrics()
+    for (let tick = 1; tick <= METRICS_HISTORY_LIMIT + 1; tick++) {
+      metrics = recordTick(metrics, { tick, deliveries: [], collections: 0 }, observation)
+    }
+
+    expect(metrics.samples.length).toBeLessThanOrEqual(METRICS_HISTORY_LIMIT)
+    expect(getLatestSample(metrics)?.tick).toBe(METRICS_HISTORY_LIMIT + 1)
+  })
+
+  it('should keep the samples of records branched from the same metrics apart', () => {
+    const base = recordTick(createColonyMetrics(), { tick: 1, deliveries: [], collections: 0 }, observation)
+    const first = recordTick(base, { tick: 2, deliveries: [], collections: 0 }, observation)
+    const second = recordTick(base, { tick: 3, deliveries: [], collections: 0 }, observation)
+
+    expect(first.samples.map(sample => sample.tick)).toEqual([1, 2])
+    expect(second.samples.map(sample => sample.tick)).toEqual([1, 3])
+  })
+})
+
+describe('getMetricSeries', () => {
+  it('should return only samples within the given tick range', () => {
+    let metrics = createColonyMetrics()
+    for (let tick = 1; tick <= 5; tick++) {
+      metrics = recordTick(metrics, { tick, deliveries: [], collections: 0 }, observation)
+    }
+
+    expect(getMetricSeries(metrics, 'carryingRatio', 4)).toEqual([
+      { tick: 4, value: 0.25 },
+      { tick: 5, value: 0.25 },
+    ])
+    expect(getMetricSeries(metrics, 'carryingRatio', 2, 3).map(point => point.tick)).toEqual([2, 3])
+  })
+})
+
+describe('observeColony', () => {
+  it('should count carrying ants and sum pheromone intensity', () => {
+    const result = observeColony({
+      ants: [
+        { id: 'a', position: { x: 0, y: 0 }, hasFood: true, targetFood: null, direction: 0, foodAmount: 1, colonyId: 'colony-0' },
+        { id: 'b', position: { x: 0, y: 0 }, hasFood: false, targetFood: null, direction: 0, foodAmount: null, colonyId: 'colony-0' },
+      ],
+      pheromones: pheromoneMapToColonyPheromones(
+        new Map([
+          ['p1', { position: { x: 5, y: 5 }, intensity: 2, type: 'toFood' as const, colonyId: 'colony-0' }],
+          ['p2', { position: { x: 5, y: 5 }, intensity: 3, type: 'toNest' as const, colonyId: 'colony-0' }],
+        ]),
+        createWorldGeometry('torus', 100, 100),
+        ['colony-0']
+      ),
+    })
+
+    expect(result).toEqual({ antCount: 2, antsCarryingFood: 1, pheromoneCells: 2, pheromoneMass: 5 })
+  })
+})
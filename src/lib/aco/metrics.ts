@@ -0,0 +1,225 @@
+import { z } from 'zod'
+import { PheromoneTypeSchema, type Ant } from './types'
+import type { ColonyPheromones } from './pheromone-grid'
+
+/** 保持する時系列の最大サンプル数（超えた場合は古い半分を捨てる） */
+export const METRICS_HISTORY_LIMIT = 10000
+
+/**
+ * 1ティック分の集計値
+ */
+export const MetricsSampleSchema = z.object({
+  tick: z.number().int().min(0),
+  /** これまでに巣へ運ばれた餌の総量 */
+  foodCollected: z.number().min(0),
+  /** このティックに餌を巣へ届けたアリの数 */
+  deliveries: z.number().int().min(0),
+  /** 完了した往復の平均ティック数（往復がまだない場合は 0） */
+  averageTripLength: z.number().min(0),
+  /** 餌を運んでいるアリの割合 */
+  carryingRatio: z.number().min(0).max(1),
+  /** フェロモンが残っているセルの数 */
+  pheromoneCells: z.number().int().min(0),
+  /** フェロモンの総量 */
+  pheromoneMass: z.number().min(0),
+})
+
+/**
+ * コロニーの統計
+ * エンジンが毎ティック更新し、samples に時系列として蓄積する
+ */
+export const ColonyMetricsSchema = z.object({
+  totalFoodCollected: z.number().min(0),
+  totalDeliveries: z.number().int().min(0),
+  totalTripLength: z.number().min(0),
+  /** 最初に餌が拾われたティック（まだの場合は null） */
+  firstDiscoveryTick: z.number().int().min(0).nullable(),
+  /** アリごとの現在の往復を開始したティック（未登録のアリは 0 から） */
+  tripStartTicks: z.record(z.string(), z.number().int().min(0)),
+  samples: z.array(MetricsSampleSchema),
+})
+
+export type MetricsSample = z.infer<typeof MetricsSampleSchema>
+export type ColonyMetrics = z.infer<typeof ColonyMetricsSchema>
+
+/** 時系列として取り出せる項目 */
+export type MetricKey = Exclude<keyof MetricsSample, 'tick'>
+
+/**
+ * 時系列の1点
+ */
+export type MetricPoint = {
+  readonly tick: number
+  readonly value: number
+}
+
+/**
+ * 1ティックの間に起きた出来事
+ */
+export type TickEvents = {
+  readonly tick: number
+  /** 巣に餌を届けたアリと届けた量 */
+  readonly deliveries: ReadonlyArray<{ readonly antId: string; readonly amount: number }>
+  /** 餌を拾ったアリの数 */
+  readonly collections: number
+}
+
+/**
+ * ティック終了時のコロニーの状態
+ */
+export type ColonyObservation = {
+  readonly antCount: number
+  readonly antsCarryingFood: number
+  readonly pheromoneCells: number
+  readonly pheromoneMass: number
+}
+
+/**
+ * 空の統計を作成
+ * @returns 空の統計
+ */
+export const createColonyMetrics = (): ColonyMetrics => ({
+  totalFoodCollected: 0,
+  totalDeliveries: 0,
+  totalTripLength: 0,
+  firstDiscoveryTick: null,
+  tripStartTicks: {},
+  samples: [],
+})
+
+/**
+ * アリとフェロモンの現在の状態を観測
+ * @param world アリとコロニーごとのフェロモン層
+ * @param colonyId 指定した場合はこのコロニーのアリとフェロモンのみを数える
+ * @returns 観測値
+ */
+export const observeColony = (
+  world: {
+    ants: ReadonlyArray<Ant>
+    pheromones: ColonyPheromones
+  },
+  colonyId?: string
+): ColonyObservation => {
+  const ants = colonyId === undefined
+    ? world.ants
+    : world.ants.filter(ant => ant.colonyId === colonyId)
+  let pheromoneCells = 0
+  let pheromoneMass = 0
+  world.pheromones.forEach((layers, layersColonyId) => {
+    if (colonyId !== undefined && layersColonyId !== colonyId) return
+    PheromoneTypeSchema.options.forEach((type) => {
+      const layer = layers[type]
+      for (let i = 0; i < layer.length; i++) {
+        if (layer[i] <= 0) continue
+        pheromoneCells++
+        pheromoneMass += layer[i]
+      }
+    })
+  })
+
+  return {
+    antCount: ants.length,
+    antsCarryingFood: ants.filter(ant => ant.hasFood).length,
+    pheromoneCells,
+    pheromoneMass,
+  }
+}
+
+/** recordTick が作った統計ごとの、作成時点の時系列の長さ */
+const sampleCounts = new WeakMap<ColonyMetrics, number>()
+
+/**
+ * 時系列にサンプルを追記
+ * 毎ティック配列を複製しないよう、作成後に伸びていない配列にはそのまま追記する
+ * 上限に達したときと、同じ統計から記録し直すときだけ新しい配列に移す
+ */
+const appendSample = (metrics: ColonyMetrics, sample: MetricsSample): MetricsSample[] => {
+  const count = sampleCounts.get(metrics)
+  if (count === metrics.samples.length && count < METRICS_HISTORY_LIMIT) {
+    metrics.samples.push(sample)
+    return metrics.samples
+  }
+
+  const visible = metrics.samples.slice(0, count)
+  return [...(visible.length >= METRICS_HISTORY_LIMIT ? visible.slice(METRICS_HISTORY_LIMIT / 2) : visible), sample]
+}
+
+/**
+ * 1ティック分の出来事と観測値を統計に反映
+ * samples は次の統計と共有して追記するため、過去の統計の samples を残す場合は複製すること
+ * @param metrics 現在の統計
+ * @param events ティック中の出来事
+ * @param observation ティック終了時の観測値
+ * @returns 更新された統計
+ */
+export const recordTick = (
+  metrics: ColonyMetrics,
+  events: TickEvents,
+  observation: ColonyObservation
+): ColonyMetrics => {
+  const { tick, deliveries } = events
+  let { totalFoodCollected, totalTripLength, tripStartTicks } = metrics
+
+  if (deliveries.length > 0) {
+    const nextTripStarts: Record<string, number> = {}
+    deliveries.forEach(({ antId, amount }) => {
+      totalFoodCollected += amount
+      totalTripLength += tick - (tripStartTicks[antId] ?? 0)
+      nextTripStarts[antId] = tick
+    })
+    tripStartTicks = { ...tripStartTicks, ...nextTripStarts }
+  }
+
+  const totalDeliveries = metrics.totalDeliveries + deliveries.length
+  const sample: MetricsSample = {
+    tick,
+    foodCollected: totalFoodCollected,
+    deliveries: deliveries.length,
+    averageTripLength: totalDeliveries > 0 ? totalTripLength / totalDeliveries : 0,
+    carryingRatio: observation.antCount > 0
+      ? observation.antsCarryingFood / observation.antCount
+      : 0,
+    pheromoneCells: observation.pheromoneCells,
+    pheromoneMass: observation.pheromoneMass,
+  }
+
+  const samples = appendSample(metrics, sample)
+  const next: ColonyMetrics = {
+    totalFoodCollected,
+    totalDeliveries,
+    totalTripLength,
+    firstDiscoveryTick: metrics.firstDiscoveryTick === null && events.collections > 0
+      ? tick
+      : metrics.firstDiscoveryTick,
+    tripStartTicks,
+    samples,
+  }
+  sampleCounts.set(next, samples.length)
+  return next
+}
+
+/**
+ * 指定した項目の時系列を取得
+ * @param metrics 統計（固定した過去の実行のサンプル列でもよい）
+ * @param key 項目
+ * @param fromTick このティック以降のみを返す（省略時はすべて）
+ * @param toTick このティック以前のみを返す（省略時はすべて）
+ * @returns 時系列
+ */
+export const getMetricSeries = (
+  metrics: Pick<ColonyMetrics, 'samples'>,
+  key: MetricKey,
+  fromTick: number = 0,
+  toTick: number = Infinity
+): MetricPoint[] =>
+  metrics.samples
+    .filter(sample => sample.tick >= fromTick && sample.tick <= toTick)
+    .map(sample => ({ tick: sample.tick, value: sample[key] }))
+
+/**
+ * 最新の集計値を取得
+ * @param metrics 統計
+ * @returns 最新の集計値（まだ記録がない場合は null）
+ */
+export const getLatestSample = (metrics: ColonyMetrics): MetricsSample | null =>
+  metrics.samples[metrics.samples.length - 1] ?? null
@@ -1,5 +1,7 @@
 import type { Position } from './types'
-import { torusWrap } from './geometry'
+import type { Rng } from './random'
+import type { WorldGeometry } from './geometry'
+import { EMPTY_OBSTACLES, isBlocked, resolveObstacleCollision, type ObstacleSet } from './obstacles'
 
 /**
  * アリの基本移動パラメータ
@@ -28,74 +30,141 @@ export type MovementResult = {
  * アリの基本移動（ランダムウォーク付き）
  * @param position 現在位置
  * @param direction 現在の方向（ラジアン）
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
+ * @param rng 擬似乱数生成器
  * @param params 移動パラメータ
+ * @param obstacles 障害物レイヤー（壁に当たると滑るか引き返す）
  * @returns 新しい位置と方向
  */
 export const moveAnt = (
   position: Position,
   direction: number,
-  worldWidth: number,
-  worldHeight: number,
-  params: MovementParams = { speed: 2, randomTurnRange: 0.5 }
+  geometry: WorldGeometry,
+  rng: Rng,
+  params: MovementParams = { speed: 2, randomTurnRange: 0.5 },
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
 ): MovementResult => {
   // ランダムな方向転換（-0.25 〜 +0.25 ラジアン）
-  const randomTurn = (Math.random() - 0.5) * params.randomTurnRange
+  const randomTurn = (rng.next() - 0.5) * params.randomTurnRange
   const newDirection = direction + randomTurn
 
-  // 新しい位置を計算
-  const newPosition = {
+  // 新しい位置を計算し、世界の境界を処理する
+  const confined = geometry.confine({
     x: position.x + Math.cos(newDirection) * params.speed,
     y: position.y + Math.sin(newDirection) * params.speed,
-  }
+  }, newDirection)
 
-  return {
-    position: torusWrap(newPosition, worldWidth, worldHeight),
-    direction: newDirection,
-  }
+  return resolveObstacleCollision(
+    position,
+    confined.position,
+    confined.direction,
+    obstacles
+  )
 }
 
 /**
  * 目標に向かって移動（完全直線移動）
  * @param position 現在位置
  * @param target 目標位置
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
  * @param speed 移動速度
+ * @param obstacles 障害物レイヤー（壁に当たると沿って滑る）
  * @returns 新しい位置
  */
 export const moveTowardsTarget = (
   position: Position,
   target: Position,
-  worldWidth: number,
-  worldHeight: number,
-  speed: number = 2
+  geometry: WorldGeometry,
+  speed: number = 2,
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
 ): Position => {
-  const dx = target.x - position.x
-  const dy = target.y - position.y
-  
-  // トーラス世界での最短経路を計算
-  const wrappedDx = dx > worldWidth / 2 ? dx - worldWidth :
-                    dx < -worldWidth / 2 ? dx + worldWidth : dx
-  const wrappedDy = dy > worldHeight / 2 ? dy - worldHeight :
-                    dy < -worldHeight / 2 ? dy + worldHeight : dy
-  
-  const distance = Math.sqrt(wrappedDx * wrappedDx + wrappedDy * wrappedDy)
+  // 世界の形状に応じた最短経路を計算
+  const { x: dx, y: dy } = geometry.delta(position, target)
+  const distance = Math.sqrt(dx * dx + dy * dy)
   
   // 目標に到達した場合
   if (distance < speed) {
-    return target
+    return isBlocked(obstacles, target) ? position : target
   }
   
   // 正規化された移動ベクトルを計算
-  const moveX = (wrappedDx / distance) * speed
-  const moveY = (wrappedDy / distance) * speed
+  const moveX = (dx / distance) * speed
+  const moveY = (dy / distance) * speed
   
-  return torusWrap({
+  const confined = geometry.confine({
     x: position.x + moveX,
     y: position.y + moveY,
-  }, worldWidth, worldHeight)
+  }, Math.atan2(moveY, moveX))
+  
+  return resolveObstacleCollision(
+    position,
+    confined.position,
+    confined.direction,
+    obstacles
+  ).position
+}
+
+/**
+ * 向きを変えずに1歩進む（壁に当たると沿って滑る）
+ */
+const stepInDirection = (
+  position: Position,
+  direction: number,
+  geometry: WorldGeometry,
+  speed: number,
+  obstacles: ObstacleSet
+): Position => {
+  const confined = geometry.confine({
+    x: position.x + Math.cos(direction) * speed,
+    y: position.y + Math.sin(direction) * speed,
+  }, direction)
+
+  return resolveObstacleCollision(position, confined.position, confined.direction, obstacles).position
+}
+
+/**
+ * 壁を回り込みながら目標に向かって移動
+ * 目標へ直進する先が壁の場合は、現在の向き、目標方向から左右に90度の順に進める向きを探して壁に沿う。
+ * 返した向きを次のティックに渡せば、直進できるようになるまで同じ側から回り込み続ける
+ * @param position 現在位置
+ * @param direction 現在の方向（壁沿いに進んでいる間はその向き）
+ * @param target 目標位置
+ * @param geometry 世界の形状
+ * @param speed 移動速度
+ * @param obstacles 障害物レイヤー
+ * @returns 新しい位置と方向
+ */
+export const moveTowardsTargetAroundWalls = (
+  position: Position,
+  direction: number,
+  target: Position,
+  geometry: WorldGeometry,
+  speed: number = 2,
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
+): MovementResult => {
+  const targetDirection = geometry.direction(position, target)
+  const straight = geometry.confine({
+    x: position.x + Math.cos(targetDirection) * speed,
+    y: position.y + Math.sin(targetDirection) * speed,
+  }, targetDirection)
+
+  if (geometry.distance(position, target) < speed || !isBlocked(obstacles, straight.position)) {
+    return {
+      position: moveTowardsTarget(position, target, geometry, speed, obstacles),
+      direction: targetDirection,
+    }
+  }
+
+  const headings = [direction, targetDirection + Math.PI / 2, targetDirection - Math.PI / 2]
+  for (const heading of headings) {
+    const next = stepInDirection(position, heading, geometry, speed, obstacles)
+    if (geometry.distance(position, next) >= speed / 2) {
+      return { position: next, direction: heading }
+    }
+  }
+
+  // 行き止まりでは引き返す
+  return { position, direction: targetDirection + Math.PI }
 }
 
 /**
@@ -103,37 +172,30 @@ export const moveTowardsTarget = (
  * @param position 現在位置
  * @param direction 現在の方向
  * @param target 目標位置
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
+ * @param rng 擬似乱数生成器
  * @param params バイアス付き移動パラメータ
+ * @param obstacles 障害物レイヤー（壁に当たると滑るか引き返す）
  * @returns 新しい位置と方向
  */
 export const moveWithBias = (
   position: Position,
   direction: number,
   target: Position,
-  worldWidth: number,
-  worldHeight: number,
+  geometry: WorldGeometry,
+  rng: Rng,
   params: BiasedMovementParams = { 
     speed: 2, 
     randomTurnRange: 0.8, 
     biasStrength: 0.3 
-  }
+  },
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
 ): MovementResult => {
-  // 目標への方向を計算
-  const dx = target.x - position.x
-  const dy = target.y - position.y
-  
-  // トーラス世界での最短経路の方向を計算
-  const wrappedDx = dx > worldWidth / 2 ? dx - worldWidth :
-                    dx < -worldWidth / 2 ? dx + worldWidth : dx
-  const wrappedDy = dy > worldHeight / 2 ? dy - worldHeight :
-                    dy < -worldHeight / 2 ? dy + worldHeight : dy
-  
-  const targetDirection = Math.atan2(wrappedDy, wrappedDx)
+  // 世界の形状に応じた最短経路の方向を計算
+  const targetDirection = geometry.direction(position, target)
   
   // ランダムウォークを追加
-  const randomTurn = (Math.random() - 0.5) * params.randomTurnRange
+  const randomTurn = (rng.next() - 0.5) * params.randomTurnRange
   
   // 現在の方向、目標方向、ランダムウォークをブレンド
   const directionToTarget = targetDirection - direction
@@ -151,14 +213,16 @@ export const moveWithBias = (
     adjustedDirectionToTarget * params.biasStrength + 
     randomTurn * (1 - params.biasStrength)
 
-  // 新しい位置を計算
-  const newPosition = {
+  // 新しい位置を計算し、世界の境界を処理する
+  const confined = geometry.confine({
     x: position.x + Math.cos(newDirection) * params.speed,
     y: position.y + Math.sin(newDirection) * params.speed,
-  }
+  }, newDirection)
 
-  return {
-    position: torusWrap(newPosition, worldWidth, worldHeight),
-    direction: newDirection,
-  }
+  return resolveObstacleCollision(
+    position,
+    confined.position,
+    confined.direction,
+    obstacles
+  )
 }
\ No newline at end of file
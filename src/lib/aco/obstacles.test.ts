@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createObstacleSet,
+  isBlocked,
+  obstacleSetToCells,
+  resolveObstacleCollision,
+} from './obstacles'
+import { moveAnt } from './movement'
+import { createWorldGeometry } from './geometry'
+import { createRng } from './random'
+import {
+  colonyPheromonesToMap,
+  createPheromoneGrid,
+  depositToGrid,
+  diffusePheromoneGrid,
+} from './pheromone-grid'
+import { createConfigGeometry, executeSimulationTick, type SimulationState } from './simulation-engine'
+import { createColonyMetrics } from './metrics'
+import { createSingleColony } from './colony'
+import { BehaviorTuningSchema, PopulationSchema, type SimulationConfig } from './types'
+
+describe('isBlocked', () => {
+  it('should report positions inside a wall cell', () => {
+    const obstacles = createObstacleSet([{ column: 10, row: 20 }])
+
+    expect(isBlocked(obstacles, { x: 100, y: 200 })).toBe(true)
+    expect(isBlocked(obstacles, { x: 109.9, y: 209.9 })).toBe(true)
+    expect(isBlocked(obstacles, { x: 110, y: 200 })).toBe(false)
+  })
+
+  it('should round-trip through the cell list', () => {
+    const cells = [{ column: 1, row: 2 }, { column: 3, row: 4 }]
+
+    expect(obstacleSetToCells(createObstacleSet(cells))).toEqual(cells)
+  })
+})
+
+describe('resolveObstacleCollision', () => {
+  it('should keep moves that do not enter a wall', () => {
+    const result = resolveObstacleCollision({ x: 95, y: 95 }, { x: 97, y: 95 }, 0, new Set())
+
+    expect(result).toEqual({ position: { x: 97, y: 95 }, direction: 0 })
+  })
+
+  it('should slide along a horizontal wall', () => {
+    // 下側（行10）が壁
+    const obstacles = createObstacleSet([{ column: 9, row: 10 }, { column: 10, row: 10 }])
+    const result = resolveObstacleCollision({ x: 95, y: 99 }, { x: 97, y: 101 }, Math.PI / 4, obstacles)
+
+    expect(result.position).toEqual({ x: 97, y: 99 })
+    expect(result.direction).toBeCloseTo(-Math.PI / 4)
+  })
+
+  it('should slide along a vertical wall', () => {
+    // 右側（列10）が壁
+    const obstacles = createObstacleSet([{ column: 10, row: 9 }, { column: 10, row: 10 }])
+    const result = resolveObstacleCollision({ x: 99, y: 95 }, { x: 101, y: 97 }, Math.PI / 4, obstacles)
+
+    expect(result.position).toEqual({ x: 99, y: 97 })
+    expect(result.direction).toBeCloseTo((3 * Math.PI) / 4)
+  })
+
+  it('should turn around in a corner', () => {
+    const obstacles = createObstacleSet([
+      { column: 10, row: 9 },
+      { column: 9, row: 10 },
+      { column: 10, row: 10 },
+    ])
+    const result = resolveObstacleCollision({ x: 99, y: 99 }, { x: 101, y: 101 }, Math.PI / 4, obstacles)
+
+    expect(result.position).toEqual({ x: 99, y: 99 })
+    expect(result.direction).toBeCloseTo((5 * Math.PI) / 4)
+  })
+
+  it('should lead an ant inside a wall towards the nearest open cell', () => {
+    // 列9〜11・行9〜11 が壁で、アリは中央のセルにいる
+    const obstacles = createObstacleSet(
+      [9, 10, 11].flatMap(column => [9, 10, 11].map(row => ({ column, row })))
+    )
+    const result = resolveObstacleCollision({ x: 105, y: 118 }, { x: 107, y: 118 }, 0, obstacles)
+
+    expect(result.position.x).toBeCloseTo(105)
+    expect(result.position.y).toBeCloseTo(120)
+    expect(result.direction).toBeCloseTo(Math.PI / 2)
+  })
+
+  it('should never let a moving ant enter a wall', () => {
+    const obstacles = createObstacleSet(
+      Array.from({ length: 60 }, (_, row) => ({ column: 50, row }))
+    )
+    const rng = createRng(7)
+    let position = { x: 480, y: 300 }
+    let direction = 0
+
+    for (let i = 0; i < 500; i++) {
+      const result = moveAnt(position, direction, createWorldGeometry('torus', 800, 600), rng, { speed: 2, randomTurnRange: 0.5 }, obstacles)
+      expect(isBlocked(obstacles, result.position)).toBe(false)
+      position = result.position
+      direction = result.direction
+    }
+  })
+})
+
+describe('obstacles and pheromone', () => {
+  const config: SimulationConfig = {
+    worldWidth: 800,
+    worldHeight: 600,
+    antCount: 1,
+    pheromoneDecayRate: 0.99,
+    pheromoneDepositAmount: 2,
+    pheromoneTrackingStrength: 0.7,
+    speed: 1,
+    pheromoneDecayInterval: 10,
+    homingMode: 'omniscient',
+    pheromoneDiffusionRate: 0,
+    pheromoneDiffusionKernel: 'von-neumann',
+    evaporationModel: 'logarithmic',
+    topology: 'torus',
+    behaviorPolicy: 'default',
+    pheromoneAlpha: 1,
+    pheromoneBeta: 2,
+    pheromoneSensorCount: 3,
+    pheromoneSensorAngle: Math.PI / 4,
+    ...BehaviorTuningSchema.parse({}),
+    ...PopulationSchema.parse({}),
+  }
+
+  it('should not deposit pheromone inside a wall', () => {
+    // 餌を運ぶアリが巣へ向かう途中の進路をすべて壁にする
+    const obstacles = createObstacleSet(
+      Array.from({ length: 80 }, (_, column) => ({ column, row: 30 }))
+    )
+    const state: SimulationState = {
+      ants: [{
+        id: 'ant-0',
+        position: { x: 400, y: 295 },
+        hasFood: true,
+        targetFood: null,
+        direction: Math.PI / 2,
+        foodAmount: 1,
+        colonyId: 'colony-0',
+      }],
+      foods: [],
+      pheromones: new Map(),
+      colonies: createSingleColony({ x: 400, y: 500 }),
+      obstacles,
+      rngState: 1,
+      tick: 0,
+      metrics: createColonyMetrics(),
+      colonyMetrics: {},
+    }
+
+    let current = state
+    for (let i = 0; i < 20; i++) {
+      current = executeSimulationTick(config, current)
+    }
+
+    const pheromones = colonyPheromonesToMap(current.pheromones, createConfigGeometry(config))
+    expect(pheromones.size).toBeGreaterThan(0)
+    pheromones.forEach(pheromone => {
+      expect(isBlocked(obstacles, pheromone.position)).toBe(false)
+    })
+  })
+
+  it('should bring food home around a wall between the food and the nest', () => {
+    const obstacles = createObstacleSet(
+      Array.from({ length: 21 }, (_, i) => ({ column: 30, row: 20 + i }))
+    )
+    const state: SimulationState = {
+      ants: [{
+        id: 'ant-0',
+        position: { x: 250, y: 300 },
+        hasFood: false,
+        targetFood: null,
+        direction: 0,
+        foodAmount: null,
+        colonyId: 'colony-0',
+      }],
+      foods: [{ id: 'food-0', position: { x: 250, y: 300 }, amount: 10 }],
+      pheromones: new Map(),
+      colonies: createSingleColony({ x: 400, y: 300 }),
+      obstacles,
+      rngState: 1,
+      tick: 0,
+      metrics: createColonyMetrics(),
+      colonyMetrics: {},
+    }
+
+    let current = executeSimulationTick(config, state)
+    expect(current.ants[0].hasFood).toBe(true)
+
+    for (let i = 0; i < 300 && current.metrics.totalFoodCollected === 0; i++) {
+      current = executeSimulationTick(config, current)
+      expect(isBlocked(obstacles, current.ants[0].position)).toBe(false)
+    }
+
+    expect(current.metrics.totalFoodCollected).toBe(1)
+  })
+
+  it('should let ants out of a wall painted over their nest', () => {
+    // 巣を囲む 3x3 のセルを壁にする
+    const obstacles = createObstacleSet(
+      [39, 40, 41].flatMap(column => [29, 30, 31].map(row => ({ column, row })))
+    )
+    const state: SimulationState = {
+      ants: Array.from({ length: 20 }, (_, i) => ({
+        id: `ant-${i}`,
+        position: { x: 405, y: 305 },
+        hasFood: false,
+        targetFood: null,
+        direction: (i / 20) * Math.PI * 2,
+        foodAmount: null,
+        colonyId: 'colony-0',
+      })),
+      foods: [],
+      pheromones: new Map(),
+      colonies: createSingleColony({ x: 405, y: 305 }),
+      obstacles,
+      rngState: 1,
+      tick: 0,
+      metrics: createColonyMetrics(),
+      colonyMetrics: {},
+    }
+
+    let current = state
+    for (let i = 0; i < 50; i++) {
+      current = executeSimulationTick(config, current)
+    }
+
+    current.ants.forEach(ant => expect(isBlocked(obstacles, ant.position)).toBe(false))
+  })
+
+  it('should not diffuse pheromone into a wall', () => {
+    const grid = createPheromoneGrid(createWorldGeometry('torus', 100, 100))
+    const obstacles = createObstacleSet([{ column: 6, row: 5 }])
+    depositToGrid(grid, { x: 55, y: 55 }, 'toFood', 40)
+
+    diffusePheromoneGrid(grid, 0.3, 'von-neumann', obstacles)
+
+    const layer = grid.layers.toFood
+    const total = layer.reduce((sum, value) => sum + value, 0)
+    expect(layer[5 * grid.columns + 6]).toBe(0)
+    expect(layer[5 * grid.columns + 4]).toBeCloseTo(4)
+    expect(total).toBeCloseTo(40)
+  })
+})
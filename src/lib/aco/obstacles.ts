@@ -0,0 +1,161 @@
+import type { ObstacleCell, Position } from './types'
+import type { MovementResult } from './movement'
+import { ANT_CONSTANTS, PHEROMONE_CONSTANTS } from './constants'
+
+/**
+ * 障害物レイヤー
+ * フェロモングリッドと同じセルサイズで、壁になっているセルのキー（"列,行"）を保持する
+ */
+export type ObstacleSet = ReadonlySet<string>
+
+/** 障害物のない空のレイヤー */
+export const EMPTY_OBSTACLES: ObstacleSet = new Set()
+
+/**
+ * セル座標から障害物キーを生成
+ * @param column 列
+ * @param row 行
+ * @returns 障害物キー
+ */
+export const createObstacleCellKey = (column: number, row: number): string =>
+  `${column},${row}`
+
+/**
+ * 位置を含むセルの障害物キーを生成
+ * @param position 位置
+ * @returns 障害物キー
+ */
+export const createObstacleKey = (position: Position): string =>
+  createObstacleCellKey(
+    Math.floor(position.x / PHEROMONE_CONSTANTS.GRID_CELL_SIZE),
+    Math.floor(position.y / PHEROMONE_CONSTANTS.GRID_CELL_SIZE)
+  )
+
+/**
+ * 位置が壁の中かどうかを判定
+ * @param obstacles 障害物レイヤー
+ * @param position 位置
+ * @returns 壁の中であれば true
+ */
+export const isBlocked = (obstacles: ObstacleSet, position: Position): boolean =>
+  obstacles.size > 0 && obstacles.has(createObstacleKey(position))
+
+/**
+ * セル座標のリストから障害物レイヤーを作成
+ * @param cells 壁にするセルのリスト
+ * @returns 障害物レイヤー
+ */
+export const createObstacleSet = (cells: ObstacleCell[]): Set<string> =>
+  new Set(cells.map(cell => createObstacleCellKey(cell.column, cell.row)))
+
+/**
+ * 障害物レイヤーをセル座標のリストに変換
+ * @param obstacles 障害物レイヤー
+ * @returns セル座標のリスト
+ */
+export const obstacleSetToCells = (obstacles: ObstacleSet): ObstacleCell[] =>
+  Array.from(obstacles, (key) => {
+    const [column, row] = key.split(',').map(Number)
+    return { column, row }
+  })
+
+/**
+ * 最も近い壁でないセルの中心を探す
+ * 位置を含むセルから外側へ1セルずつ広げて探し、範囲内になければ null を返す
+ */
+const findNearestOpenCell = (obstacles: ObstacleSet, position: Position): Position | null => {
+  const cellSize = PHEROMONE_CONSTANTS.GRID_CELL_SIZE
+  const column = Math.floor(position.x / cellSize)
+  const row = Math.floor(position.y / cellSize)
+
+  for (let radius = 1; radius <= ANT_CONSTANTS.WALL_ESCAPE_SEARCH_CELLS; radius++) {
+    let nearest: Position | null = null
+    let nearestDistance = Infinity
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        // 内側のセルは前の半径で調べ済み
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) continue
+        // 負の座標のセルは世界の外
+        if (column + dx < 0 || row + dy < 0) continue
+        if (obstacles.has(createObstacleCellKey(column + dx, row + dy))) continue
+
+        const center = { x: (column + dx + 0.5) * cellSize, y: (row + dy + 0.5) * cellSize }
+        const distance = Math.hypot(center.x - position.x, center.y - position.y)
+        if (distance < nearestDistance) {
+          nearest = center
+          nearestDistance = distance
+        }
+      }
+    }
+    if (nearest) return nearest
+  }
+
+  return null
+}
+
+/**
+ * 壁の中から最も近い壁でないセルへ向かう
+ * 壁を後から塗られたアリが閉じ込められないよう、1歩分（最大でセル1つ分）だけ出口へ進む
+ */
+const escapeWall = (
+  from: Position,
+  to: Position,
+  direction: number,
+  obstacles: ObstacleSet
+): MovementResult => {
+  const exit = findNearestOpenCell(obstacles, from)
+  if (!exit) return { position: to, direction }
+
+  const heading = Math.atan2(exit.y - from.y, exit.x - from.x)
+  const step = Math.min(
+    Math.hypot(to.x - from.x, to.y - from.y),
+    PHEROMONE_CONSTANTS.GRID_CELL_SIZE,
+    Math.hypot(exit.x - from.x, exit.y - from.y)
+  )
+
+  return {
+    position: { x: from.x + Math.cos(heading) * step, y: from.y + Math.sin(heading) * step },
+    direction: heading,
+  }
+}
+
+/**
+ * 障害物との衝突を解決
+ * 移動先が壁の場合、壁に沿って滑る（進行方向の壁に垂直な成分を反転する）
+ * 滑ることもできない場合はその場で反転する
+ * 移動前の位置が既に壁の中であれば、最も近い壁でないセルへ向かう
+ * @param from 移動前の位置
+ * @param to 移動後の位置
+ * @param direction 移動方向
+ * @param obstacles 障害物レイヤー
+ * @returns 衝突を解決した位置と方向
+ */
+export const resolveObstacleCollision = (
+  from: Position,
+  to: Position,
+  direction: number,
+  obstacles: ObstacleSet
+): MovementResult => {
+  if (isBlocked(obstacles, from)) {
+    return escapeWall(from, to, direction, obstacles)
+  }
+
+  if (!isBlocked(obstacles, to)) {
+    return { position: to, direction }
+  }
+
+  // 縦方向が塞がれている場合は横に滑る
+  const slideX = { x: to.x, y: from.y }
+  if (!isBlocked(obstacles, slideX)) {
+    return { position: slideX, direction: -direction }
+  }
+
+  // 横方向が塞がれている場合は縦に滑る
+  const slideY = { x: from.x, y: to.y }
+  if (!isBlocked(obstacles, slideY)) {
+    return { position: slideY, direction: Math.PI - direction }
+  }
+
+  // 角に当たった場合は引き返す
+  return { position: from, direction: direction + Math.PI }
+}
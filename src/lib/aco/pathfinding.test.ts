@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_TRACKING_PARAMS, followPheromone, followStrongestPheromone } from './pathfinding'
+import { createPheromoneGrid, depositToGrid } from './pheromone-grid'
+import { createWorldGeometry } from './geometry'
+import { createRng } from './random'
+
+const geometry = createWorldGeometry('torus', 800, 600)
+const position = { x: 100, y: 100 }
+
+/** 正面に弱い、左前方（-π/4）に強いフェロモンがある状況 */
+const createGrid = () => {
+  const grid = createPheromoneGrid(geometry)
+  depositToGrid(grid, { x: 124, y: 100 }, 'toFood', 10)
+  depositToGrid(grid, { x: 114, y: 82 }, 'toFood', 100)
+  return grid
+}
+
+const countChoices = (alpha: number, beta: number) => {
+  const rng = createRng(7)
+  const grid = createGrid()
+  const params = { ...DEFAULT_TRACKING_PARAMS, detectionRadius: 10, alpha, beta }
+  const counts = new Map<number, number>()
+
+  for (let i = 0; i < 200; i++) {
+    const direction = followPheromone(position, grid, 'toFood', 0, rng, params)
+    counts.set(direction, (counts.get(direction) ?? 0) + 1)
+  }
+  return counts
+}
+
+describe('followPheromone', () => {
+  it('should keep the current direction when no sensor detects pheromone', () => {
+    const grid = createPheromoneGrid(geometry)
+
+    expect(followPheromone(position, grid, 'toFood', 1, createRng(1))).toBe(1)
+  })
+
+  it('should only choose among the sensor directions', () => {
+    const grid = createGrid()
+    const rng = createRng(3)
+    const params = { ...DEFAULT_TRACKING_PARAMS, sensorCount: 5 }
+    const sensors = [-2, -1, 0, 1, 2].map((i) => (i * Math.PI) / 8)
+
+    for (let i = 0; i < 50; i++) {
+      const direction = followPheromone(position, grid, 'toFood', 0, rng, params)
+      expect(sensors.some((sensor) => Math.abs(sensor - direction) < 1e-9)).toBe(true)
+    }
+  })
+
+  it('should pick sensors in proportion to τ^α·η^β', () => {
+    const trailHeavy = countChoices(4, 0)
+    const headingHeavy = countChoices(0.1, 5)
+
+    expect(trailHeavy.get(-Math.PI / 4) ?? 0).toBeGreaterThan(190)
+    expect(headingHeavy.get(0) ?? 0).toBeGreaterThan(headingHeavy.get(-Math.PI / 4) ?? 0)
+    // α = 1, β = 0 ではフェロモン濃度におおよそ比例する
+    const proportional = countChoices(1, 0)
+    expect(proportional.get(0)).toBeGreaterThan(0)
+    expect(proportional.get(-Math.PI / 4)).toBeGreaterThan(proportional.get(0)!)
+  })
+})
+
+describe('followStrongestPheromone', () => {
+  it('should always turn to the strongest sensor', () => {
+    expect(followStrongestPheromone(position, createGrid(), 'toFood', 0)).toBeCloseTo(-Math.PI / 4)
+  })
+
+  it('should miss a faint trail when the sensitivity is low', () => {
+    const grid = createPheromoneGrid(geometry)
+    depositToGrid(grid, { x: 114, y: 82 }, 'toFood', 2)
+    const dull = { ...DEFAULT_TRACKING_PARAMS, sensitivity: 0.01 }
+
+    expect(followStrongestPheromone(position, grid, 'toFood', 0)).toBeCloseTo(-Math.PI / 4)
+    expect(followStrongestPheromone(position, grid, 'toFood', 0, dull)).toBe(0)
+    expect(followPheromone(position, grid, 'toFood', 0, createRng(1), dull)).toBe(0)
+  })
+})
@@ -1,119 +1,150 @@
-import type { Position, Pheromone } from './types'
-import { torusDistance } from './geometry'
+import type { Position, PheromoneType } from './types'
+import type { WorldGeometry } from './geometry'
+import type { Rng } from './random'
+import { PHEROMONE_CONSTANTS } from './constants'
+import { sampleGrid, type PheromoneGrid } from './pheromone-grid'
 
 /**
  * フェロモン追跡のパラメータ
  */
 export type PheromoneTrackingParams = {
   readonly sensorDistance: number
+  /** 左右それぞれに広がるセンサーの角度（ラジアン） */
   readonly sensorAngle: number
+  /** センサーの数（左右 sensorAngle の範囲に等間隔で並ぶ） */
+  readonly sensorCount: number
   readonly detectionRadius: number
   readonly minimumStrength: number
+  /** フェロモン濃度 τ の重み指数 */
+  readonly alpha: number
+  /** 向きの好み η の重み指数 */
+  readonly beta: number
+  /** フェロモン感度（センサーが測った濃度 τ に掛ける倍率） */
+  readonly sensitivity: number
+}
+
+/** 既定のフェロモン追跡パラメータ */
+export const DEFAULT_TRACKING_PARAMS: PheromoneTrackingParams = {
+  sensorDistance: PHEROMONE_CONSTANTS.SENSOR_DISTANCE,
+  sensorAngle: PHEROMONE_CONSTANTS.SENSOR_ANGLE,
+  sensorCount: PHEROMONE_CONSTANTS.SENSOR_COUNT,
+  detectionRadius: PHEROMONE_CONSTANTS.DETECTION_RADIUS,
+  minimumStrength: PHEROMONE_CONSTANTS.MIN_TRACKING_STRENGTH,
+  alpha: PHEROMONE_CONSTANTS.DEFAULT_ALPHA,
+  beta: PHEROMONE_CONSTANTS.DEFAULT_BETA,
+  sensitivity: 1,
 }
 
 /**
- * フェロモンを追跡して進行方向を決定
- * 3つのセンサー（左、中央、右）でフェロモン濃度を測定し、
- * 最も濃度が高い方向に進む
+ * 各センサーの向き（現在の方向からのずれ）とフェロモン強度を測定
+ * 強度は感度を掛けた値で、感度の低いアリほど薄い道しるべを検出できない
+ */
+const senseTrail = (
+  position: Position,
+  grid: PheromoneGrid,
+  targetType: PheromoneType,
+  direction: number,
+  params: PheromoneTrackingParams
+): { offsets: number[]; strengths: number[] } => {
+  const offsets = params.sensorCount > 1
+    ? Array.from({ length: params.sensorCount }, (_, i) =>
+        -params.sensorAngle + (2 * params.sensorAngle * i) / (params.sensorCount - 1))
+    : [0]
+  
+  // 検出半径内のセルのみを走査して総フェロモン強度を計算
+  const strengths = offsets.map((offset) => sampleGrid(
+    grid,
+    {
+      x: position.x + Math.cos(direction + offset) * params.sensorDistance,
+      y: position.y + Math.sin(direction + offset) * params.sensorDistance,
+    },
+    targetType,
+    params.detectionRadius
+  ) * params.sensitivity)
+  
+  return { offsets, strengths }
+}
+
+/**
+ * フェロモンを追跡して進行方向を決定（Ant System の遷移規則）
+ * 各センサーの重みを τ^α·η^β とし、重みに比例した確率（ルーレット選択）で方向を選ぶ
+ * τ はセンサー位置のフェロモン濃度、η は今の向きとの揃い具合（正面で1、真横で0.5）
  * @param position 現在位置
- * @param pheromones フェロモンマップ
+ * @param grid フェロモングリッド
  * @param targetType 追跡するフェロモンタイプ
  * @param direction 現在の方向
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param rng 擬似乱数生成器
  * @param params フェロモン追跡パラメータ
  * @returns 新しい進行方向（フェロモンが検出されない場合は元の方向）
  */
 export const followPheromone = (
   position: Position,
-  pheromones: Map<string, Pheromone>,
-  targetType: 'toFood' | 'toNest',
+  grid: PheromoneGrid,
+  targetType: PheromoneType,
   direction: number,
-  worldWidth: number,
-  worldHeight: number,
-  params: PheromoneTrackingParams = {
-    sensorDistance: 20,
-    sensorAngle: Math.PI / 4,
-    detectionRadius: 30,
-    minimumStrength: 0.1
-  }
+  rng: Rng,
+  params: PheromoneTrackingParams = DEFAULT_TRACKING_PARAMS
 ): number => {
-  // 3つのセンサーの角度を設定（左、中央、右）
-  const sensors = [
-    direction - params.sensorAngle,  // 左センサー
-    direction,                       // 中央センサー
-    direction + params.sensorAngle,  // 右センサー
-  ]
+  const { offsets, strengths } = senseTrail(position, grid, targetType, direction, params)
   
-  // 各センサー位置でのフェロモン強度を測定
-  const sensorStrengths = sensors.map((angle) => {
-    // センサーの位置を計算
-    const sensorPos = {
-      x: position.x + Math.cos(angle) * params.sensorDistance,
-      y: position.y + Math.sin(angle) * params.sensorDistance,
-    }
-    
-    // この位置での総フェロモン強度を計算
-    let totalStrength = 0
-    pheromones.forEach((pheromone) => {
-      // 指定されたタイプのフェロモンのみを考慮
-      if (pheromone.type === targetType) {
-        const distance = torusDistance(
-          sensorPos, 
-          pheromone.position, 
-          worldWidth, 
-          worldHeight
-        )
-        
-        // 検出半径内のフェロモンのみを考慮
-        if (distance < params.detectionRadius) {
-          // 距離に応じて強度を減衰（近いほど強い影響）
-          totalStrength += pheromone.intensity / (1 + distance)
-        }
-      }
-    })
-    
-    return totalStrength
-  })
+  // どのセンサーにも十分なフェロモンがなければ元の方向を維持
+  if (Math.max(...strengths) <= params.minimumStrength) return direction
   
-  // 最も強いフェロモンを検出したセンサーを特定
-  const maxIndex = sensorStrengths.indexOf(Math.max(...sensorStrengths))
+  const weights = strengths.map((strength, i) =>
+    strength ** params.alpha * ((1 + Math.cos(offsets[i])) / 2) ** params.beta)
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  if (total <= 0) return direction
   
-  // 十分な強度のフェロモンが検出された場合、その方向に進む
-  if (sensorStrengths[maxIndex] > params.minimumStrength) {
-    return sensors[maxIndex]
+  // ルーレット選択
+  let threshold = rng.next() * total
+  for (let i = 0; i < weights.length; i++) {
+    threshold -= weights[i]
+    if (threshold < 0) return direction + offsets[i]
   }
+  return direction + offsets[offsets.length - 1]
+}
+
+/**
+ * 最も濃いフェロモンを検出したセンサーの方向へ進む（決定的な追跡）
+ * @param position 現在位置
+ * @param grid フェロモングリッド
+ * @param targetType 追跡するフェロモンタイプ
+ * @param direction 現在の方向
+ * @param params フェロモン追跡パラメータ（α と β は使わない）
+ * @returns 新しい進行方向（フェロモンが検出されない場合は元の方向）
+ */
+export const followStrongestPheromone = (
+  position: Position,
+  grid: PheromoneGrid,
+  targetType: PheromoneType,
+  direction: number,
+  params: PheromoneTrackingParams = DEFAULT_TRACKING_PARAMS
+): number => {
+  const { offsets, strengths } = senseTrail(position, grid, targetType, direction, params)
+  const maxIndex = strengths.indexOf(Math.max(...strengths))
   
-  // フェロモンが検出されない場合は元の方向を維持
-  return direction
+  return strengths[maxIndex] > params.minimumStrength ? direction + offsets[maxIndex] : direction
 }
 
 /**
  * 最も近い目標を見つける
  * @param position 現在位置
  * @param targets 目標のリスト
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
  * @param maxDistance 最大検索距離（省略時は無制限）
  * @returns 最も近い目標（見つからない場合はnull）
  */
 export const findNearestTarget = <T extends { position: Position }>(
   position: Position,
   targets: T[],
-  worldWidth: number,
-  worldHeight: number,
+  geometry: WorldGeometry,
   maxDistance?: number
 ): T | null => {
   let nearest: T | null = null
   let minDistance = maxDistance ?? Infinity
   
   targets.forEach(target => {
-    const distance = torusDistance(
-      position, 
-      target.position, 
-      worldWidth, 
-      worldHeight
-    )
+    const distance = geometry.distance(position, target.position)
     
     if (distance < minDistance) {
       nearest = target
@@ -129,24 +160,17 @@ export const findNearestTarget = <T extends { position: Position }>(
  * @param position 中心位置
  * @param targets 目標のリスト
  * @param radius 検索半径
- * @param worldWidth 世界の幅
- * @param worldHeight 世界の高さ
+ * @param geometry 世界の形状
  * @returns 半径内の目標のリスト
  */
 export const getTargetsInRadius = <T extends { position: Position }>(
   position: Position,
   targets: T[],
   radius: number,
-  worldWidth: number,
-  worldHeight: number
+  geometry: WorldGeometry
 ): T[] => {
   return targets.filter(target => {
-    const distance = torusDistance(
-      position, 
-      target.position, 
-      worldWidth, 
-      worldHeight
-    )
+    const distance = geometry.distance(position, target.position)
     return distance <= radius
   })
 }
\ No newline at end of file
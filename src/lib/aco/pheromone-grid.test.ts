@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import {
+  colonyPheromonesToMap,
+  createColonyGrids,
+  createPheromoneGrid,
+  decayPheromoneGrid,
+  depositToGrid,
+  diffusePheromoneGrid,
+  getCellIndex,
+  pheromoneGridToMap,
+  pheromoneMapToColonyPheromones,
+  pheromoneMapToGrid,
+  sampleGrid,
+} from './pheromone-grid'
+import { createPheromoneKey, decayPheromones, depositPheromone, getPheromoneStrength } from './pheromone'
+import { createWorldGeometry } from './geometry'
+import type { Pheromone } from './types'
+
+const torus = createWorldGeometry('torus', 800, 600)
+
+const totalMass = (layer: Float32Array) => layer.reduce((sum, value) => sum + value, 0)
+
+describe('createPheromoneGrid', () => {
+  it('should size the grid from the cell size', () => {
+    const grid = createPheromoneGrid(torus, 10)
+
+    expect(grid.columns).toBe(80)
+    expect(grid.rows).toBe(60)
+    expect(grid.layers.toFood).toHaveLength(4800)
+    expect(grid.layers.toNest).toHaveLength(4800)
+  })
+
+  it('should start from a copy of layers that fit the grid', () => {
+    const source = createPheromoneGrid(torus, 10)
+    depositToGrid(source, { x: 105, y: 105 }, 'toFood', 4)
+
+    const grid = createPheromoneGrid(torus, 10, source.layers)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 1)
+
+    expect(grid.layers.toFood[getCellIndex(grid, { x: 105, y: 105 })]).toBe(5)
+    expect(source.layers.toFood[getCellIndex(source, { x: 105, y: 105 })]).toBe(4)
+    expect(totalMass(createPheromoneGrid(torus, 20, source.layers).layers.toFood)).toBe(0)
+  })
+})
+
+describe('depositToGrid', () => {
+  it('should keep layers independent', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 5)
+
+    const index = getCellIndex(grid, { x: 105, y: 105 })
+    expect(grid.layers.toFood[index]).toBe(5)
+    expect(grid.layers.toNest[index]).toBe(0)
+  })
+
+  it('should cap intensity at the maximum', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 80)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 80)
+
+    expect(grid.layers.toFood[getCellIndex(grid, { x: 105, y: 105 })]).toBe(100)
+  })
+
+  it('should wrap positions outside the world', () => {
+    const grid = createPheromoneGrid(torus)
+
+    expect(getCellIndex(grid, { x: -5, y: -5 })).toBe(getCellIndex(grid, { x: 795, y: 595 }))
+  })
+})
+
+describe('sampleGrid', () => {
+  it('should match the map-based strength calculation', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 20)
+    pheromones = depositPheromone(pheromones, { x: 120, y: 110 }, 'toFood', 10)
+    const grid = pheromoneMapToGrid(pheromones, torus)
+
+    const position = { x: 110, y: 105 }
+    expect(sampleGrid(grid, position, 'toFood', 30)).toBeCloseTo(
+      getPheromoneStrength(pheromones, position, 'toFood'),
+      5
+    )
+  })
+
+  it('should sense pheromone across the world edge', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 795, y: 300 }, 'toFood', 50)
+
+    expect(sampleGrid(grid, { x: 2, y: 300 }, 'toFood', 30)).toBeGreaterThan(0)
+  })
+})
+
+describe('decayPheromoneGrid', () => {
+  it('should apply the same evaporation as the map implementation', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 50)
+    pheromones = depositPheromone(pheromones, { x: 300, y: 300 }, 'toNest', 0.12)
+    const grid = pheromoneMapToGrid(pheromones, torus)
+
+    decayPheromoneGrid(grid, 0.95)
+    const expected = decayPheromones(pheromones, 0.95)
+    const actual = pheromoneGridToMap(grid)
+
+    expect(actual.size).toBe(expected.size)
+    expected.forEach((pheromone, key) => {
+      expect(actual.get(key)?.intensity).toBeCloseTo(pheromone.intensity, 4)
+    })
+  })
+})
+
+describe('diffusePheromoneGrid', () => {
+  it('should bleed into the four orthogonal neighbours with the von-neumann kernel', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 40)
+
+    diffusePheromoneGrid(grid, 0.4, 'von-neumann')
+
+    const layer = grid.layers.toFood
+    expect(layer[getCellIndex(grid, { x: 105, y: 105 })]).toBeCloseTo(24)
+    expect(layer[getCellIndex(grid, { x: 115, y: 105 })]).toBeCloseTo(4)
+    expect(layer[getCellIndex(grid, { x: 105, y: 95 })]).toBeCloseTo(4)
+    expect(layer[getCellIndex(grid, { x: 115, y: 115 })]).toBe(0)
+  })
+
+  it('should include diagonal neighbours with the moore kernel', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 40)
+
+    diffusePheromoneGrid(grid, 0.4, 'moore')
+
+    expect(grid.layers.toFood[getCellIndex(grid, { x: 115, y: 115 })]).toBeCloseTo(2)
+  })
+
+  it('should conserve mass and wrap across the world edge', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 5, y: 5 }, 'toNest', 30)
+
+    diffusePheromoneGrid(grid, 0.5, 'moore')
+
+    expect(totalMass(grid.layers.toNest)).toBeCloseTo(30, 4)
+    expect(grid.layers.toNest[getCellIndex(grid, { x: 795, y: 595 })]).toBeGreaterThan(0)
+  })
+
+  it('should leave the grid unchanged when the rate is zero', () => {
+    const grid = createPheromoneGrid(torus)
+    depositToGrid(grid, { x: 105, y: 105 }, 'toFood', 40)
+
+    diffusePheromoneGrid(grid, 0, 'moore')
+
+    expect(totalMass(grid.layers.toFood)).toBe(40)
+  })
+})
+
+describe('pheromoneGridToMap', () => {
+  it('should round-trip through the map adapter', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 4)
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toNest', 2)
+
+    const result = pheromoneGridToMap(pheromoneMapToGrid(pheromones, torus))
+
+    expect(result).toEqual(pheromones)
+    expect(result.get(createPheromoneKey({ x: 100, y: 100 }, 'toNest'))?.intensity).toBe(2)
+  })
+})
+
+describe('createColonyGrids', () => {
+  it('should give every listed colony its own copy of its layers', () => {
+    const pheromones = pheromoneMapToColonyPheromones(
+      new Map([
+        ['a', { position: { x: 105, y: 105 }, intensity: 3, type: 'toFood' as const, colonyId: 'colony-0' }],
+      ]),
+      torus,
+      ['colony-0']
+    )
+
+    const grids = createColonyGrids(pheromones, torus, ['colony-0', 'colony-1'])
+    depositToGrid(grids.get('colony-0')!, { x: 105, y: 105 }, 'toFood', 1)
+
+    expect(totalMass(grids.get('colony-0')!.layers.toFood)).toBe(4)
+    expect(totalMass(grids.get('colony-1')!.layers.toFood)).toBe(0)
+    expect(Array.from(colonyPheromonesToMap(pheromones, torus).values())).toEqual([
+      { position: { x: 105, y: 105 }, intensity: 3, type: 'toFood', colonyId: 'colony-0' },
+    ])
+  })
+})
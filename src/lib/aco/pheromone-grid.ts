@@ -0,0 +1,397 @@
+import type {
+  DiffusionKernel,
+  EvaporationModelId,
+  Position,
+  Pheromone,
+  PheromoneType,
+} from './types'
+import { PheromoneTypeSchema } from './types'
+import { COLONY_CONSTANTS, PHEROMONE_CONSTANTS } from './constants'
+import type { WorldGeometry } from './geometry'
+import { createPheromoneKey } from './pheromone'
+import { getEvaporationModel } from './evaporation'
+import { EMPTY_OBSTACLES, createObstacleCellKey, type ObstacleSet } from './obstacles'
+
+/**
+ * タイプごとのフェロモン強度の層
+ * 各層はセル単位の強度を行優先で並べた Float32Array
+ */
+export type PheromoneLayers = Record<PheromoneType, Float32Array>
+
+/**
+ * コロニーIDごとのフェロモン層
+ * シミュレーション状態が保持する形式で、関数を含まないためワーカーとの間でそのまま受け渡せる
+ */
+export type ColonyPheromones = Map<string, PheromoneLayers>
+
+/**
+ * 密なフェロモングリッド
+ * タイプごとに Float32Array のレイヤーを持ち、セル単位で強度を保持する
+ * 端のセルの扱い（折り返すかどうか）は世界の形状に従う
+ */
+export type PheromoneGrid = {
+  readonly columns: number
+  readonly rows: number
+  readonly cellSize: number
+  readonly geometry: WorldGeometry
+  readonly layers: PheromoneLayers
+}
+
+/**
+ * フェロモンの放出内容
+ */
+export type PheromoneDeposit = {
+  readonly position: Position
+  readonly type: PheromoneType
+  readonly amount: number
+}
+
+/**
+ * フェロモングリッドを作成
+ * @param geometry 世界の形状
+ * @param cellSize セルサイズ
+ * @param source 初期値として複製する層（大きさがグリッドと合わない層は空で始める）
+ * @returns グリッド
+ */
+export const createPheromoneGrid = (
+  geometry: WorldGeometry,
+  cellSize: number = PHEROMONE_CONSTANTS.GRID_CELL_SIZE,
+  source?: PheromoneLayers
+): PheromoneGrid => {
+  const columns = Math.ceil(geometry.width / cellSize)
+  const rows = Math.ceil(geometry.height / cellSize)
+  const layers = {} as PheromoneLayers
+
+  PheromoneTypeSchema.options.forEach((type) => {
+    const sourceLayer = source?.[type]
+    layers[type] = sourceLayer?.length === columns * rows
+      ? sourceLayer.slice()
+      : new Float32Array(columns * rows)
+  })
+
+  return { columns, rows, cellSize, geometry, layers }
+}
+
+/**
+ * セル座標をグリッド内に解決する
+ * 対応するセルがない場合（境界のある世界の外側）は最も近い端のセルを使う
+ */
+const resolveCellOrEdge = (grid: PheromoneGrid, cell: number, size: number): number =>
+  grid.geometry.resolveCell(cell, size) ?? Math.min(size - 1, Math.max(0, cell))
+
+/**
+ * 位置に対応するセルのインデックスを取得
+ * @param grid グリッド
+ * @param position 位置
+ * @returns セルのインデックス
+ */
+export const getCellIndex = (grid: PheromoneGrid, position: Position): number => {
+  const column = resolveCellOrEdge(grid, Math.floor(position.x / grid.cellSize), grid.columns)
+  const row = resolveCellOrEdge(grid, Math.floor(position.y / grid.cellSize), grid.rows)
+  return row * grid.columns + column
+}
+
+/**
+ * セルの中心位置を取得
+ * @param grid グリッド
+ * @param index セルのインデックス
+ * @returns セルの中心位置
+ */
+export const getCellCenter = (grid: PheromoneGrid, index: number): Position => ({
+  x: (index % grid.columns) * grid.cellSize + grid.cellSize / 2,
+  y: Math.floor(index / grid.columns) * grid.cellSize + grid.cellSize / 2,
+})
+
+/**
+ * フェロモンをグリッドに放出（グリッドを直接更新する）
+ * @param grid グリッド
+ * @param position 放出位置
+ * @param type フェロモンタイプ
+ * @param amount 放出量
+ */
+export const depositToGrid = (
+  grid: PheromoneGrid,
+  position: Position,
+  type: PheromoneType,
+  amount: number
+): void => {
+  const layer = grid.layers[type]
+  const index = getCellIndex(grid, position)
+  layer[index] = Math.min(PHEROMONE_CONSTANTS.MAX_INTENSITY, layer[index] + amount)
+}
+
+/**
+ * 指定位置の周囲のフェロモン強度を測定
+ * 半径内のセルのみを走査するため、計算量はフェロモンの総数に依存しない
+ * 境界のある世界では、世界の外側のセルは無視する
+ * @param grid グリッド
+ * @param position 測定位置
+ * @param type フェロモンタイプ
+ * @param radius 検出半径
+ * @returns 距離で重み付けした強度の合計
+ */
+export const sampleGrid = (
+  grid: PheromoneGrid,
+  position: Position,
+  type: PheromoneType,
+  radius: number
+): number => {
+  const layer = grid.layers[type]
+  const centerColumn = Math.floor(position.x / grid.cellSize)
+  const centerRow = Math.floor(position.y / grid.cellSize)
+  const cellRadius = Math.ceil(radius / grid.cellSize)
+  let totalStrength = 0
+
+  for (let dy = -cellRadius; dy <= cellRadius; dy++) {
+    const row = grid.geometry.resolveCell(centerRow + dy, grid.rows)
+    if (row === null) continue
+    for (let dx = -cellRadius; dx <= cellRadius; dx++) {
+      const column = grid.geometry.resolveCell(centerColumn + dx, grid.columns)
+      if (column === null) continue
+      const intensity = layer[row * grid.columns + column]
+      if (intensity <= 0) continue
+
+      const cellCenter = {
+        x: column * grid.cellSize + grid.cellSize / 2,
+        y: row * grid.cellSize + grid.cellSize / 2,
+      }
+      const distance = grid.geometry.distance(position, cellCenter)
+
+      // 距離に応じて強度を減衰（近いほど強い影響）
+      if (distance < radius) {
+        totalStrength += intensity / (1 + distance)
+      }
+    }
+  }
+
+  return totalStrength
+}
+
+/**
+ * グリッド全体のフェロモンを減衰（グリッドを直接更新する）
+ * @param grid グリッド
+ * @param decayRate 減衰率
+ * @param model 蒸発モデル
+ */
+export const decayPheromoneGrid = (
+  grid: PheromoneGrid,
+  decayRate: number,
+  model: EvaporationModelId = 'logarithmic'
+): void => {
+  const { evaporate } = getEvaporationModel(model)
+
+  PheromoneTypeSchema.options.forEach((type) => {
+    const layer = grid.layers[type]
+    for (let i = 0; i < layer.length; i++) {
+      if (layer[i] > 0) {
+        layer[i] = evaporate(layer[i], decayRate)
+      }
+    }
+  })
+}
+
+/**
+ * フェロモンを近傍セルへ拡散（グリッドを直接更新する）
+ * 各セルは強度の rate 割合を近傍セルへ均等に分配する（総量は保存される）
+ * 壁のセルや、境界のある世界の外側には拡散しない
+ * @param grid グリッド
+ * @param rate 拡散率（0: 拡散なし 〜 1: すべて近傍へ移動）
+ * @param kernel 近傍の種類
+ * @param obstacles 障害物レイヤー
+ */
+export const diffusePheromoneGrid = (
+  grid: PheromoneGrid,
+  rate: number,
+  kernel: DiffusionKernel,
+  obstacles: ObstacleSet = EMPTY_OBSTACLES
+): void => {
+  if (rate <= 0) return
+
+  // 近傍インデックスは全レイヤーで共通なので先に計算する
+  const neighborIndices = new Array<number[]>(grid.columns * grid.rows)
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      neighborIndices[row * grid.columns + column] = grid.geometry.neighbors(
+        column,
+        row,
+        grid.columns,
+        grid.rows,
+        kernel
+      )
+        .filter(neighbor => !obstacles.has(createObstacleCellKey(neighbor.column, neighbor.row)))
+        .map(neighbor => neighbor.row * grid.columns + neighbor.column)
+    }
+  }
+
+  PheromoneTypeSchema.options.forEach((type) => {
+    const layer = grid.layers[type]
+    const next = new Float32Array(layer.length)
+
+    for (let i = 0; i < layer.length; i++) {
+      const intensity = layer[i]
+      if (intensity <= 0) continue
+
+      const neighbors = neighborIndices[i]
+      if (neighbors.length === 0) {
+        next[i] += intensity
+        continue
+      }
+
+      const share = (intensity * rate) / neighbors.length
+      next[i] += intensity * (1 - rate)
+      for (let n = 0; n < neighbors.length; n++) {
+        next[neighbors[n]] += share
+      }
+    }
+
+    for (let i = 0; i < next.length; i++) {
+      next[i] = Math.min(PHEROMONE_CONSTANTS.MAX_INTENSITY, next[i])
+    }
+    layer.set(next)
+  })
+}
+
+/**
+ * Map形式のフェロモンからグリッドを構築
+ * ストアや描画処理が扱う Map 形式との変換用アダプター
+ * @param pheromones フェロモンマップ
+ * @param geometry 世界の形状
+ * @param colonyId 指定した場合はこのコロニーのフェロモンのみを含める
+ * @returns グリッド
+ */
+export const pheromoneMapToGrid = (
+  pheromones: Map<string, Pheromone>,
+  geometry: WorldGeometry,
+  colonyId?: string
+): PheromoneGrid => {
+  const grid = createPheromoneGrid(geometry)
+
+  pheromones.forEach((pheromone) => {
+    if (colonyId !== undefined && pheromone.colonyId !== colonyId) return
+    depositToGrid(grid, pheromone.position, pheromone.type, pheromone.intensity)
+  })
+
+  return grid
+}
+
+/**
+ * グリッドをMap形式のフェロモンに変換
+ * 強度が0のセルは含まない
+ * @param grid グリッド
+ * @param colonyId グリッドが属するコロニーのID
+ * @param pheromones 追加先のフェロモンマップ（省略時は新しく作成する）
+ * @returns フェロモンマップ
+ */
+export const pheromoneGridToMap = (
+  grid: PheromoneGrid,
+  colonyId: string = COLONY_CONSTANTS.DEFAULT_COLONY_ID,
+  pheromones: Map<string, Pheromone> = new Map()
+): Map<string, Pheromone> => {
+  PheromoneTypeSchema.options.forEach((type) => {
+    const layer = grid.layers[type]
+    for (let i = 0; i < layer.length; i++) {
+      if (layer[i] <= 0) continue
+
+      const position = getCellCenter(grid, i)
+      pheromones.set(createPheromoneKey(position, type, colonyId), {
+        position,
+        intensity: layer[i],
+        type,
+        colonyId,
+      })
+    }
+  })
+
+  return pheromones
+}
+
+/**
+ * コロニーごとのフェロモン層からグリッドを作成
+ * 層は複製するため、グリッドへの書き込みは元の状態に影響しない
+ * 一覧にないコロニーの層は含めず、層のないコロニーは空のグリッドで始める
+ * @param pheromones コロニーIDごとのフェロモン層
+ * @param geometry 世界の形状
+ * @param colonyIds コロニーIDの一覧
+ * @returns コロニーIDごとのグリッド
+ */
+export const createColonyGrids = (
+  pheromones: ColonyPheromones,
+  geometry: WorldGeometry,
+  colonyIds: string[]
+): Map<string, PheromoneGrid> =>
+  new Map(colonyIds.map(id => [
+    id,
+    createPheromoneGrid(geometry, PHEROMONE_CONSTANTS.GRID_CELL_SIZE, pheromones.get(id)),
+  ]))
+
+/**
+ * コロニーごとのグリッドから層を取り出す
+ * @param grids コロニーIDごとのグリッド
+ * @returns コロニーIDごとのフェロモン層
+ */
+export const colonyGridsToPheromones = (grids: Map<string, PheromoneGrid>): ColonyPheromones =>
+  new Map([...grids].map(([colonyId, grid]) => [colonyId, grid.layers]))
+
+/**
+ * Map形式のフェロモンをコロニーごとのグリッドに振り分ける
+ * 一覧にないコロニーのフェロモンは含めない
+ * @param pheromones フェロモンマップ
+ * @param geometry 世界の形状
+ * @param colonyIds コロニーIDの一覧
+ * @returns コロニーIDごとのグリッド
+ */
+export const pheromoneMapToColonyGrids = (
+  pheromones: Map<string, Pheromone>,
+  geometry: WorldGeometry,
+  colonyIds: string[]
+): Map<string, PheromoneGrid> => {
+  const grids = new Map(colonyIds.map(id => [id, createPheromoneGrid(geometry)]))
+
+  pheromones.forEach((pheromone) => {
+    const grid = grids.get(pheromone.colonyId)
+    if (grid) {
+      depositToGrid(grid, pheromone.position, pheromone.type, pheromone.intensity)
+    }
+  })
+
+  return grids
+}
+
+/**
+ * コロニーごとのグリッドをひとつのMap形式のフェロモンにまとめる
+ * @param grids コロニーIDごとのグリッド
+ * @returns フェロモンマップ
+ */
+export const colonyGridsToPheromoneMap = (grids: Map<string, PheromoneGrid>): Map<string, Pheromone> => {
+  const pheromones = new Map<string, Pheromone>()
+  grids.forEach((grid, colonyId) => pheromoneGridToMap(grid, colonyId, pheromones))
+  return pheromones
+}
+
+/**
+ * Map形式のフェロモンをコロニーごとのフェロモン層に変換
+ * 保存データなど Map 形式で受け取ったフェロモンを状態に戻すときに使う
+ * @param pheromones フェロモンマップ
+ * @param geometry 世界の形状
+ * @param colonyIds コロニーIDの一覧
+ * @returns コロニーIDごとのフェロモン層
+ */
+export const pheromoneMapToColonyPheromones = (
+  pheromones: Map<string, Pheromone>,
+  geometry: WorldGeometry,
+  colonyIds: string[]
+): ColonyPheromones =>
+  colonyGridsToPheromones(pheromoneMapToColonyGrids(pheromones, geometry, colonyIds))
+
+/**
+ * コロニーごとのフェロモン層をひとつのMap形式のフェロモンにまとめる
+ * 描画やスナップショット、保存など Map 形式を必要とする処理との境界で使う
+ * @param pheromones コロニーIDごとのフェロモン層
+ * @param geometry 世界の形状
+ * @returns フェロモンマップ
+ */
+export const colonyPheromonesToMap = (
+  pheromones: ColonyPheromones,
+  geometry: WorldGeometry
+): Map<string, Pheromone> =>
+  colonyGridsToPheromoneMap(createColonyGrids(pheromones, geometry, [...pheromones.keys()]))
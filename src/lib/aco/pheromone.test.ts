@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { createPheromoneKey, depositPheromone, getPheromoneStrength } from './pheromone'
+import type { Pheromone } from './types'
+
+describe('createPheromoneKey', () => {
+  it('should produce different keys for different types on the same cell', () => {
+    const position = { x: 123, y: 456 }
+
+    expect(createPheromoneKey(position, 'toFood')).not.toBe(
+      createPheromoneKey(position, 'toNest')
+    )
+  })
+
+  it('should produce the same key for positions in the same cell', () => {
+    expect(createPheromoneKey({ x: 101, y: 101 }, 'toFood')).toBe(
+      createPheromoneKey({ x: 109, y: 109 }, 'toFood')
+    )
+  })
+})
+
+describe('depositPheromone', () => {
+  it('should keep both trails when different types share a cell', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toNest', 5)
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 3)
+
+    expect(pheromones.size).toBe(2)
+    expect(pheromones.get(createPheromoneKey({ x: 100, y: 100 }, 'toNest'))).toMatchObject({
+      type: 'toNest',
+      intensity: 5,
+    })
+    expect(pheromones.get(createPheromoneKey({ x: 100, y: 100 }, 'toFood'))).toMatchObject({
+      type: 'toFood',
+      intensity: 3,
+    })
+  })
+
+  it('should accumulate deposits of the same type', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 3)
+    pheromones = depositPheromone(pheromones, { x: 105, y: 105 }, 'toFood', 4)
+
+    expect(pheromones.size).toBe(1)
+    expect(pheromones.get(createPheromoneKey({ x: 100, y: 100 }, 'toFood'))?.intensity).toBe(7)
+  })
+
+  it('should not modify the original map', () => {
+    const pheromones = new Map<string, Pheromone>()
+    depositPheromone(pheromones, { x: 100, y: 100 }, 'toFood', 3)
+
+    expect(pheromones.size).toBe(0)
+  })
+})
+
+describe('getPheromoneStrength', () => {
+  it('should only count the requested type', () => {
+    let pheromones = new Map<string, Pheromone>()
+    pheromones = depositPheromone(pheromones, { x: 100, y: 100 }, 'toNest', 50)
+
+    expect(getPheromoneStrength(pheromones, { x: 105, y: 105 }, 'toFood')).toBe(0)
+    expect(getPheromoneStrength(pheromones, { x: 105, y: 105 }, 'toNest')).toBeGreaterThan(0)
+  })
+})
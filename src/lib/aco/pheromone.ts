@@ -1,29 +1,46 @@
-import type { Position, Pheromone } from './types'
+import type { EvaporationModelId, Position, Pheromone, PheromoneType } from './types'
+import { getEvaporationModel } from './evaporation'
+import { COLONY_CONSTANTS, PHEROMONE_CONSTANTS } from './constants'
 
-export const createPheromoneKey = (position: Position): string => 
-  `${Math.floor(position.x / 10)},${Math.floor(position.y / 10)}`
+/**
+ * フェロモンマップのキーを生成
+ * コロニーとタイプごとに独立したレイヤーとして扱うため、セル座標にコロニーとタイプを含める
+ * @param position 位置
+ * @param type フェロモンタイプ
+ * @param colonyId コロニーID
+ * @returns `${colonyId}/${type}:${cellX},${cellY}` 形式のキー
+ */
+export const createPheromoneKey = (
+  position: Position,
+  type: PheromoneType,
+  colonyId: string = COLONY_CONSTANTS.DEFAULT_COLONY_ID
+): string =>
+  `${colonyId}/${type}:${Math.floor(position.x / PHEROMONE_CONSTANTS.GRID_CELL_SIZE)},${Math.floor(position.y / PHEROMONE_CONSTANTS.GRID_CELL_SIZE)}`
 
 export const depositPheromone = (
   pheromones: Map<string, Pheromone>,
   position: Position,
-  type: 'toFood' | 'toNest',
-  amount: number
+  type: PheromoneType,
+  amount: number,
+  colonyId: string = COLONY_CONSTANTS.DEFAULT_COLONY_ID
 ): Map<string, Pheromone> => {
-  const key = createPheromoneKey(position)
+  const key = createPheromoneKey(position, type, colonyId)
+  const cellSize = PHEROMONE_CONSTANTS.GRID_CELL_SIZE
   const existing = pheromones.get(key)
   
   const newPheromone: Pheromone = existing
     ? {
         ...existing,
-        intensity: Math.min(100, existing.intensity + amount),
+        intensity: Math.min(PHEROMONE_CONSTANTS.MAX_INTENSITY, existing.intensity + amount),
       }
     : {
         position: {
-          x: Math.floor(position.x / 10) * 10 + 5,
-          y: Math.floor(position.y / 10) * 10 + 5,
+          x: Math.floor(position.x / cellSize) * cellSize + cellSize / 2,
+          y: Math.floor(position.y / cellSize) * cellSize + cellSize / 2,
         },
         intensity: amount,
         type,
+        colonyId,
       }
   
   const newMap = new Map(pheromones)
@@ -33,35 +50,16 @@ export const depositPheromone = (
 
 export const decayPheromones = (
   pheromones: Map<string, Pheromone>,
-  decayRate: number
+  decayRate: number,
+  model: EvaporationModelId = 'logarithmic'
 ): Map<string, Pheromone> => {
   const newMap = new Map<string, Pheromone>()
+  const { evaporate } = getEvaporationModel(model)
   
   pheromones.forEach((pheromone, key) => {
-    // 対数関数的蒸発モデル
-    // 高濃度では多く蒸発し、低濃度では少なく蒸発する
-    // これにより、フェロモンが一定の濃度に収束しやすくなる
-    
-    // 対数関数による蒸発量の計算
-    // intensity が高いほど蒸発量が増える
-    const logFactor = Math.log10(pheromone.intensity + 1) / Math.log10(101) // 0〜1の範囲に正規化
-    
-    // decayRateパラメータを蒸発の強さとして使用
-    // decayRate = 0.9: 強い蒸発
-    // decayRate = 0.999: 弱い蒸発
-    const evaporationStrength = (1 - decayRate) * 10 // 0.01〜1.0の範囲
-    
-    // 対数的な蒸発量（高濃度ほど多く蒸発）
-    const logEvaporation = logFactor * evaporationStrength * pheromone.intensity
-    
-    // 最終的な蒸発計算（基本蒸発 + 対数的蒸発）
-    const baseEvaporation = 0.05 // 最小蒸発量
-    const totalEvaporation = baseEvaporation + logEvaporation
-    
-    const decayedIntensity = pheromone.intensity - totalEvaporation
+    const decayedIntensity = evaporate(pheromone.intensity, decayRate)
     
-    // しきい値
-    if (decayedIntensity > 0.1) {
+    if (decayedIntensity > 0) {
       newMap.set(key, {
         ...pheromone,
         intensity: decayedIntensity,
@@ -75,7 +73,8 @@ export const decayPheromones = (
 export const getPheromoneStrength = (
   pheromones: Map<string, Pheromone>,
   position: Position,
-  type: 'toFood' | 'toNest'
+  type: PheromoneType,
+  radius: number = PHEROMONE_CONSTANTS.DETECTION_RADIUS
 ): number => {
   let totalStrength = 0
   
@@ -85,7 +84,7 @@ export const getPheromoneStrength = (
       const dy = position.y - pheromone.position.y
       const distance = Math.sqrt(dx * dx + dy * dy)
       
-      if (distance < 30) {
+      if (distance < radius) {
         totalStrength += pheromone.intensity / (1 + distance)
       }
     }
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { createRng } from './random'
+
+describe('createRng', () => {
+  it('should return values in [0, 1)', () => {
+    const rng = createRng(42)
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('should produce the same sequence for the same seed', () => {
+    const a = createRng(12345)
+    const b = createRng(12345)
+
+    const sequenceA = Array.from({ length: 10 }, () => a.next())
+    const sequenceB = Array.from({ length: 10 }, () => b.next())
+
+    expect(sequenceA).toEqual(sequenceB)
+  })
+
+  it('should produce different sequences for different seeds', () => {
+    const a = createRng(1)
+    const b = createRng(2)
+
+    expect(a.next()).not.toBe(b.next())
+  })
+
+  it('should resume from a saved state', () => {
+    const rng = createRng(7)
+    rng.next()
+    rng.next()
+
+    const resumed = createRng(rng.getState())
+
+    expect(resumed.next()).toBe(rng.next())
+    expect(resumed.next()).toBe(rng.next())
+  })
+})
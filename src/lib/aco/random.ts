@@ -0,0 +1,43 @@
+/**
+ * シード可能な擬似乱数生成器
+ * mulberry32 アルゴリズムを使用し、内部状態を32bit整数1つで表現する
+ * 状態をシミュレーション状態に保持することで、同じシードから同じ結果を再現できる
+ */
+
+/**
+ * 擬似乱数生成器
+ */
+export type Rng = {
+  /** [0, 1) の一様乱数を返す */
+  readonly next: () => number
+  /** 現在の内部状態を返す（createRng に渡すと続きから再開できる） */
+  readonly getState: () => number
+}
+
+/**
+ * 擬似乱数生成器を作成
+ * @param state 内部状態（シード値、または getState で取得した値）
+ * @returns 擬似乱数生成器
+ */
+export const createRng = (state: number): Rng => {
+  let current = state >>> 0
+
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0
+      let t = current
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    },
+    getState: () => current,
+  }
+}
+
+/**
+ * ランダムなシード値を生成
+ * 再現性が不要な初回起動時などに使用する
+ * @returns 32bit符号なし整数のシード値
+ */
+export const createRandomSeed = (): number =>
+  Math.floor(Math.random() * 4294967296) >>> 0
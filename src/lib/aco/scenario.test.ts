@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ScenarioSchema,
+  createInitialState,
+  createScenario,
+  parseScenario,
+  serializeScenario,
+  type Scenario,
+} from './scenario'
+
+const scenario: Scenario = ScenarioSchema.parse({
+  version: 2,
+  config: {
+    worldWidth: 640,
+    worldHeight: 480,
+    antCount: 20,
+    pheromoneDecayRate: 0.99,
+    pheromoneDepositAmount: 2,
+    pheromoneTrackingStrength: 0.7,
+    speed: 1,
+    topology: 'bounded-reflect',
+    behaviorPolicy: 'default',
+    pheromoneAlpha: 1,
+    pheromoneBeta: 2,
+    pheromoneSensorCount: 3,
+    pheromoneSensorAngle: Math.PI / 4,
+  },
+  seed: 42,
+  colonies: [{ id: 'colony-0', nest: { x: 320, y: 240 }, color: '#FFFFFF' }],
+  foods: [{ id: 'food-a', position: { x: 100, y: 120 }, amount: 80 }],
+  obstacles: [{ column: 5, row: 6 }, { column: 5, row: 7 }],
+  randomFoodCount: 3,
+})
+
+describe('parseScenario', () => {
+  it('should round-trip through JSON exactly', () => {
+    const text = serializeScenario(scenario)
+
+    expect(parseScenario(text)).toEqual(scenario)
+    expect(serializeScenario(parseScenario(text))).toBe(text)
+  })
+
+  it('should fill in defaults for omitted fields', () => {
+    const parsed = parseScenario(JSON.stringify({
+      version: 2,
+      config: scenario.config,
+      seed: 1,
+      colonies: scenario.colonies,
+    }))
+
+    expect(parsed.foods).toEqual([])
+    expect(parsed.obstacles).toEqual([])
+    expect(parsed.randomFoodCount).toBe(0)
+  })
+
+  it('should migrate a version 1 scenario with a single nest', () => {
+    const parsed = parseScenario(JSON.stringify({
+      version: 1,
+      config: scenario.config,
+      seed: 1,
+      nest: { x: 10, y: 20 },
+    }))
+
+    expect(parsed.version).toBe(2)
+    expect(parsed.colonies).toEqual([{ id: 'colony-0', nest: { x: 10, y: 20 }, color: '#FFFFFF', storage: 0 }])
+  })
+
+  it('should reject unknown versions and invalid values', () => {
+    expect(() => parseScenario(serializeScenario({ ...scenario, version: 3 as 2 }))).toThrow()
+    expect(() => parseScenario(JSON.stringify({ ...scenario, seed: -1 }))).toThrow()
+    expect(() => parseScenario(JSON.stringify({ ...scenario, colonies: [] }))).toThrow()
+    expect(() => parseScenario('{')).toThrow()
+  })
+})
+
+describe('createInitialState', () => {
+  it('should place every ant at the nest and add scenario and random foods', () => {
+    const state = createInitialState(scenario)
+
+    expect(state.ants).toHaveLength(20)
+    state.ants.forEach(ant => expect(ant.position).toEqual({ x: 320, y: 240 }))
+    expect(state.foods).toHaveLength(4)
+    expect(state.foods[0].id).toBe('food-a')
+    expect(Array.from(state.obstacles)).toEqual(['5,6', '5,7'])
+    expect(state.tick).toBe(0)
+  })
+
+  it('should be reproducible for the same scenario', () => {
+    expect(createInitialState(scenario)).toEqual(createInitialState(scenario))
+  })
+})
+
+describe('createScenario', () => {
+  it('should capture the layout with every food listed explicitly', () => {
+    const state = createInitialState(scenario)
+    const captured = createScenario(scenario.config, scenario.seed, state)
+
+    expect(captured.foods).toEqual(state.foods)
+    expect(captured.obstacles).toEqual(scenario.obstacles)
+    expect(captured.randomFoodCount).toBe(0)
+    expect(createInitialState(captured).foods).toEqual(state.foods)
+  })
+})
@@ -0,0 +1,121 @@
+import { z } from 'zod'
+import {
+  ColonySchema,
+  FoodSchema,
+  ObstacleCellSchema,
+  SimulationConfigSchema,
+  type SimulationConfig,
+} from './types'
+import { createRng } from './random'
+import { createObstacleSet, obstacleSetToCells } from './obstacles'
+import { createColonyMetrics } from './metrics'
+import { migrateNestToColonies } from './colony'
+import {
+  createInitialAnts,
+  createRandomFoods,
+  type SimulationState,
+} from './simulation-engine'
+
+/** 現在のシナリオ形式のバージョン */
+export const SCENARIO_VERSION = 2
+
+/**
+ * 旧バージョンのシナリオを現在の形式へ移行
+ * v1: 巣をひとつだけ nest に持つ
+ */
+const migrateScenario = (value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null) return value
+  const scenario = value as Record<string, unknown>
+  return scenario.version === 1
+    ? { ...migrateNestToColonies(scenario), version: SCENARIO_VERSION }
+    : scenario
+}
+
+/**
+ * シナリオ（世界の配置と設定）
+ * 世界の大きさは config に含まれる
+ * 各コロニーには config.antCount 匹のアリが巣から出発する
+ * foods に加えて randomFoodCount 個の餌をシードから生成して配置する
+ * obstacles には壁にするセル座標を列挙する
+ */
+export const ScenarioSchema = z.preprocess(migrateScenario, z.object({
+  version: z.literal(SCENARIO_VERSION),
+  config: SimulationConfigSchema,
+  seed: z.number().int().min(0),
+  colonies: z.array(ColonySchema).min(1),
+  foods: z.array(FoodSchema).default([]),
+  obstacles: z.array(ObstacleCellSchema).default([]),
+  randomFoodCount: z.number().int().min(0).default(0),
+}))
+
+export type Scenario = z.infer<typeof ScenarioSchema>
+
+/**
+ * JSON文字列からシナリオを読み込む
+ * @param text JSON文字列
+ * @returns 検証済みのシナリオ
+ * @throws JSONとして不正な場合、またはスキーマに合わない場合
+ */
+export const parseScenario = (text: string): Scenario =>
+  ScenarioSchema.parse(JSON.parse(text))
+
+/**
+ * シナリオをJSON文字列に変換
+ * @param scenario シナリオ
+ * @returns 整形済みJSON文字列
+ */
+export const serializeScenario = (scenario: Scenario): string =>
+  JSON.stringify(scenario, null, 2) + '\n'
+
+/**
+ * 現在の世界の配置からシナリオを作成
+ * 餌はすべて foods に含めるため randomFoodCount は 0 になる
+ * 巣の貯蔵量は配置ではないため 0 に戻す
+ * @param config シミュレーション設定
+ * @param seed 乱数シード
+ * @param world コロニー・餌・障害物
+ * @returns シナリオ
+ */
+export const createScenario = (
+  config: SimulationConfig,
+  seed: number,
+  world: Pick<SimulationState, 'colonies' | 'foods' | 'obstacles'>
+): Scenario => ({
+  version: SCENARIO_VERSION,
+  config: { ...config },
+  seed,
+  colonies: world.colonies.map(colony => ({ ...colony, nest: { ...colony.nest }, storage: 0 })),
+  foods: world.foods.map(food => ({ ...food, position: { ...food.position } })),
+  obstacles: obstacleSetToCells(world.obstacles),
+  randomFoodCount: 0,
+})
+
+/**
+ * シナリオから初期状態を構築
+ * アリの向きとランダム配置の餌はシードから決定されるため、同じシナリオからは常に同じ状態が得られる
+ * @param scenario シナリオ
+ * @returns 初期状態
+ */
+export const createInitialState = (scenario: Scenario): SimulationState => {
+  const { config, seed, colonies } = scenario
+  const rng = createRng(seed)
+  const ants = createInitialAnts(config.antCount, colonies, rng, config)
+  const randomFoods = createRandomFoods(
+    scenario.randomFoodCount,
+    config.worldWidth,
+    config.worldHeight,
+    rng
+  )
+
+  return {
+    ants,
+    foods: [...scenario.foods, ...randomFoods],
+    pheromones: new Map(),
+    colonies: colonies.map(colony => ({ ...colony, nest: { ...colony.nest } })),
+    obstacles: createObstacleSet(scenario.obstacles),
+    rngState: rng.getState(),
+    tick: 0,
+    metrics: createColonyMetrics(),
+    colonyMetrics: Object.fromEntries(colonies.map(colony => [colony.id, createColonyMetrics()])),
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { defaultParseSearch, defaultStringifySearch } from '@tanstack/react-router'
+import {
+  DEFAULT_RANDOM_FOOD_COUNT,
+  createScenarioFromSearch,
+  createSimulationSearch,
+  decodeCompactScenario,
+  encodeCompactScenario,
+  parseSimulationSearch,
+} from './share'
+import { ScenarioSchema, createInitialState } from './scenario'
+import { createSingleColony } from './colony'
+import { BehaviorTuningSchema, PopulationSchema, type SimulationConfig } from './types'
+
+const config: SimulationConfig = {
+  worldWidth: 800,
+  worldHeight: 600,
+  antCount: 50,
+  pheromoneDecayRate: 0.99,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  speed: 1,
+  pheromoneDecayInterval: 10,
+  homingMode: 'omniscient',
+  pheromoneDiffusionRate: 0,
+  pheromoneDiffusionKernel: 'von-neumann',
+  evaporationModel: 'logarithmic',
+  topology: 'torus',
+  behaviorPolicy: 'default',
+  pheromoneAlpha: 1,
+  pheromoneBeta: 2,
+  pheromoneSensorCount: 3,
+  pheromoneSensorAngle: Math.PI / 4,
+  ...BehaviorTuningSchema.parse({}),
+  ...PopulationSchema.parse({}),
+}
+
+const base = { config, seed: 1, colonies: createSingleColony({ x: 400, y: 300 }) }
+
+const scenario = ScenarioSchema.parse({
+  version: 2,
+  config: { ...config, antCount: 120, topology: 'bounded-reflect' },
+  seed: 99,
+  colonies: [
+    { id: 'colony-0', nest: { x: 120, y: 80 }, color: '#FFFFFF' },
+    { id: 'colony-1', nest: { x: 600, y: 400 }, color: '#00FFFF' },
+  ],
+  foods: [
+    { id: 'food-a', position: { x: 300.125, y: 200 }, amount: 75.5, quality: 2 },
+    { id: 'food-b', position: { x: 10, y: 590 }, amount: 100 },
+  ],
+  obstacles: [{ column: 4, row: 7 }],
+  randomFoodCount: 2,
+})
+
+describe('parseSimulationSearch', () => {
+  it('should keep valid parameters without filling in defaults', () => {
+    expect(parseSimulationSearch({ antCount: 200, seed: 7 })).toEqual({ antCount: 200, seed: 7 })
+  })
+
+  it('should drop invalid parameters', () => {
+    expect(parseSimulationSearch({
+      antCount: 5000,
+      topology: 'sphere',
+      seed: -1,
+      speed: 2,
+      unknown: 'x',
+    })).toEqual({ speed: 2 })
+  })
+})
+
+describe('compact scenario', () => {
+  it('should round-trip the layout', () => {
+    const layout = decodeCompactScenario(encodeCompactScenario(scenario))
+
+    expect(layout).toEqual({
+      colonies: scenario.colonies,
+      foods: [
+        { id: 'food-0', position: { x: 300.125, y: 200 }, amount: 75.5, quality: 2 },
+        { id: 'food-1', position: { x: 10, y: 590 }, amount: 100 },
+      ],
+      obstacles: scenario.obstacles,
+      randomFoodCount: 2,
+    })
+  })
+
+  it('should read the single nest of links made before colonies', () => {
+    const layout = decodeCompactScenario(btoa(JSON.stringify({ n: [5, 6] })))
+
+    expect(layout?.colonies).toEqual(createSingleColony({ x: 5, y: 6 }))
+  })
+
+  it('should only use URL-safe characters', () => {
+    expect(encodeCompactScenario(scenario)).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+
+  it('should reject malformed layouts', () => {
+    expect(decodeCompactScenario('not-base64!')).toBeNull()
+    expect(decodeCompactScenario(btoa('{"n":[1]}'))).toBeNull()
+  })
+})
+
+describe('createScenarioFromSearch', () => {
+  it('should reproduce the shared setup through the URL', () => {
+    const query = defaultStringifySearch(createSimulationSearch(scenario))
+    const search = parseSimulationSearch(defaultParseSearch(query))
+    const shared = createScenarioFromSearch(search, base)!
+
+    expect(shared.config).toEqual(scenario.config)
+    expect(shared.seed).toBe(99)
+    expect(createInitialState(shared).ants).toEqual(createInitialState(scenario).ants)
+    expect(createInitialState(shared).foods.map(food => food.position))
+      .toEqual(createInitialState(scenario).foods.map(food => food.position))
+  })
+
+  it('should fall back to the current setup and random foods', () => {
+    const shared = createScenarioFromSearch({ seed: 3 }, base)!
+
+    expect(shared.config).toEqual(config)
+    expect(shared.colonies).toEqual(base.colonies)
+    expect(shared.randomFoodCount).toBe(DEFAULT_RANDOM_FOOD_COUNT)
+  })
+
+  it('should reject a broken layout', () => {
+    expect(createScenarioFromSearch({ scenario: 'broken' }, base)).toBeNull()
+  })
+})
@@ -0,0 +1,175 @@
+import { z } from 'zod'
+import { SimulationConfigSchema, type Colony, type SimulationConfig } from './types'
+import { SCENARIO_VERSION, type Scenario } from './scenario'
+import { createColony } from './colony'
+
+/** 共有リンクにレイアウトが含まれない場合に配置するランダムな餌の数 */
+export const DEFAULT_RANDOM_FOOD_COUNT = 10
+
+type ConfigShape = typeof SimulationConfigSchema.shape
+
+/**
+ * 設定の各項目を省略可能にしたスキーマの形
+ * URL に含まれない項目に既定値が入らないよう、.default() は外す
+ */
+type OptionalConfigShape = {
+  [K in keyof ConfigShape]: z.ZodOptional<
+    ConfigShape[K] extends z.ZodDefault<infer Inner> ? Inner : ConfigShape[K]
+  >
+}
+
+const optionalConfigShape = Object.fromEntries(
+  Object.entries(SimulationConfigSchema.shape).map(([key, schema]) => [
+    key,
+    (schema instanceof z.ZodDefault ? schema.unwrap() : schema).optional(),
+  ])
+) as OptionalConfigShape
+
+/**
+ * 共有リンクの検索パラメータ
+ * 設定の各項目と seed はそのまま、レイアウトは scenario に圧縮して格納する
+ */
+export const SimulationSearchSchema = z.object({
+  ...optionalConfigShape,
+  seed: z.number().int().min(0).optional(),
+  scenario: z.string().optional(),
+})
+
+export type SimulationSearch = z.infer<typeof SimulationSearchSchema>
+
+const CompactPositionSchema = z.tuple([z.number(), z.number()])
+
+/**
+ * 圧縮したレイアウト
+ * c: 各コロニーの巣 [x, y] / f: 餌 [x, y, 量, 質（省略可）] / o: 壁 [列, 行] / r: ランダムな餌の数
+ * n: 巣 [x, y]（コロニー導入前のリンク。c がない場合のみ使う）
+ */
+const CompactLayoutSchema = z.object({
+  c: z.array(CompactPositionSchema).min(1).optional(),
+  n: CompactPositionSchema.optional(),
+  f: z.array(z.tuple([z.number(), z.number(), z.number().positive(), z.number().positive().optional()])).default([]),
+  o: z.array(z.tuple([z.number().int(), z.number().int()])).default([]),
+  r: z.number().int().min(0).default(0),
+}).refine(layout => layout.c !== undefined || layout.n !== undefined)
+
+const toBase64Url = (text: string): string =>
+  btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const fromBase64Url = (encoded: string): string =>
+  atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+
+/**
+ * URL の検索パラメータを検証
+ * 不正な項目は無視し、正しい項目だけを残す
+ * @param search 生の検索パラメータ
+ * @returns 検証済みの検索パラメータ
+ */
+export const parseSimulationSearch = (search: Record<string, unknown>): SimulationSearch => {
+  const result: Record<string, unknown> = {}
+
+  Object.entries(SimulationSearchSchema.shape).forEach(([key, schema]) => {
+    const parsed = schema.safeParse(search[key])
+    if (parsed.success && parsed.data !== undefined) {
+      result[key] = parsed.data
+    }
+  })
+
+  return result as SimulationSearch
+}
+
+/**
+ * シナリオのレイアウト（巣・餌・壁）を URL 用の文字列に圧縮
+ * 餌とコロニーの ID・コロニーの色は含まれず、展開時に振り直される
+ * @param scenario シナリオ
+ * @returns base64url 文字列
+ */
+export const encodeCompactScenario = (scenario: Scenario): string =>
+  toBase64Url(JSON.stringify({
+    c: scenario.colonies.map(colony => [colony.nest.x, colony.nest.y]),
+    f: scenario.foods.map(food => [
+      food.position.x,
+      food.position.y,
+      food.amount,
+      ...(food.quality !== undefined ? [food.quality] : []),
+    ]),
+    o: scenario.obstacles.map(cell => [cell.column, cell.row]),
+    r: scenario.randomFoodCount,
+  }))
+
+/**
+ * 圧縮したレイアウトを展開
+ * @param encoded base64url 文字列
+ * @returns コロニー・餌・壁・ランダムな餌の数（不正な場合は null）
+ */
+export const decodeCompactScenario = (
+  encoded: string
+): Pick<Scenario, 'colonies' | 'foods' | 'obstacles' | 'randomFoodCount'> | null => {
+  try {
+    const layout = CompactLayoutSchema.parse(JSON.parse(fromBase64Url(encoded)))
+    const nests = layout.c ?? [layout.n!]
+    return {
+      colonies: nests.map(([x, y], i) => createColony(i, { x, y })),
+      foods: layout.f.map(([x, y, amount, quality], i) => ({
+        id: `food-${i}`,
+        position: { x, y },
+        amount,
+        ...(quality !== undefined && { quality }),
+      })),
+      obstacles: layout.o.map(([column, row]) => ({ column, row })),
+      randomFoodCount: layout.r,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 検索パラメータが何らかの設定を含むかどうか
+ * @param search 検証済みの検索パラメータ
+ * @returns 設定を含む場合は true
+ */
+export const hasSharedSetup = (search: SimulationSearch): boolean =>
+  Object.keys(search).length > 0
+
+/**
+ * 共有リンクの内容からシナリオを構築
+ * URL に含まれない設定は base の値を使う。レイアウトがない場合は
+ * 通常の起動時と同じく、シードから餌をランダムに配置する
+ * @param search 検証済みの検索パラメータ
+ * @param base 現在の設定・シード・コロニー
+ * @returns シナリオ（設定の組み合わせが不正な場合は null）
+ */
+export const createScenarioFromSearch = (
+  search: SimulationSearch,
+  base: { config: SimulationConfig; seed: number; colonies: Colony[] }
+): Scenario | null => {
+  const { seed, scenario: encoded, ...configOverrides } = search
+  const config = SimulationConfigSchema.safeParse({ ...base.config, ...configOverrides })
+  if (!config.success) return null
+
+  const layout = encoded !== undefined ? decodeCompactScenario(encoded) : null
+  if (encoded !== undefined && !layout) return null
+
+  return {
+    version: SCENARIO_VERSION,
+    config: config.data,
+    seed: seed ?? base.seed,
+    ...(layout ?? {
+      colonies: base.colonies.map(colony => ({ ...colony, nest: { ...colony.nest } })),
+      foods: [],
+      obstacles: [],
+      randomFoodCount: DEFAULT_RANDOM_FOOD_COUNT,
+    }),
+  }
+}
+
+/**
+ * シナリオから共有リンクの検索パラメータを作成
+ * @param scenario シナリオ
+ * @returns 検索パラメータ
+ */
+export const createSimulationSearch = (scenario: Scenario): SimulationSearch => ({
+  ...scenario.config,
+  seed: scenario.seed,
+  scenario: encodeCompactScenario(scenario),
+})
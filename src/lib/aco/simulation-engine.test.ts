@@ -0,0 +1,422 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createConfigGeometry,
+  createInitialAnts,
+  executeSimulationStep,
+  executeSimulationTick,
+  type SimulationState,
+} from './simulation-engine'
+import { createRng } from './random'
+import { createPheromoneKey } from './pheromone'
+import {
+  colonyPheromonesToMap,
+  pheromoneMapToColonyPheromones,
+  type ColonyPheromones,
+} from './pheromone-grid'
+import { createColonyMetrics } from './metrics'
+import { addColony, createSingleColony } from './colony'
+import {
+  BehaviorTuningSchema,
+  PopulationSchema,
+  type BehaviorPolicyId,
+  type Pheromone,
+  type SimulationConfig,
+} from './types'
+
+const config: SimulationConfig = {
+  worldWidth: 800,
+  worldHeight: 600,
+  antCount: 10,
+  pheromoneDecayRate: 0.99,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  speed: 1,
+  pheromoneDecayInterval: 10,
+  homingMode: 'omniscient',
+  pheromoneDiffusionRate: 0,
+  pheromoneDiffusionKernel: 'von-neumann',
+  evaporationModel: 'logarithmic',
+  topology: 'torus',
+  behaviorPolicy: 'default',
+  pheromoneAlpha: 1,
+  pheromoneBeta: 2,
+  pheromoneSensorCount: 3,
+  pheromoneSensorAngle: Math.PI / 4,
+  ...BehaviorTuningSchema.parse({}),
+  ...PopulationSchema.parse({}),
+}
+
+const geometry = createConfigGeometry(config)
+
+const toColonyPheromones = (
+  pheromones: Map<string, Pheromone>,
+  colonyIds: string[] = ['colony-0']
+): ColonyPheromones => pheromoneMapToColonyPheromones(pheromones, geometry, colonyIds)
+
+const toPheromoneMap = (pheromones: ColonyPheromones): Map<string, Pheromone> =>
+  colonyPheromonesToMap(pheromones, geometry)
+
+const createState = (seed: number): SimulationState => ({
+  ants: Array.from({ length: config.antCount }, (_, i) => ({
+    id: `ant-${i}`,
+    position: { x: 400, y: 300 },
+    hasFood: false,
+    targetFood: null,
+    direction: (i / config.antCount) * Math.PI * 2,
+    foodAmount: null,
+    colonyId: 'colony-0',
+  })),
+  foods: [{ id: 'food-1', position: { x: 420, y: 300 }, amount: 20 }],
+  pheromones: new Map(),
+  colonies: createSingleColony({ x: 400, y: 300 }),
+  obstacles: new Set(),
+  rngState: seed,
+  tick: 0,
+  metrics: createColonyMetrics(),
+  colonyMetrics: {},
+})
+
+const runSteps = (state: SimulationState, steps: number): SimulationState[] => {
+  const history: SimulationState[] = []
+  let current = state
+
+  for (let i = 0; i < steps; i++) {
+    const update = executeSimulationStep(config, current)
+    current = { ...current, ...update }
+    history.push(current)
+  }
+
+  return history
+}
+
+describe('executeSimulationStep', () => {
+  it('should produce the same sequence of states for the same seed', () => {
+    const first = runSteps(createState(2024), 50)
+    const second = runSteps(createState(2024), 50)
+
+    expect(second).toEqual(first)
+  })
+
+  it('should diverge for different seeds', () => {
+    const first = runSteps(createState(1), 5)
+    const second = runSteps(createState(2), 5)
+
+    expect(second[4].ants).not.toEqual(first[4].ants)
+  })
+
+  it('should advance the RNG state', () => {
+    const state = createState(99)
+    const update = executeSimulationStep(config, state)
+
+    expect(update.rngState).not.toBe(state.rngState)
+  })
+})
+
+describe('executeSimulationTick', () => {
+  it('should increment the tick counter', () => {
+    const next = executeSimulationTick(config, createState(1))
+
+    expect(next.tick).toBe(1)
+  })
+
+  it('should record a metrics sample every tick', () => {
+    let current = createState(1)
+    for (let i = 0; i < 5; i++) {
+      current = executeSimulationTick(config, current)
+    }
+
+    expect(current.metrics.samples.map(sample => sample.tick)).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should count food delivered to the nest and the round trip length', () => {
+    const state: SimulationState = {
+      ...createState(1),
+      ants: [{
+        id: 'ant-0',
+        position: { x: 402, y: 300 },
+        hasFood: true,
+        targetFood: 'food-1',
+        direction: 0,
+        foodAmount: 1,
+        colonyId: 'colony-0',
+      }],
+      tick: 7,
+    }
+
+    const next = executeSimulationTick(config, state)
+
+    expect(next.metrics.totalFoodCollected).toBe(1)
+    expect(next.metrics.samples[0]).toMatchObject({ tick: 8, deliveries: 1, averageTripLength: 8 })
+    expect(next.metrics.tripStartTicks['ant-0']).toBe(8)
+  })
+
+  it('should record the tick food was first discovered', () => {
+    const state: SimulationState = {
+      ...createState(1),
+      ants: [{
+        id: 'ant-0',
+        position: { x: 418, y: 300 },
+        hasFood: false,
+        targetFood: null,
+        direction: 0,
+        foodAmount: null,
+        colonyId: 'colony-0',
+      }],
+    }
+
+    const next = executeSimulationTick(config, state)
+
+    expect(next.metrics.firstDiscoveryTick).toBe(1)
+    expect(next.metrics.samples[0].carryingRatio).toBe(1)
+  })
+
+  it('should decay pheromones only on the configured tick interval', () => {
+    const key = createPheromoneKey({ x: 105, y: 105 }, 'toFood')
+    const state: SimulationState = {
+      ...createState(1),
+      ants: [],
+      pheromones: toColonyPheromones(new Map([
+        [key, { position: { x: 105, y: 105 }, intensity: 50, type: 'toFood' as const, colonyId: 'colony-0' }],
+      ])),
+    }
+
+    let current = state
+    for (let i = 0; i < config.pheromoneDecayInterval - 1; i++) {
+      current = executeSimulationTick(config, current)
+    }
+    expect(toPheromoneMap(current.pheromones).get(key)?.intensity).toBe(50)
+
+    current = executeSimulationTick(config, current)
+    expect(toPheromoneMap(current.pheromones).get(key)?.intensity).toBeLessThan(50)
+  })
+})
+
+describe('pheromone diffusion', () => {
+  it('should spread pheromone to neighbouring cells on decay ticks', () => {
+    const key = createPheromoneKey({ x: 105, y: 105 }, 'toFood')
+    const state: SimulationState = {
+      ...createState(1),
+      ants: [],
+      tick: config.pheromoneDecayInterval - 1,
+      pheromones: toColonyPheromones(new Map([
+        [key, { position: { x: 105, y: 105 }, intensity: 50, type: 'toFood' as const, colonyId: 'colony-0' }],
+      ])),
+    }
+
+    const withoutDiffusion = executeSimulationTick(config, state)
+    const withDiffusion = executeSimulationTick(
+      { ...config, pheromoneDiffusionRate: 0.2 },
+      state
+    )
+
+    expect(toPheromoneMap(withoutDiffusion.pheromones).size).toBe(1)
+    expect(toPheromoneMap(withDiffusion.pheromones).size).toBe(5)
+    expect(toPheromoneMap(withDiffusion.pheromones).has(createPheromoneKey({ x: 115, y: 105 }, 'toFood'))).toBe(true)
+  })
+})
+
+describe('colonies', () => {
+  const colonies = addColony(createSingleColony({ x: 400, y: 300 }), { x: 100, y: 100 })
+  const createColonyState = (): SimulationState => ({
+    ...createState(1),
+    colonies,
+    ants: [{
+      id: 'ant-0',
+      position: { x: 200, y: 200 },
+      hasFood: false,
+      targetFood: null,
+      direction: 0,
+      foodAmount: null,
+      colonyId: 'colony-1',
+    }],
+    foods: [],
+  })
+  const trailOf = (colonyId: string) => toColonyPheromones(
+    new Map([0, 1, 2, 3].map((i) => {
+      const position = { x: 215 + i * 10, y: 215 + i * 10 }
+      return [
+        createPheromoneKey(position, 'toFood', colonyId),
+        { position, intensity: 100, type: 'toFood' as const, colonyId },
+      ]
+    })),
+    colonies.map(colony => colony.id)
+  )
+
+  it('should only let ants follow their own colony\'s trail', () => {
+    const alone = executeSimulationTick(config, createColonyState())
+    const ownTrail = executeSimulationTick(config, { ...createColonyState(), pheromones: trailOf('colony-1') })
+    const otherTrail = executeSimulationTick(config, { ...createColonyState(), pheromones: trailOf('colony-0') })
+
+    expect(otherTrail.ants).toEqual(alone.ants)
+    expect(ownTrail.ants[0].direction).not.toBe(alone.ants[0].direction)
+  })
+
+  it('should keep each colony\'s pheromone in its own channel', () => {
+    const state = { ...createColonyState(), pheromones: trailOf('colony-0') }
+    const next = executeSimulationTick({ ...config, homingMode: 'pheromone' }, state)
+
+    const pheromones = Array.from(toPheromoneMap(next.pheromones).values())
+    expect(pheromones.filter(p => p.colonyId === 'colony-0')).toHaveLength(4)
+    expect(pheromones.filter(p => p.colonyId === 'colony-1')).not.toHaveLength(0)
+  })
+
+  it('should record deliveries against the colony whose nest received them', () => {
+    const state: SimulationState = {
+      ...createColonyState(),
+      ants: [{
+        id: 'ant-0',
+        position: { x: 102, y: 100 },
+        hasFood: true,
+        targetFood: null,
+        direction: 0,
+        foodAmount: 1,
+        colonyId: 'colony-1',
+      }],
+    }
+
+    const next = executeSimulationTick(config, state)
+
+    expect(next.colonyMetrics['colony-1'].totalFoodCollected).toBe(1)
+    expect(next.colonyMetrics['colony-0'].totalFoodCollected).toBe(0)
+    expect(next.metrics.totalFoodCollected).toBe(1)
+  })
+
+  it('should credit the delivered load to the nest\'s storage', () => {
+    const state: SimulationState = {
+      ...createColonyState(),
+      ants: [{
+        id: 'ant-0',
+        position: { x: 102, y: 100 },
+        hasFood: true,
+        targetFood: null,
+        direction: 0,
+        foodAmount: 3,
+        colonyId: 'colony-1',
+      }],
+    }
+
+    const next = executeSimulationTick(config, state)
+
+    expect(next.colonies.map(colony => colony.storage)).toEqual([0, 3])
+    expect(next.ants[0].foodAmount).toBeNull()
+    expect(state.colonies[1].storage).toBe(0)
+  })
+
+  it('should not deliver food to another colony\'s nest', () => {
+    const state: SimulationState = {
+      ...createColonyState(),
+      ants: [{
+        id: 'ant-0',
+        position: { x: 402, y: 300 },
+        hasFood: true,
+        targetFood: null,
+        direction: 0,
+        foodAmount: 1,
+        colonyId: 'colony-1',
+      }],
+    }
+
+    const next = executeSimulationTick(config, state)
+
+    expect(next.ants[0].hasFood).toBe(true)
+    expect(next.metrics.totalFoodCollected).toBe(0)
+  })
+})
+
+describe('behavior policies', () => {
+  const createTrailState = (behaviorPolicy?: BehaviorPolicyId): SimulationState => {
+    const state = createState(1)
+    const position = { x: 215, y: 215 }
+    return {
+      ...state,
+      ants: [{
+        ...state.ants[0],
+        position: { x: 200, y: 200 },
+        direction: 0,
+        ...(behaviorPolicy && { behaviorPolicy }),
+      }],
+      foods: [],
+      pheromones: toColonyPheromones(new Map([[
+        createPheromoneKey(position, 'toFood'),
+        { position, intensity: 100, type: 'toFood' as const, colonyId: 'colony-0' },
+      ]])),
+    }
+  }
+  const withoutTrail = (state: SimulationState): SimulationState => ({ ...state, pheromones: new Map() })
+
+  it('should run every ant with the configured policy', () => {
+    const greedy = executeSimulationTick({ ...config, behaviorPolicy: 'pheromone-greedy' }, createTrailState())
+    const randomWalk = executeSimulationTick({ ...config, behaviorPolicy: 'random-walk' }, createTrailState())
+    const alone = executeSimulationTick(config, withoutTrail(createTrailState()))
+
+    expect(randomWalk.ants).toEqual(alone.ants)
+    expect(greedy.ants[0].direction).not.toBe(alone.ants[0].direction)
+  })
+
+  it('should let an ant\'s own policy override the configured one', () => {
+    const greedyConfig = { ...config, behaviorPolicy: 'pheromone-greedy' as const }
+    const overridden = executeSimulationTick(greedyConfig, createTrailState('random-walk'))
+    const alone = executeSimulationTick(greedyConfig, withoutTrail(createTrailState('random-walk')))
+
+    expect(overridden.ants).toEqual(alone.ants)
+  })
+})
+
+describe('createInitialAnts', () => {
+  const colonies = createSingleColony({ x: 400, y: 300 })
+
+  it('should not give ants a profile when the population is uniform', () => {
+    const ants = createInitialAnts(5, colonies, createRng(8))
+
+    ants.forEach((ant) => {
+      expect(ant.caste).toBeUndefined()
+      expect(ant.traits).toBeUndefined()
+    })
+  })
+
+  it('should draw castes and traits reproducibly for a diverse population', () => {
+    const population = { ...PopulationSchema.parse({}), scoutRatio: 0.5, speedVariation: 0.3 }
+    const first = createInitialAnts(20, colonies, createRng(8), population)
+    const second = createInitialAnts(20, colonies, createRng(8), population)
+
+    expect(second).toEqual(first)
+    expect(new Set(first.map((ant) => ant.caste))).toEqual(new Set(['worker', 'scout']))
+  })
+})
+
+describe('food conservation', () => {
+  const totalFood = (state: SimulationState): number =>
+    state.colonies.reduce((sum, colony) => sum + colony.storage, 0)
+    + state.foods.reduce((sum, food) => sum + food.amount, 0)
+    + state.ants.reduce((sum, ant) => sum + (ant.foodAmount ?? 0), 0)
+
+  it('should not hand out more food than a shared source holds in one tick', () => {
+    const state: SimulationState = {
+      ...createState(1),
+      foods: [{ id: 'food-1', position: { x: 420, y: 300 }, amount: 5 }],
+    }
+    const crowded = { ...state, ants: state.ants.map(ant => ({ ...ant, position: { x: 418, y: 300 } })) }
+
+    const next = executeSimulationTick(config, crowded)
+
+    expect(next.foods).toEqual([])
+    expect(next.ants.filter(ant => ant.hasFood)).toHaveLength(5)
+    expect(totalFood(next)).toBe(5)
+  })
+
+  it('should keep storage, remaining food and carried loads constant', () => {
+    let current: SimulationState = {
+      ...createState(3),
+      foods: [{ id: 'food-1', position: { x: 420, y: 300 }, amount: 30 }],
+    }
+    const tuned = { ...config, antCarryCapacity: 4 }
+
+    for (let i = 0; i < 300; i++) {
+      current = executeSimulationTick(tuned, current)
+      expect(totalFood(current)).toBe(30)
+    }
+
+    expect(current.colonies[0].storage).toBeGreaterThan(0)
+    expect(current.metrics.totalFoodCollected).toBe(current.colonies[0].storage)
+  })
+})
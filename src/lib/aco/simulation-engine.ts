@@ -1,39 +1,211 @@
-import { executeAntBehavior } from './ant-behavior'
+import { getBehaviorPolicy } from './behavior-policy'
+import type { AntBehaviorResult as BehaviorResult } from './ant-behavior'
 import { decayPheromones } from './pheromone'
-import type { Ant, Food, Pheromone, Position, SimulationConfig } from './types'
+import {
+  colonyGridsToPheromones,
+  createColonyGrids,
+  decayPheromoneGrid,
+  depositToGrid,
+  diffusePheromoneGrid,
+  type ColonyPheromones,
+  type PheromoneGrid,
+} from './pheromone-grid'
+import { createRng, type Rng } from './random'
+import { isBlocked, type ObstacleSet } from './obstacles'
+import { createWorldGeometry, type WorldGeometry } from './geometry'
+import {
+  createColonyMetrics,
+  observeColony,
+  recordTick,
+  type ColonyMetrics,
+  type TickEvents,
+} from './metrics'
+import { findColony } from './colony'
+import type { PheromoneTrackingParams } from './pathfinding'
+import { PopulationSchema, type Ant, type Colony, type Food, type Pheromone, type Population, type SimulationConfig } from './types'
+import { drawAntProfile, getAntTraits, hasHeterogeneity } from './traits'
 
+/**
+ * Complete simulation state
+ * Every ant and pheromone belongs to one of `colonies`; `metrics` covers the
+ * whole world and `colonyMetrics` holds the same statistics per colony.
+ * Pheromones are kept as each colony's grid layers, so a tick never converts
+ * them to or from the Map form used by rendering, snapshots and persistence.
+ */
 export type SimulationState = {
   ants: Ant[]
   foods: Food[]
-  pheromones: Map<string, Pheromone>
-  nest: Position
+  pheromones: ColonyPheromones
+  colonies: Colony[]
+  obstacles: ObstacleSet
+  rngState: number
+  tick: number
+  metrics: ColonyMetrics
+  colonyMetrics: Record<string, ColonyMetrics>
 }
 
 export type SimulationUpdate = {
   ants?: Ant[]
   foods?: Food[]
-  pheromones?: Map<string, Pheromone>
+  pheromones?: ColonyPheromones
+  colonies?: Colony[]
+  rngState: number
 }
 
 type AntBehaviorResult = {
   antId: string
-  result: ReturnType<typeof executeAntBehavior>
+  colonyId: string
+  result: BehaviorResult
+}
+
+/** One pheromone grid per colony, keyed by colony ID */
+type ColonyGrids = Map<string, PheromoneGrid>
+
+type GridStepResult = {
+  update: Omit<SimulationUpdate, 'pheromones' | 'rngState'>
+  results: AntBehaviorResult[]
 }
 
 /**
  * Execute one simulation step
  * @param config Simulation configuration
  * @param state Current simulation state
- * @returns Updates to be applied to the simulation state
+ * @returns Updates to be applied to the simulation state, including the advanced RNG state
  */
 export const executeSimulationStep = (
   config: SimulationConfig,
   state: SimulationState
 ): SimulationUpdate => {
-  const antBehaviorResults = processAllAnts(config, state)
-  const updatedState = applyBehaviorResults(state, antBehaviorResults)
+  const rng = createRng(state.rngState)
+  const grids = createStateGrids(config, state)
+  const { update } = executeStepOnGrids(config, state, grids, rng)
   
-  return updatedState
+  return {
+    ...update,
+    pheromones: colonyGridsToPheromones(grids),
+    rngState: rng.getState(),
+  }
+}
+
+/**
+ * Advance the simulation by one tick
+ * Pheromones diffuse and decay every `pheromoneDecayInterval` ticks, so the
+ * outcome depends only on the tick count and never on wall-clock time.
+ * Colony metrics are recorded against the state at the end of the tick.
+ * Each colony's pheromone channel diffuses and decays independently.
+ * @param config Simulation configuration
+ * @param state Current simulation state
+ * @returns The next simulation state
+ */
+export const executeSimulationTick = (
+  config: SimulationConfig,
+  state: SimulationState
+): SimulationState => {
+  const rng = createRng(state.rngState)
+  const grids = createStateGrids(config, state)
+  const { update, results } = executeStepOnGrids(config, state, grids, rng)
+  const tick = state.tick + 1
+
+  if (tick % config.pheromoneDecayInterval === 0) {
+    grids.forEach((grid) => {
+      diffusePheromoneGrid(
+        grid,
+        config.pheromoneDiffusionRate,
+        config.pheromoneDiffusionKernel,
+        state.obstacles
+      )
+      decayPheromoneGrid(grid, config.pheromoneDecayRate, config.evaporationModel)
+    })
+  }
+
+  const ants = update.ants ?? state.ants
+  const pheromones = colonyGridsToPheromones(grids)
+  const world = { ants, pheromones }
+
+  return {
+    ...state,
+    ...update,
+    pheromones,
+    rngState: rng.getState(),
+    tick,
+    metrics: recordTick(state.metrics, { tick, ...collectTickEvents(results) }, observeColony(world)),
+    colonyMetrics: Object.fromEntries(state.colonies.map(({ id }) => [
+      id,
+      recordTick(
+        state.colonyMetrics[id] ?? createColonyMetrics(),
+        { tick, ...collectTickEvents(results.filter(({ colonyId }) => colonyId === id)) },
+        observeColony(world, id)
+      ),
+    ])),
+  }
+}
+
+/**
+ * Create the initial ants, `count` per colony, each at its nest with a random heading
+ * Ant IDs are numbered across colonies in order. When the population is diverse,
+ * each ant also draws a caste and individual traits.
+ * @param count Number of ants per colony
+ * @param colonies Colonies to populate
+ * @param rng Random number generator
+ * @param population Caste ratio and trait distributions
+ * @returns Newly created ants
+ */
+export const createInitialAnts = (
+  count: number,
+  colonies: Colony[],
+  rng: Rng,
+  population: Population = PopulationSchema.parse({})
+): Ant[] => {
+  const ants: Ant[] = []
+  // Without any diversity configured, ants carry no profile and no extra random numbers are drawn
+  const diverse = hasHeterogeneity(population)
+
+  colonies.forEach((colony) => {
+    for (let i = 0; i < count; i++) {
+      ants.push({
+        id: `ant-${ants.length}`,
+        position: { ...colony.nest },
+        hasFood: false,
+        targetFood: null,
+        direction: rng.next() * Math.PI * 2,
+        foodAmount: null,
+        colonyId: colony.id,
+        ...(diverse && drawAntProfile(population, rng)),
+      })
+    }
+  })
+
+  return ants
+}
+
+/**
+ * Create food sources at random positions
+ * @param count Number of food sources
+ * @param worldWidth World width
+ * @param worldHeight World height
+ * @param rng Random number generator
+ * @returns Newly created food sources
+ */
+export const createRandomFoods = (
+  count: number,
+  worldWidth: number,
+  worldHeight: number,
+  rng: Rng
+): Food[] => {
+  const foods: Food[] = []
+
+  for (let i = 0; i < count; i++) {
+    foods.push({
+      id: `food-${rng.getState().toString(36)}-${i}`,
+      position: {
+        x: rng.next() * worldWidth,
+        y: rng.next() * worldHeight,
+      },
+      amount: 50 + rng.next() * 100,
+    })
+  }
+
+  return foods
 }
 
 /**
@@ -49,35 +221,166 @@ export const executePheromoneDacay = (
   return decayPheromones(pheromones, decayRate)
 }
 
+/**
+ * Build the world geometry described by the configuration
+ * @param config Simulation configuration
+ * @returns World geometry shared by movement, sensing and diffusion
+ */
+export const createConfigGeometry = (config: SimulationConfig): WorldGeometry =>
+  createWorldGeometry(config.topology, config.worldWidth, config.worldHeight)
+
+/**
+ * Wrap each colony's pheromone layers in a grid for this step
+ * The layers are copied, so the step never writes into the state it was given.
+ */
+const createStateGrids = (config: SimulationConfig, state: SimulationState): ColonyGrids =>
+  createColonyGrids(
+    state.pheromones,
+    createConfigGeometry(config),
+    state.colonies.map(colony => colony.id)
+  )
+
+/**
+ * Run every ant against its colony's pheromone grid and apply the results
+ * All ants observe the grids as they were at the start of the step; their deposits
+ * are written into the grids afterwards.
+ */
+const executeStepOnGrids = (
+  config: SimulationConfig,
+  state: SimulationState,
+  grids: ColonyGrids,
+  rng: Rng
+): GridStepResult => {
+  const results = settleFoodCollections(state.foods, processAllAnts(config, state, grids, rng))
+  applyPheromoneDeposits(grids, state.obstacles, results)
+  const update = applyBehaviorResults(state, results)
+
+  return { update, results }
+}
+
+/**
+ * Sensor layout and transition rule weights taken from the config
+ */
+const createTrackingParams = (config: SimulationConfig): PheromoneTrackingParams => ({
+  sensorDistance: config.pheromoneSensorDistance,
+  sensorAngle: config.pheromoneSensorAngle,
+  sensorCount: config.pheromoneSensorCount,
+  detectionRadius: config.pheromoneDetectionRadius,
+  minimumStrength: config.pheromoneMinimumStrength,
+  alpha: config.pheromoneAlpha,
+  beta: config.pheromoneBeta,
+  // Each ant's own sensitivity is applied on top of this when it senses the grid
+  sensitivity: 1,
+})
+
 const processAllAnts = (
   config: SimulationConfig,
-  state: SimulationState
+  state: SimulationState,
+  grids: ColonyGrids,
+  rng: Rng
 ): AntBehaviorResult[] => {
+  const pheromoneTracking = createTrackingParams(config)
+
   return state.ants.map(ant => {
-    const result = executeAntBehavior({
+    const colony = findColony(state.colonies, ant.colonyId)
+    const grid = grids.get(colony.id)!
+    // An ant's own policy takes precedence over the run-wide one
+    const policy = getBehaviorPolicy(ant.behaviorPolicy ?? config.behaviorPolicy)
+    const result = policy.execute({
       ant,
       foods: state.foods,
-      pheromones: state.pheromones,
-      nest: state.nest,
-      worldWidth: config.worldWidth,
-      worldHeight: config.worldHeight,
+      pheromones: grid,
+      nest: colony.nest,
+      geometry: grid.geometry,
       pheromoneDepositAmount: config.pheromoneDepositAmount,
       pheromoneTrackingStrength: config.pheromoneTrackingStrength,
+      pheromoneTracking,
+      tuning: config,
+      traits: getAntTraits(ant),
+      homingMode: config.homingMode,
       ants: state.ants,
+      obstacles: state.obstacles,
+      rng,
     })
 
     return {
       antId: ant.id,
+      colonyId: colony.id,
       result
     }
   })
 }
 
+/**
+ * Hand out food to the ants collecting it, in ant order
+ * Every ant decides its load from the amount at the start of the step, so when
+ * several ants share a source each load is clamped to what the earlier ants left.
+ * An ant that finds the source already emptied collects nothing this tick.
+ */
+const settleFoodCollections = (foods: Food[], results: AntBehaviorResult[]): AntBehaviorResult[] => {
+  const remaining = new Map(foods.map(food => [food.id, food.amount]))
+
+  return results.map((entry) => {
+    const { result } = entry
+    const foodId = result.foodUpdate?.id ?? result.removeFood
+    if (foodId === undefined) return entry
+
+    const available = remaining.get(foodId) ?? 0
+    const load = Math.min(result.antUpdate?.foodAmount ?? 0, available)
+    if (load <= 0) {
+      return { ...entry, result: { pheromoneDeposits: result.pheromoneDeposits } }
+    }
+
+    const left = available - load
+    remaining.set(foodId, left)
+    return {
+      ...entry,
+      result: {
+        ...result,
+        antUpdate: { ...result.antUpdate, foodAmount: load },
+        foodUpdate: left > 0 ? { id: foodId, amount: left } : undefined,
+        removeFood: left > 0 ? undefined : foodId,
+      },
+    }
+  })
+}
+
+const applyPheromoneDeposits = (
+  grids: ColonyGrids,
+  obstacles: ObstacleSet,
+  results: AntBehaviorResult[]
+): void => {
+  results.forEach(({ colonyId, result }) => {
+    const grid = grids.get(colonyId)!
+    result.pheromoneDeposits.forEach(({ position, type, amount }) => {
+      // Pheromone is never laid inside a wall
+      if (isBlocked(obstacles, position)) return
+      depositToGrid(grid, position, type, amount)
+    })
+  })
+}
+
+const collectTickEvents = (results: AntBehaviorResult[]): Omit<TickEvents, 'tick'> => {
+  const deliveries: { antId: string; amount: number }[] = []
+  let collections = 0
+
+  results.forEach(({ antId, result }) => {
+    if (result.deliveredFood !== undefined) {
+      deliveries.push({ antId, amount: result.deliveredFood })
+    }
+    if (result.foodUpdate || result.removeFood) {
+      collections++
+    }
+  })
+
+  return { deliveries, collections }
+}
+
 const applyBehaviorResults = (
   state: SimulationState,
   results: AntBehaviorResult[]
-): SimulationUpdate => {
-  const update: SimulationUpdate = {}
+): GridStepResult['update'] => {
+  const update: GridStepResult['update'] = {}
 
   // Collect ant updates
   const antUpdates = new Map<string, Partial<Ant>>()
@@ -94,18 +397,6 @@ const applyBehaviorResults = (
     })
   }
 
-  // Collect pheromone updates
-  const pheromoneUpdates = new Map(state.pheromones)
-  results.forEach(({ result }) => {
-    result.pheromoneUpdates.forEach((pheromone: Pheromone, key: string) => {
-      pheromoneUpdates.set(key, pheromone)
-    })
-  })
-
-  if (pheromoneUpdates.size !== state.pheromones.size) {
-    update.pheromones = pheromoneUpdates
-  }
-
   // Collect food updates
   const foodsToRemove = new Set<string>()
   const foodAmountUpdates = new Map<string, number>()
@@ -128,5 +419,20 @@ const applyBehaviorResults = (
       })
   }
 
+  // Credit delivered food to each colony's nest storage
+  const storageCredits = new Map<string, number>()
+  results.forEach(({ colonyId, result }) => {
+    if (result.deliveredFood !== undefined) {
+      storageCredits.set(colonyId, (storageCredits.get(colonyId) ?? 0) + result.deliveredFood)
+    }
+  })
+
+  if (storageCredits.size > 0) {
+    update.colonies = state.colonies.map(colony => {
+      const credit = storageCredits.get(colony.id)
+      return credit !== undefined ? { ...colony, storage: colony.storage + credit } : colony
+    })
+  }
+
   return update
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import { createSimulationRunner, type SimulationWorkerResponse } from './simulation-runner'
+import { executeSimulationTick, type SimulationState } from './simulation-engine'
+import { createColonyMetrics } from './metrics'
+import { createSingleColony } from './colony'
+import { SIMULATION_CONSTANTS } from './constants'
+import { BehaviorTuningSchema, PopulationSchema, type SimulationConfig } from './types'
+
+const config: SimulationConfig = {
+  worldWidth: 200,
+  worldHeight: 200,
+  antCount: 5,
+  pheromoneDecayRate: 0.99,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  speed: 1,
+  pheromoneDecayInterval: 10,
+  homingMode: 'omniscient',
+  pheromoneDiffusionRate: 0,
+  pheromoneDiffusionKernel: 'von-neumann',
+  evaporationModel: 'logarithmic',
+  topology: 'torus',
+  behaviorPolicy: 'default',
+  pheromoneAlpha: 1,
+  pheromoneBeta: 2,
+  pheromoneSensorCount: 3,
+  pheromoneSensorAngle: Math.PI / 4,
+  ...BehaviorTuningSchema.parse({}),
+  ...PopulationSchema.parse({}),
+}
+
+const state: SimulationState = {
+  ants: Array.from({ length: config.antCount }, (_, i) => ({
+    id: `ant-${i}`,
+    position: { x: 100, y: 100 },
+    hasFood: false,
+    targetFood: null,
+    direction: i,
+    foodAmount: null,
+    colonyId: 'colony-0',
+  })),
+  foods: [],
+  pheromones: new Map(),
+  colonies: createSingleColony({ x: 100, y: 100 }),
+  obstacles: new Set(),
+  rngState: 3,
+  tick: 0,
+  metrics: createColonyMetrics(),
+  colonyMetrics: {},
+}
+
+const createRunner = () => {
+  const responses: SimulationWorkerResponse[] = []
+  const runner = createSimulationRunner((response) => responses.push(response))
+  return { runner, responses }
+}
+
+describe('createSimulationRunner', () => {
+  it('should post a frame when a state is loaded', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 1, config, state })
+
+    expect(responses).toHaveLength(1)
+    expect(responses[0]).toMatchObject({ type: 'frame', generation: 1 })
+  })
+
+  it('should only advance while running', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 1, config, state })
+    runner.advance(SIMULATION_CONSTANTS.FRAME_DELAY_MS * 3)
+    expect(responses).toHaveLength(1)
+
+    runner.handle({ type: 'run' })
+    runner.advance(SIMULATION_CONSTANTS.FRAME_DELAY_MS * 3)
+    runner.handle({ type: 'pause' })
+
+    const last = responses[responses.length - 1]
+    expect(last.type).toBe('state')
+    expect(last.type === 'state' && last.state.tick).toBe(3)
+  })
+
+  it('should produce the same state as the engine run on the main thread', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 1, config, state })
+    runner.handle({ type: 'run' })
+    for (let i = 0; i < 5; i++) {
+      runner.advance(SIMULATION_CONSTANTS.FRAME_DELAY_MS)
+    }
+    runner.handle({ type: 'pause' })
+
+    let expected = state
+    for (let i = 0; i < 5; i++) {
+      expected = executeSimulationTick(config, expected)
+    }
+    const last = responses[responses.length - 1]
+    expect(last.type === 'state' && last.state).toEqual(expected)
+  })
+
+  it('should cap the ticks run in a single frame', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 1, config, state })
+    runner.handle({ type: 'run' })
+    runner.advance(SIMULATION_CONSTANTS.FRAME_DELAY_MS * 1000)
+    runner.handle({ type: 'pause' })
+
+    const last = responses[responses.length - 1]
+    expect(last.type === 'state' && last.state.tick).toBe(SIMULATION_CONSTANTS.MAX_TICKS_PER_FRAME)
+  })
+
+  it('should apply edits while paused and report the new state', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 2, config, state })
+    runner.handle({ type: 'addFoods', foods: [{ id: 'food-0', position: { x: 10, y: 10 }, amount: 5 }] })
+
+    const last = responses[responses.length - 1]
+    expect(last).toMatchObject({ type: 'state', generation: 2 })
+    expect(last.type === 'state' && last.state.foods.map(food => food.id)).toEqual(['food-0'])
+
+    runner.handle({ type: 'removeFoods', ids: ['food-0'] })
+    const afterRemove = responses[responses.length - 1]
+    expect(afterRemove.type === 'state' && afterRemove.state.foods).toEqual([])
+  })
+  it('should apply editor edits to the running state', () => {
+    const { runner, responses } = createRunner()
+    runner.handle({ type: 'load', generation: 1, config, state })
+    runner.handle({ type: 'run' })
+    runner.advance(SIMULATION_CONSTANTS.FRAME_DELAY_MS * 2)
+    runner.handle({ type: 'edit', edit: { type: 'moveNest', colonyId: 'colony-0', position: { x: 50, y: 60 } } })
+    runner.handle({ type: 'pause' })
+
+    const last = responses[responses.length - 1]
+    expect(last.type === 'state' && last.state.tick).toBe(2)
+    expect(last.type === 'state' && last.state.colonies[0].nest).toEqual({ x: 50, y: 60 })
+  })
+})
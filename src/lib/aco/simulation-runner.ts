@@ -0,0 +1,139 @@
+import { SIMULATION_CONSTANTS } from './constants'
+import { executeSimulationTick, type SimulationState } from './simulation-engine'
+import { createSimulationFrame, getFrameTransferables, type SimulationFrame } from './frame'
+import type { ObstacleSet } from './obstacles'
+import { applyWorldEdit, type WorldEdit } from './world-editor'
+import type { Food, SimulationConfig } from './types'
+
+/**
+ * ワーカーへの要求
+ * generation は load ごとに増やし、古い状態からの応答を見分けるために使う
+ */
+export type SimulationWorkerRequest =
+  | { type: 'load'; generation: number; config: SimulationConfig; state: SimulationState }
+  | { type: 'run' }
+  | { type: 'pause' }
+  | { type: 'config'; config: SimulationConfig }
+  | { type: 'addFoods'; foods: Food[] }
+  | { type: 'removeFoods'; ids: string[] }
+  | { type: 'obstacles'; obstacles: ObstacleSet }
+  | { type: 'edit'; edit: WorldEdit }
+
+/**
+ * ワーカーからの応答
+ * frame は描画用、state は一時停止時と一定間隔でストアへ同期する完全な状態
+ */
+export type SimulationWorkerResponse =
+  | { type: 'frame'; generation: number; frame: SimulationFrame }
+  | { type: 'state'; generation: number; state: SimulationState }
+
+/**
+ * ワーカー内でシミュレーションを進める実行器
+ */
+export type SimulationRunner = {
+  /** 要求を処理する */
+  readonly handle: (request: SimulationWorkerRequest) => void
+  /** 経過時間に応じてティックを進め、フレームを送る */
+  readonly advance: (elapsedMs: number) => void
+}
+
+/**
+ * 実行器を作成
+ * ティック数は経過時間と速度から決まるが、各ティックの結果はティック数のみに依存する
+ * @param post 応答の送信先（転送するバッファを併せて受け取る）
+ * @returns 実行器
+ */
+export const createSimulationRunner = (
+  post: (response: SimulationWorkerResponse, transfer: Transferable[]) => void
+): SimulationRunner => {
+  let config: SimulationConfig | null = null
+  let state: SimulationState | null = null
+  let generation = 0
+  let running = false
+  let pendingMs = 0
+  let sinceSyncMs = 0
+
+  const postFrame = (currentConfig: SimulationConfig, current: SimulationState) => {
+    const frame = createSimulationFrame(currentConfig, current)
+    post({ type: 'frame', generation, frame }, getFrameTransferables(frame))
+  }
+
+  const postState = (current: SimulationState) => {
+    sinceSyncMs = 0
+    post({ type: 'state', generation, state: current }, [])
+  }
+
+  // 停止中の編集はすぐに描画とストアへ反映する（実行中は次のフレームと同期で反映される）
+  const updateState = (
+    update: (current: SimulationState, currentConfig: SimulationConfig) => SimulationState
+  ) => {
+    if (!state || !config) return
+    state = update(state, config)
+    if (!running) {
+      postFrame(config, state)
+      postState(state)
+    }
+  }
+
+  const handle = (request: SimulationWorkerRequest) => {
+    switch (request.type) {
+      case 'load':
+        config = request.config
+        state = request.state
+        generation = request.generation
+        pendingMs = 0
+        sinceSyncMs = 0
+        postFrame(config, state)
+        break
+      case 'run':
+        running = true
+        break
+      case 'pause':
+        running = false
+        pendingMs = 0
+        if (state) postState(state)
+        break
+      case 'config':
+        config = request.config
+        break
+      case 'addFoods':
+        updateState(current => ({ ...current, foods: [...current.foods, ...request.foods] }))
+        break
+      case 'removeFoods': {
+        const ids = new Set(request.ids)
+        updateState(current => ({ ...current, foods: current.foods.filter(food => !ids.has(food.id)) }))
+        break
+      }
+      case 'obstacles':
+        updateState(current => ({ ...current, obstacles: request.obstacles }))
+        break
+      case 'edit':
+        updateState((current, currentConfig) => applyWorldEdit(currentConfig, current, request.edit))
+        break
+    }
+  }
+
+  const advance = (elapsedMs: number) => {
+    if (!running || !state || !config) return
+
+    const interval = SIMULATION_CONSTANTS.FRAME_DELAY_MS / config.speed
+    pendingMs += elapsedMs
+    const ticks = Math.min(Math.floor(pendingMs / interval), SIMULATION_CONSTANTS.MAX_TICKS_PER_FRAME)
+    pendingMs -= ticks * interval
+    if (ticks === SIMULATION_CONSTANTS.MAX_TICKS_PER_FRAME) {
+      pendingMs = Math.min(pendingMs, interval)
+    }
+
+    for (let i = 0; i < ticks; i++) {
+      state = executeSimulationTick(config, state)
+    }
+    if (ticks > 0) postFrame(config, state)
+
+    sinceSyncMs += elapsedMs
+    if (sinceSyncMs >= SIMULATION_CONSTANTS.WORKER_SYNC_INTERVAL_MS) {
+      postState(state)
+    }
+  }
+
+  return { handle, advance }
+}
@@ -0,0 +1,19 @@
+import { SIMULATION_CONSTANTS } from './constants'
+import { createSimulationRunner, type SimulationWorkerRequest } from './simulation-runner'
+
+const runner = createSimulationRunner((response, transfer) => {
+  self.postMessage(response, { transfer })
+})
+
+self.addEventListener('message', (event: MessageEvent<SimulationWorkerRequest>) => {
+  runner.handle(event.data)
+})
+
+let lastTime = performance.now()
+const loop = () => {
+  const now = performance.now()
+  runner.advance(now - lastTime)
+  lastTime = now
+  setTimeout(loop, SIMULATION_CONSTANTS.WORKER_FRAME_INTERVAL_MS)
+}
+loop()
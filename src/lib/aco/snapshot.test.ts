@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSnapshot,
+  deserializePheromones,
+  parseSnapshot,
+  restoreSnapshot,
+  serializePheromones,
+  serializeSnapshot,
+} from './snapshot'
+import { ScenarioSchema, createInitialState } from './scenario'
+import { executeSimulationTick, type SimulationState } from './simulation-engine'
+
+const scenario = ScenarioSchema.parse({
+  version: 1,
+  config: {
+    worldWidth: 400,
+    worldHeight: 300,
+    antCount: 30,
+    pheromoneDecayRate: 0.99,
+    pheromoneDepositAmount: 2,
+    pheromoneTrackingStrength: 0.7,
+    speed: 1,
+    pheromoneDiffusionRate: 0.1,
+  },
+  seed: 2024,
+  nest: { x: 200, y: 150 },
+  obstacles: [{ column: 10, row: 5 }],
+  randomFoodCount: 4,
+})
+
+const run = (state: SimulationState, ticks: number): SimulationState => {
+  let current = state
+  for (let i = 0; i < ticks; i++) {
+    current = executeSimulationTick(scenario.config, current)
+  }
+  return current
+}
+
+describe('serializePheromones', () => {
+  it('should preserve keys, values and insertion order', () => {
+    const pheromones = new Map([
+      ['toNest:1,1', { position: { x: 15, y: 15 }, intensity: 3.25, type: 'toNest' as const, colonyId: 'colony-0' }],
+      ['toFood:0,0', { position: { x: 5, y: 5 }, intensity: 0.1, type: 'toFood' as const, colonyId: 'colony-0' }],
+    ])
+    const restored = deserializePheromones(serializePheromones(pheromones))
+
+    expect(Array.from(restored.keys())).toEqual(['toNest:1,1', 'toFood:0,0'])
+    expect(restored).toEqual(pheromones)
+  })
+})
+
+describe('snapshot', () => {
+  it('should continue bit-for-bit after a JSON round-trip', () => {
+    const midway = run(createInitialState(scenario), 150)
+    const snapshot = parseSnapshot(serializeSnapshot(createSnapshot(scenario.config, scenario.seed, midway)))
+    const restored = restoreSnapshot(snapshot)
+
+    expect(restored).toEqual(midway)
+    expect(midway.pheromones.size).toBeGreaterThan(0)
+
+    const continued = run(restored, 100)
+    const uninterrupted = run(midway, 100)
+
+    expect(continued.tick).toBe(250)
+    expect(continued).toEqual(uninterrupted)
+  })
+
+  it('should keep the configuration and seed', () => {
+    const snapshot = createSnapshot(scenario.config, scenario.seed, createInitialState(scenario))
+
+    expect(snapshot.config).toEqual(scenario.config)
+    expect(snapshot.seed).toBe(2024)
+    expect(snapshot.obstacles).toEqual([{ column: 10, row: 5 }])
+  })
+
+  it('should assign everything in a version 1 snapshot to a single colony', () => {
+    const snapshot = createSnapshot(scenario.config, scenario.seed, run(createInitialState(scenario), 20))
+    const { colonies } = snapshot
+    const migrated = parseSnapshot(JSON.stringify({
+      ...snapshot,
+      version: 1,
+      nest: colonies[0].nest,
+      colonies: undefined,
+      colonyMetrics: undefined,
+    }))
+
+    // Version 1 predates nest storage
+    expect(migrated.colonies).toEqual(colonies.map(colony => ({ ...colony, storage: 0 })))
+    expect(restoreSnapshot(migrated).colonyMetrics['colony-0'].samples).toEqual(snapshot.metrics.samples)
+  })
+
+  it('should turn the food amount of a version 2 snapshot into the carried load', () => {
+    const snapshot = createSnapshot(scenario.config, scenario.seed, createInitialState(scenario))
+    const [first, second, third] = snapshot.ants
+    const migrated = parseSnapshot(JSON.stringify({
+      ...snapshot,
+      version: 2,
+      ants: [
+        { ...first, hasFood: true, foodAmount: 80, load: 3 },
+        { ...second, hasFood: true, foodAmount: 80 },
+        third,
+      ],
+    }))
+
+    expect(migrated.ants.map(ant => ant.foodAmount)).toEqual([3, 1, null])
+    expect(migrated.ants[0]).not.toHaveProperty('load')
+  })
+
+  it('should reject malformed snapshots', () => {
+    const snapshot = createSnapshot(scenario.config, scenario.seed, createInitialState(scenario))
+
+    expect(() => parseSnapshot(JSON.stringify({ ...snapshot, version: 4 }))).toThrow()
+    expect(() => parseSnapshot(JSON.stringify({ ...snapshot, pheromones: [['key']] }))).toThrow()
+  })
+})
@@ -0,0 +1,187 @@
+import { z } from 'zod'
+import {
+  AntSchema,
+  FoodSchema,
+  ObstacleCellSchema,
+  PheromoneSchema,
+  ColonySchema,
+  SimulationConfigSchema,
+  type Pheromone,
+  type SimulationConfig,
+} from './types'
+import { createObstacleSet, obstacleSetToCells } from './obstacles'
+import { ColonyMetricsSchema, createColonyMetrics, type ColonyMetrics } from './metrics'
+import { migrateNestToColonies } from './colony'
+import { ANT_CONSTANTS } from './constants'
+import { colonyPheromonesToMap, pheromoneMapToColonyPheromones } from './pheromone-grid'
+import { createConfigGeometry, type SimulationState } from './simulation-engine'
+
+/** 現在のスナップショット形式のバージョン */
+export const SNAPSHOT_VERSION = 3
+
+/**
+ * フェロモンマップのエントリ（キーと値の組）
+ * Map はそのままでは JSON に変換できないため、挿入順を保ったまま配列で保持する
+ */
+export const PheromoneEntrySchema = z.tuple([z.string(), PheromoneSchema])
+
+/**
+ * アリが運んでいる餌の量（foodAmount）を運搬量の意味へ移行
+ * 以前の foodAmount は餌を取った時点の餌の残量で、運んでいる量は load に持っていた
+ * ants を持たない値はそのまま返し、検証はスキーマに任せる
+ * @param value 保存されていた値
+ * @returns 移行後の値
+ */
+export const migrateCarriedFood = (value: Record<string, unknown>): Record<string, unknown> => {
+  if (!Array.isArray(value.ants)) return value
+
+  return {
+    ...value,
+    ants: value.ants.map((ant: unknown) => {
+      if (typeof ant !== 'object' || ant === null) return ant
+      const { load, ...rest } = ant as Record<string, unknown>
+      return {
+        ...rest,
+        foodAmount: rest.hasFood === true ? load ?? ANT_CONSTANTS.FOOD_CARRY_AMOUNT : null,
+      }
+    }),
+  }
+}
+
+/**
+ * 旧バージョンのスナップショットを現在の形式へ移行
+ * v1: 巣をひとつだけ nest に持つ（アリとフェロモンは既定のコロニーに属する）
+ * v2: アリの foodAmount が運んでいる量ではなく餌の残量
+ */
+const migrateSnapshot = (value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null) return value
+  let snapshot = value as Record<string, unknown>
+  if (snapshot.version === 1) {
+    snapshot = { ...migrateNestToColonies(snapshot), version: 2 }
+  }
+  if (snapshot.version === 2) {
+    snapshot = { ...migrateCarriedFood(snapshot), version: SNAPSHOT_VERSION }
+  }
+  return snapshot
+}
+
+/**
+ * 実行中のシミュレーションの完全な状態
+ * 復元後は保存時点から同じ結果で実行を続けられる
+ */
+export const SnapshotSchema = z.preprocess(migrateSnapshot, z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  config: SimulationConfigSchema,
+  seed: z.number().int().min(0),
+  tick: z.number().int().min(0),
+  rngState: z.number().int().min(0),
+  colonies: z.array(ColonySchema).min(1),
+  ants: z.array(AntSchema),
+  foods: z.array(FoodSchema),
+  pheromones: z.array(PheromoneEntrySchema),
+  obstacles: z.array(ObstacleCellSchema),
+  /** 統計（統計導入前のスナップショットでは空から始める） */
+  metrics: ColonyMetricsSchema.default(createColonyMetrics),
+  /** コロニーごとの統計（記録がないコロニーは空から始める） */
+  colonyMetrics: z.record(z.string(), ColonyMetricsSchema).default({}),
+}))
+
+export type PheromoneEntry = z.infer<typeof PheromoneEntrySchema>
+export type Snapshot = z.infer<typeof SnapshotSchema>
+
+/**
+ * フェロモンマップを JSON に変換できる配列に変換
+ * @param pheromones フェロモンマップ
+ * @returns キーと値の組の配列
+ */
+export const serializePheromones = (pheromones: Map<string, Pheromone>): PheromoneEntry[] =>
+  Array.from(pheromones, ([key, pheromone]) => [
+    key,
+    { ...pheromone, position: { ...pheromone.position } },
+  ])
+
+/**
+ * 配列からフェロモンマップを復元
+ * @param entries キーと値の組の配列
+ * @returns フェロモンマップ
+ */
+export const deserializePheromones = (entries: PheromoneEntry[]): Map<string, Pheromone> =>
+  new Map(entries.map(([key, pheromone]) => [key, { ...pheromone, position: { ...pheromone.position } }]))
+
+const cloneMetrics = (metrics: ColonyMetrics): ColonyMetrics => ({
+  ...metrics,
+  tripStartTicks: { ...metrics.tripStartTicks },
+  samples: metrics.samples.map(sample => ({ ...sample })),
+})
+
+const cloneColonyMetrics = (
+  colonyMetrics: Record<string, ColonyMetrics>
+): Record<string, ColonyMetrics> =>
+  Object.fromEntries(Object.entries(colonyMetrics).map(([id, metrics]) => [id, cloneMetrics(metrics)]))
+
+/**
+ * 現在の状態からスナップショットを作成
+ * @param config シミュレーション設定
+ * @param seed 乱数シード
+ * @param state シミュレーション状態
+ * @returns スナップショット
+ */
+export const createSnapshot = (
+  config: SimulationConfig,
+  seed: number,
+  state: SimulationState
+): Snapshot => ({
+  version: SNAPSHOT_VERSION,
+  config: { ...config },
+  seed,
+  tick: state.tick,
+  rngState: state.rngState,
+  colonies: state.colonies.map(colony => ({ ...colony, nest: { ...colony.nest } })),
+  ants: state.ants.map(ant => ({ ...ant, position: { ...ant.position } })),
+  foods: state.foods.map(food => ({ ...food, position: { ...food.position } })),
+  pheromones: serializePheromones(colonyPheromonesToMap(state.pheromones, createConfigGeometry(config))),
+  obstacles: obstacleSetToCells(state.obstacles),
+  metrics: cloneMetrics(state.metrics),
+  colonyMetrics: cloneColonyMetrics(state.colonyMetrics),
+})
+
+/**
+ * スナップショットからシミュレーション状態を復元
+ * @param snapshot スナップショット
+ * @returns シミュレーション状態
+ */
+export const restoreSnapshot = (snapshot: Snapshot): SimulationState => ({
+  ants: snapshot.ants.map(ant => ({ ...ant, position: { ...ant.position } })),
+  foods: snapshot.foods.map(food => ({ ...food, position: { ...food.position } })),
+  pheromones: pheromoneMapToColonyPheromones(
+    deserializePheromones(snapshot.pheromones),
+    createConfigGeometry(snapshot.config),
+    snapshot.colonies.map(colony => colony.id)
+  ),
+  colonies: snapshot.colonies.map(colony => ({ ...colony, nest: { ...colony.nest } })),
+  obstacles: createObstacleSet(snapshot.obstacles),
+  rngState: snapshot.rngState,
+  tick: snapshot.tick,
+  metrics: cloneMetrics(snapshot.metrics),
+  colonyMetrics: Object.fromEntries(snapshot.colonies.map(colony => [
+    colony.id,
+    cloneMetrics(snapshot.colonyMetrics[colony.id] ?? createColonyMetrics()),
+  ])),
+})
+
+/**
+ * JSON文字列からスナップショットを読み込む
+ * @param text JSON文字列
+ * @returns 検証済みのスナップショット
+ * @throws JSONとして不正な場合、またはスキーマに合わない場合
+ */
+export const parseSnapshot = (text: string): Snapshot =>
+  SnapshotSchema.parse(JSON.parse(text))
+
+/**
+ * スナップショットをJSON文字列に変換
+ * @param snapshot スナップショット
+ * @returns JSON文字列
+ */
+export const serializeSnapshot = (snapshot: Snapshot): string =>
+  JSON.stringify(snapshot) + '\n'
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_TRAITS, drawAntProfile, getAntTraits, hasHeterogeneity } from './traits'
+import { CASTE_CONSTANTS } from './constants'
+import { createRng } from './random'
+import { PopulationSchema, type Ant } from './types'
+
+const uniformPopulation = PopulationSchema.parse({})
+
+const ant: Ant = {
+  id: 'ant-0',
+  position: { x: 0, y: 0 },
+  hasFood: false,
+  targetFood: null,
+  direction: 0,
+  foodAmount: null,
+  colonyId: 'colony-0',
+}
+
+describe('hasHeterogeneity', () => {
+  it('should be false for the default population', () => {
+    expect(hasHeterogeneity(uniformPopulation)).toBe(false)
+    expect(hasHeterogeneity({ ...uniformPopulation, scoutRatio: 0.2 })).toBe(true)
+    expect(hasHeterogeneity({ ...uniformPopulation, capacityVariation: 0.1 })).toBe(true)
+  })
+})
+
+describe('drawAntProfile', () => {
+  it('should split castes by the scout ratio', () => {
+    const rng = createRng(5)
+    const castes = Array.from({ length: 400 }, () =>
+      drawAntProfile({ ...uniformPopulation, scoutRatio: 0.25 }, rng).caste
+    )
+    const scouts = castes.filter(caste => caste === 'scout').length
+
+    expect(scouts).toBeGreaterThan(70)
+    expect(scouts).toBeLessThan(130)
+  })
+
+  it('should give each caste its base traits without variation', () => {
+    const rng = createRng(1)
+
+    expect(drawAntProfile({ ...uniformPopulation, scoutRatio: 1 }, rng)).toEqual({
+      caste: 'scout',
+      traits: CASTE_CONSTANTS.BASE_TRAITS.scout,
+    })
+    expect(drawAntProfile(uniformPopulation, rng)).toEqual({ caste: 'worker', traits: DEFAULT_TRAITS })
+  })
+
+  it('should keep uniform variation within the configured spread', () => {
+    const rng = createRng(9)
+    const population = { ...uniformPopulation, speedVariation: 0.2 }
+    const speeds = Array.from({ length: 200 }, () => drawAntProfile(population, rng).traits.speed)
+
+    speeds.forEach((speed) => {
+      expect(speed).toBeGreaterThanOrEqual(0.8)
+      expect(speed).toBeLessThan(1.2)
+    })
+    expect(new Set(speeds).size).toBeGreaterThan(100)
+  })
+
+  it('should draw normally distributed traits around the base and never below the floor', () => {
+    const rng = createRng(3)
+    const population = { ...uniformPopulation, traitDistribution: 'normal' as const, capacityVariation: 1 }
+    const capacities = Array.from({ length: 500 }, () => drawAntProfile(population, rng).traits.carryCapacity)
+    const mean = capacities.reduce((sum, value) => sum + value, 0) / capacities.length
+
+    expect(Math.min(...capacities)).toBeGreaterThanOrEqual(CASTE_CONSTANTS.MIN_TRAIT_FACTOR)
+    expect(Math.max(...capacities)).toBeGreaterThan(2)
+    expect(mean).toBeGreaterThan(0.9)
+    expect(mean).toBeLessThan(1.4)
+  })
+})
+
+describe('getAntTraits', () => {
+  it('should fall back to the caste base traits and then to a worker', () => {
+    const traits = { speed: 2, pheromoneSensitivity: 0.5, carryCapacity: 3, explorationBias: 1 }
+
+    expect(getAntTraits({ ...ant, caste: 'scout', traits })).toBe(traits)
+    expect(getAntTraits({ ...ant, caste: 'scout' })).toEqual(CASTE_CONSTANTS.BASE_TRAITS.scout)
+    expect(getAntTraits(ant)).toEqual(DEFAULT_TRAITS)
+  })
+})
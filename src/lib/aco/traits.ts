@@ -0,0 +1,81 @@
+import { CASTE_CONSTANTS } from './constants'
+import type { Rng } from './random'
+import type { Ant, AntTraits, Caste, Population, TraitDistribution } from './types'
+
+/** 個体差のない働きアリの特性 */
+export const DEFAULT_TRAITS: AntTraits = CASTE_CONSTANTS.BASE_TRAITS.worker
+
+/**
+ * 個体差やカーストが設定されているか
+ * 設定されていない場合はアリに特性を持たせず、乱数も消費しない
+ * @param population 個体差の設定
+ * @returns 個体差がある場合は true
+ */
+export const hasHeterogeneity = (population: Population): boolean =>
+  population.scoutRatio > 0 ||
+  population.speedVariation > 0 ||
+  population.sensitivityVariation > 0 ||
+  population.capacityVariation > 0 ||
+  population.explorationVariation > 0
+
+/**
+ * 平均0・ばらつき1の乱数を引く
+ * uniform: [-1, 1) の一様分布 / normal: 標準正規分布（Box-Muller法）
+ */
+const drawDeviation = (distribution: TraitDistribution, rng: Rng): number => {
+  if (distribution === 'uniform') return rng.next() * 2 - 1
+
+  const u1 = 1 - rng.next()
+  const u2 = rng.next()
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+}
+
+/**
+ * 基準値に個体差を掛ける
+ * variation が 0 の場合は乱数を消費せず基準値を返す
+ */
+const varyTrait = (
+  base: number,
+  variation: number,
+  distribution: TraitDistribution,
+  rng: Rng
+): number => {
+  if (variation === 0) return base
+  const factor = 1 + variation * drawDeviation(distribution, rng)
+  return base * Math.max(CASTE_CONSTANTS.MIN_TRAIT_FACTOR, factor)
+}
+
+/**
+ * 1匹分のカーストと特性を引く
+ * カーストを scoutRatio の割合で選び、その基準の特性に設定された分布で個体差を加える
+ * @param population 個体差の設定
+ * @param rng 擬似乱数生成器
+ * @returns カーストと特性
+ */
+export const drawAntProfile = (
+  population: Population,
+  rng: Rng
+): { caste: Caste; traits: AntTraits } => {
+  const caste: Caste = population.scoutRatio > 0 && rng.next() < population.scoutRatio ? 'scout' : 'worker'
+  const base = CASTE_CONSTANTS.BASE_TRAITS[caste]
+  const { traitDistribution: distribution } = population
+
+  return {
+    caste,
+    traits: {
+      speed: varyTrait(base.speed, population.speedVariation, distribution, rng),
+      pheromoneSensitivity: varyTrait(base.pheromoneSensitivity, population.sensitivityVariation, distribution, rng),
+      carryCapacity: varyTrait(base.carryCapacity, population.capacityVariation, distribution, rng),
+      explorationBias: varyTrait(base.explorationBias, population.explorationVariation, distribution, rng),
+    },
+  }
+}
+
+/**
+ * アリの特性を取得
+ * 特性を持たないアリはカーストの基準値（カーストもなければ働きアリ）を使う
+ * @param ant アリ
+ * @returns 特性
+ */
+export const getAntTraits = (ant: Ant): AntTraits =>
+  ant.traits ?? CASTE_CONSTANTS.BASE_TRAITS[ant.caste ?? 'worker']
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { ANT_CONSTANTS, COLONY_CONSTANTS, PHEROMONE_CONSTANTS, SIMULATION_CONSTANTS } from './constants'
 
 export const PositionSchema = z.object({
   x: z.number(),
@@ -9,6 +10,18 @@ export const FoodSchema = z.object({
   id: z.string(),
   position: PositionSchema,
   amount: z.number().positive(),
+  quality: z.number().positive().optional(),
+})
+
+export const BehaviorPolicyIdSchema = z.enum(['default', 'random-walk', 'pheromone-greedy', 'aco-probabilistic'])
+
+export const CasteSchema = z.enum(['worker', 'scout'])
+
+export const AntTraitsSchema = z.object({
+  speed: z.number().positive(),
+  pheromoneSensitivity: z.number().min(0),
+  carryCapacity: z.number().positive(),
+  explorationBias: z.number().min(0),
 })
 
 export const AntSchema = z.object({
@@ -17,27 +30,110 @@ export const AntSchema = z.object({
   hasFood: z.boolean(),
   targetFood: z.string().nullable(),
   direction: z.number(),
-  foodAmount: z.number().nullable(),
+  foodAmount: z.number().min(0).nullable(),
+  foodQuality: z.number().positive().optional(),
+  colonyId: z.string().default(COLONY_CONSTANTS.DEFAULT_COLONY_ID),
+  behaviorPolicy: BehaviorPolicyIdSchema.optional(),
+  caste: CasteSchema.optional(),
+  traits: AntTraitsSchema.optional(),
+})
+
+export const ObstacleCellSchema = z.object({
+  column: z.number().int(),
+  row: z.number().int(),
 })
 
+export const PheromoneTypeSchema = z.enum(['toFood', 'toNest'])
+
 export const PheromoneSchema = z.object({
   position: PositionSchema,
   intensity: z.number().min(0).max(100),
-  type: z.enum(['toFood', 'toNest']),
+  type: PheromoneTypeSchema,
+  colonyId: z.string().default(COLONY_CONSTANTS.DEFAULT_COLONY_ID),
+})
+
+export const ColonySchema = z.object({
+  id: z.string(),
+  nest: PositionSchema,
+  color: z.string(),
+  storage: z.number().min(0).default(0),
+})
+
+export const HomingModeSchema = z.enum(['omniscient', 'pheromone'])
+
+export const DiffusionKernelSchema = z.enum(['von-neumann', 'moore'])
+
+export const EvaporationModelIdSchema = z.enum(['exponential', 'linear', 'logarithmic', 'max-min'])
+
+export const TopologySchema = z.enum(['torus', 'bounded-reflect', 'bounded-clamp'])
+
+export const BehaviorTuningSchema = z.object({
+  antSpeed: z.number().min(0.5).max(10).default(ANT_CONSTANTS.DEFAULT_SPEED),
+  antTurnRange: z.number().min(0).max(Math.PI).default(ANT_CONSTANTS.DEFAULT_RANDOM_TURN_RANGE),
+  foodDetectionRange: z.number().min(0).max(100).default(ANT_CONSTANTS.FOOD_DETECTION_DISTANCE),
+  foodCollectionRange: z.number().min(1).max(50).default(ANT_CONSTANTS.FOOD_COLLECTION_DISTANCE),
+  foodApproachBias: z.number().min(0).max(1).default(ANT_CONSTANTS.FOOD_APPROACH_BIAS),
+  foodApproachTurnRange: z.number().min(0).max(Math.PI).default(ANT_CONSTANTS.FOOD_APPROACH_TURN_RANGE),
+  antCarryCapacity: z.number().min(1).max(20).default(ANT_CONSTANTS.FOOD_CARRY_AMOUNT),
+  nestArrivalRange: z.number().min(1).max(50).default(ANT_CONSTANTS.NEST_ARRIVAL_DISTANCE),
+  nestDetectionRange: z.number().min(0).max(200).default(ANT_CONSTANTS.NEST_DETECTION_DISTANCE),
+  collisionAvoidanceRadius: z.number().min(0).max(50).default(ANT_CONSTANTS.DEFAULT_AVOIDANCE_RADIUS),
+  collisionAvoidanceStrength: z.number().min(0).max(1).default(ANT_CONSTANTS.DEFAULT_AVOIDANCE_STRENGTH),
+  pheromoneSensorDistance: z.number().min(1).max(100).default(PHEROMONE_CONSTANTS.SENSOR_DISTANCE),
+  pheromoneDetectionRadius: z.number().min(1).max(100).default(PHEROMONE_CONSTANTS.DETECTION_RADIUS),
+  pheromoneMinimumStrength: z.number().min(0).max(10).default(PHEROMONE_CONSTANTS.MIN_TRACKING_STRENGTH),
+})
+
+export const TraitDistributionSchema = z.enum(['uniform', 'normal'])
+
+export const PopulationSchema = z.object({
+  scoutRatio: z.number().min(0).max(1).default(0),
+  traitDistribution: TraitDistributionSchema.default('uniform'),
+  speedVariation: z.number().min(0).max(1).default(0),
+  sensitivityVariation: z.number().min(0).max(1).default(0),
+  capacityVariation: z.number().min(0).max(1).default(0),
+  explorationVariation: z.number().min(0).max(1).default(0),
 })
 
 export const SimulationConfigSchema = z.object({
   worldWidth: z.number().positive(),
   worldHeight: z.number().positive(),
-  antCount: z.number().int().min(1).max(100),
+  antCount: z.number().int().min(1).max(1000),
   pheromoneDecayRate: z.number().min(0.9).max(0.999),
   pheromoneDepositAmount: z.number().min(0.1).max(10),
   pheromoneTrackingStrength: z.number().min(0.1).max(1.0),
   speed: z.number().min(0.1).max(10),
+  pheromoneDecayInterval: z.number().int().min(1)
+    .default(SIMULATION_CONSTANTS.PHEROMONE_DECAY_INTERVAL_TICKS),
+  homingMode: HomingModeSchema.default('omniscient'),
+  pheromoneDiffusionRate: z.number().min(0).max(1).default(0),
+  pheromoneDiffusionKernel: DiffusionKernelSchema.default('von-neumann'),
+  evaporationModel: EvaporationModelIdSchema.default('logarithmic'),
+  topology: TopologySchema.default('torus'),
+  behaviorPolicy: BehaviorPolicyIdSchema.default('default'),
+  pheromoneAlpha: z.number().min(0).max(5).default(PHEROMONE_CONSTANTS.DEFAULT_ALPHA),
+  pheromoneBeta: z.number().min(0).max(5).default(PHEROMONE_CONSTANTS.DEFAULT_BETA),
+  pheromoneSensorCount: z.number().int().min(1).max(9).default(PHEROMONE_CONSTANTS.SENSOR_COUNT),
+  pheromoneSensorAngle: z.number().min(0).max(Math.PI / 2).default(PHEROMONE_CONSTANTS.SENSOR_ANGLE),
+  ...BehaviorTuningSchema.shape,
+  ...PopulationSchema.shape,
 })
 
 export type Position = z.infer<typeof PositionSchema>
 export type Food = z.infer<typeof FoodSchema>
+export type Caste = z.infer<typeof CasteSchema>
+export type AntTraits = z.infer<typeof AntTraitsSchema>
 export type Ant = z.infer<typeof AntSchema>
+export type ObstacleCell = z.infer<typeof ObstacleCellSchema>
+export type PheromoneType = z.infer<typeof PheromoneTypeSchema>
 export type Pheromone = z.infer<typeof PheromoneSchema>
+export type Colony = z.infer<typeof ColonySchema>
+export type HomingMode = z.infer<typeof HomingModeSchema>
+export type DiffusionKernel = z.infer<typeof DiffusionKernelSchema>
+export type EvaporationModelId = z.infer<typeof EvaporationModelIdSchema>
+export type Topology = z.infer<typeof TopologySchema>
+export type BehaviorPolicyId = z.infer<typeof BehaviorPolicyIdSchema>
+export type BehaviorTuning = z.infer<typeof BehaviorTuningSchema>
+export type TraitDistribution = z.infer<typeof TraitDistributionSchema>
+export type Population = z.infer<typeof PopulationSchema>
 export type SimulationConfig = z.infer<typeof SimulationConfigSchema>
\ No newline at end of file
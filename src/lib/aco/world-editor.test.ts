@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import { applyWorldEdit, findColonyAt, findFoodAt } from './world-editor'
+import { createPheromoneKey } from './pheromone'
+import { createColonyMetrics } from './metrics'
+import { addColony, createSingleColony } from './colony'
+import { createObstacleSet } from './obstacles'
+import { colonyPheromonesToMap, pheromoneMapToColonyPheromones } from './pheromone-grid'
+import { createConfigGeometry, type SimulationState } from './simulation-engine'
+import { BehaviorTuningSchema, PopulationSchema, type SimulationConfig } from './types'
+
+const config: SimulationConfig = {
+  worldWidth: 200,
+  worldHeight: 100,
+  antCount: 1,
+  pheromoneDecayRate: 0.99,
+  pheromoneDepositAmount: 2,
+  pheromoneTrackingStrength: 0.7,
+  speed: 1,
+  pheromoneDecayInterval: 10,
+  homingMode: 'omniscient',
+  pheromoneDiffusionRate: 0,
+  pheromoneDiffusionKernel: 'von-neumann',
+  evaporationModel: 'logarithmic',
+  topology: 'torus',
+  behaviorPolicy: 'default',
+  pheromoneAlpha: 1,
+  pheromoneBeta: 2,
+  pheromoneSensorCount: 3,
+  pheromoneSensorAngle: Math.PI / 4,
+  ...BehaviorTuningSchema.parse({}),
+  ...PopulationSchema.parse({}),
+}
+
+const geometry = createConfigGeometry(config)
+
+const state: SimulationState = {
+  ants: [],
+  foods: [
+    { id: 'food-0', position: { x: 50, y: 50 }, amount: 100 },
+    { id: 'food-1', position: { x: 150, y: 50 }, amount: 20 },
+  ],
+  pheromones: new Map(),
+  colonies: addColony(createSingleColony({ x: 100, y: 50 }), { x: 20, y: 20 }),
+  obstacles: createObstacleSet([{ column: 1, row: 1 }]),
+  rngState: 1,
+  tick: 0,
+  metrics: createColonyMetrics(),
+  colonyMetrics: {},
+}
+
+describe('applyWorldEdit', () => {
+  it('should move a food source and keep it inside the world', () => {
+    const moved = applyWorldEdit(config, state, { type: 'moveFood', id: 'food-1', position: { x: 500, y: -5 } })
+
+    expect(moved.foods[1].position).toEqual({ x: 200, y: 0 })
+    expect(moved.foods[0]).toBe(state.foods[0])
+  })
+
+  it('should move only the chosen colony\'s nest', () => {
+    const moved = applyWorldEdit(config, state, { type: 'moveNest', colonyId: 'colony-1', position: { x: 30, y: 40 } })
+
+    expect(moved.colonies.map(colony => colony.nest)).toEqual([{ x: 100, y: 50 }, { x: 30, y: 40 }])
+  })
+
+  it('should paint pheromone into the cells under the brush except walls', () => {
+    const painted = applyWorldEdit(config, state, {
+      type: 'paintPheromone',
+      position: { x: 15, y: 15 },
+      radius: 10,
+      pheromoneType: 'toFood',
+      colonyId: 'colony-1',
+      amount: 60,
+    })
+
+    const paintedMap = colonyPheromonesToMap(painted.pheromones, geometry)
+    expect(paintedMap.has(createPheromoneKey({ x: 15, y: 15 }, 'toFood', 'colony-1'))).toBe(false)
+    expect(paintedMap.get(createPheromoneKey({ x: 25, y: 15 }, 'toFood', 'colony-1'))).toEqual({
+      position: { x: 25, y: 15 },
+      intensity: 60,
+      type: 'toFood',
+      colonyId: 'colony-1',
+    })
+    expect(paintedMap.size).toBe(4)
+
+    const again = applyWorldEdit(config, painted, {
+      type: 'paintPheromone',
+      position: { x: 25, y: 15 },
+      radius: 0,
+      pheromoneType: 'toFood',
+      colonyId: 'colony-1',
+      amount: 60,
+    })
+    expect(colonyPheromonesToMap(again.pheromones, geometry).get(createPheromoneKey({ x: 25, y: 15 }, 'toFood', 'colony-1'))?.intensity).toBe(100)
+  })
+
+  it('should not paint outside the world', () => {
+    const painted = applyWorldEdit(config, state, {
+      type: 'paintPheromone',
+      position: { x: 198, y: 98 },
+      radius: 10,
+      pheromoneType: 'toNest',
+      colonyId: 'colony-0',
+      amount: 10,
+    })
+
+    const paintedMap = colonyPheromonesToMap(painted.pheromones, geometry)
+    expect(paintedMap.size).toBeGreaterThan(0)
+    Array.from(paintedMap.values()).forEach(({ position }) => {
+      expect(position.x).toBeLessThan(config.worldWidth)
+      expect(position.y).toBeLessThan(config.worldHeight)
+    })
+  })
+
+  it('should erase pheromone of every type and colony within the radius', () => {
+    const pheromoneMap = new Map([
+      [createPheromoneKey({ x: 55, y: 55 }, 'toFood'), { position: { x: 55, y: 55 }, intensity: 5, type: 'toFood' as const, colonyId: 'colony-0' }],
+      [createPheromoneKey({ x: 55, y: 55 }, 'toNest', 'colony-1'), { position: { x: 55, y: 55 }, intensity: 5, type: 'toNest' as const, colonyId: 'colony-1' }],
+      [createPheromoneKey({ x: 95, y: 55 }, 'toFood'), { position: { x: 95, y: 55 }, intensity: 5, type: 'toFood' as const, colonyId: 'colony-0' }],
+    ])
+    const pheromones = pheromoneMapToColonyPheromones(pheromoneMap, geometry, ['colony-0', 'colony-1'])
+    const erased = applyWorldEdit(config, { ...state, pheromones }, {
+      type: 'erasePheromone',
+      position: { x: 50, y: 50 },
+      radius: 10,
+    })
+
+    expect(Array.from(colonyPheromonesToMap(erased.pheromones, geometry).keys()))
+      .toEqual([createPheromoneKey({ x: 95, y: 55 }, 'toFood')])
+    expect(colonyPheromonesToMap(pheromones, geometry).size).toBe(3)
+  })
+})
+
+describe('findFoodAt', () => {
+  it('should pick up food within its drawn size or the minimum hit radius', () => {
+    expect(findFoodAt(state.foods, { x: 58, y: 50 })?.id).toBe('food-0')
+    expect(findFoodAt(state.foods, { x: 156, y: 50 })?.id).toBe('food-1')
+    expect(findFoodAt(state.foods, { x: 100, y: 90 })).toBeNull()
+  })
+})
+
+describe('findColonyAt', () => {
+  it('should find the nest under the position', () => {
+    expect(findColonyAt(state.colonies, { x: 25, y: 25 })?.id).toBe('colony-1')
+    expect(findColonyAt(state.colonies, { x: 150, y: 90 })).toBeNull()
+  })
+})
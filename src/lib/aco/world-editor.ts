@@ -0,0 +1,208 @@
+import { EDITOR_CONSTANTS, PHEROMONE_CONSTANTS } from './constants'
+import {
+  createPheromoneGrid,
+  decayPheromoneGrid,
+  getCellCenter,
+  getCellIndex,
+  type ColonyPheromones,
+} from './pheromone-grid'
+import { isBlocked } from './obstacles'
+import { createConfigGeometry, type SimulationState } from './simulation-engine'
+import {
+  PheromoneTypeSchema,
+  type Ant,
+  type Colony,
+  type Food,
+  type Pheromone,
+  type PheromoneType,
+  type Position,
+  type SimulationConfig,
+} from './types'
+
+/**
+ * エディタなどによる世界の編集
+ * 実行中でもワーカーとストアの両方で同じ結果になるよう、操作そのものを値として表す
+ */
+export type WorldEdit =
+  | { type: 'moveFood'; id: string; position: Position }
+  | { type: 'moveNest'; colonyId: string; position: Position }
+  | {
+      type: 'paintPheromone'
+      position: Position
+      radius: number
+      pheromoneType: PheromoneType
+      colonyId: string
+      amount: number
+    }
+  | { type: 'erasePheromone'; position: Position; radius: number }
+  | { type: 'updateAnt'; id: string; updates: Partial<Ant> }
+  | { type: 'setPheromone'; pheromone: Pheromone }
+  | { type: 'decayPheromones' }
+
+const clampToWorld = (config: SimulationConfig, position: Position): Position => ({
+  x: Math.min(Math.max(position.x, 0), config.worldWidth),
+  y: Math.min(Math.max(position.y, 0), config.worldHeight),
+})
+
+const isWithin = (a: Position, b: Position, radius: number): boolean =>
+  (a.x - b.x) ** 2 + (a.y - b.y) ** 2 <= radius ** 2
+
+/**
+ * 半径内のセルにフェロモンを塗る
+ * 世界の外と壁のセルには塗らない
+ */
+const paintPheromone = (
+  config: SimulationConfig,
+  state: SimulationState,
+  edit: Extract<WorldEdit, { type: 'paintPheromone' }>
+): ColonyPheromones => {
+  const cellSize = PHEROMONE_CONSTANTS.GRID_CELL_SIZE
+  const grid = createPheromoneGrid(createConfigGeometry(config), cellSize, state.pheromones.get(edit.colonyId))
+  const layer = grid.layers[edit.pheromoneType]
+  const minColumn = Math.max(0, Math.floor((edit.position.x - edit.radius) / cellSize))
+  const maxColumn = Math.min(
+    Math.ceil(config.worldWidth / cellSize) - 1,
+    Math.floor((edit.position.x + edit.radius) / cellSize)
+  )
+  const minRow = Math.max(0, Math.floor((edit.position.y - edit.radius) / cellSize))
+  const maxRow = Math.min(
+    Math.ceil(config.worldHeight / cellSize) - 1,
+    Math.floor((edit.position.y + edit.radius) / cellSize)
+  )
+
+  for (let column = minColumn; column <= maxColumn; column++) {
+    for (let row = minRow; row <= maxRow; row++) {
+      const position = { x: column * cellSize + cellSize / 2, y: row * cellSize + cellSize / 2 }
+      if (!isWithin(position, edit.position, edit.radius) || isBlocked(state.obstacles, position)) continue
+
+      const index = row * grid.columns + column
+      layer[index] = Math.min(PHEROMONE_CONSTANTS.MAX_INTENSITY, layer[index] + edit.amount)
+    }
+  }
+
+  return new Map(state.pheromones).set(edit.colonyId, grid.layers)
+}
+
+/**
+ * 半径内のセルのフェロモンを、すべてのコロニー・種類について消す
+ */
+const erasePheromone = (
+  config: SimulationConfig,
+  state: SimulationState,
+  edit: Extract<WorldEdit, { type: 'erasePheromone' }>
+): ColonyPheromones => {
+  const geometry = createConfigGeometry(config)
+  const pheromones: ColonyPheromones = new Map()
+
+  state.pheromones.forEach((layers, colonyId) => {
+    const grid = createPheromoneGrid(geometry, PHEROMONE_CONSTANTS.GRID_CELL_SIZE, layers)
+    PheromoneTypeSchema.options.forEach((type) => {
+      const layer = grid.layers[type]
+      for (let i = 0; i < layer.length; i++) {
+        if (layer[i] > 0 && isWithin(getCellCenter(grid, i), edit.position, edit.radius)) layer[i] = 0
+      }
+    })
+    pheromones.set(colonyId, grid.layers)
+  })
+
+  return pheromones
+}
+
+/**
+ * 位置のセルのフェロモン濃度を指定した値にする
+ */
+const setPheromone = (config: SimulationConfig, state: SimulationState, pheromone: Pheromone): ColonyPheromones => {
+  const grid = createPheromoneGrid(
+    createConfigGeometry(config),
+    PHEROMONE_CONSTANTS.GRID_CELL_SIZE,
+    state.pheromones.get(pheromone.colonyId)
+  )
+  grid.layers[pheromone.type][getCellIndex(grid, pheromone.position)] = pheromone.intensity
+  return new Map(state.pheromones).set(pheromone.colonyId, grid.layers)
+}
+
+/**
+ * すべてのコロニーのフェロモンを 1 回分減衰させる
+ */
+const decayPheromones = (config: SimulationConfig, state: SimulationState): ColonyPheromones => {
+  const geometry = createConfigGeometry(config)
+  const pheromones: ColonyPheromones = new Map()
+
+  state.pheromones.forEach((layers, colonyId) => {
+    const grid = createPheromoneGrid(geometry, PHEROMONE_CONSTANTS.GRID_CELL_SIZE, layers)
+    decayPheromoneGrid(grid, config.pheromoneDecayRate, config.evaporationModel)
+    pheromones.set(colonyId, grid.layers)
+  })
+
+  return pheromones
+}
+
+/**
+ * 編集を適用した状態を返す
+ * 対象の餌・コロニー・アリが既にない場合は何もしない
+ * @param config シミュレーション設定
+ * @param state シミュレーション状態
+ * @param edit 編集内容
+ * @returns 編集後の状態
+ */
+export const applyWorldEdit = (
+  config: SimulationConfig,
+  state: SimulationState,
+  edit: WorldEdit
+): SimulationState => {
+  switch (edit.type) {
+    case 'moveFood':
+      return {
+        ...state,
+        foods: state.foods.map(food =>
+          food.id === edit.id ? { ...food, position: clampToWorld(config, edit.position) } : food
+        ),
+      }
+    case 'moveNest':
+      return {
+        ...state,
+        colonies: state.colonies.map(colony =>
+          colony.id === edit.colonyId ? { ...colony, nest: clampToWorld(config, edit.position) } : colony
+        ),
+      }
+    case 'paintPheromone':
+      return { ...state, pheromones: paintPheromone(config, state, edit) }
+    case 'erasePheromone':
+      return { ...state, pheromones: erasePheromone(config, state, edit) }
+    case 'updateAnt':
+      return {
+        ...state,
+        ants: state.ants.map(ant => ant.id === edit.id ? { ...ant, ...edit.updates } : ant),
+      }
+    case 'setPheromone':
+      return { ...state, pheromones: setPheromone(config, state, edit.pheromone) }
+    case 'decayPheromones':
+      return { ...state, pheromones: decayPheromones(config, state) }
+  }
+}
+
+/**
+ * 位置にある餌を探す
+ * 重なっている場合は後から描かれた（手前に見える）餌を返す
+ * @param foods 餌の一覧
+ * @param position 位置
+ * @returns 餌（見つからない場合は null）
+ */
+export const findFoodAt = (foods: Food[], position: Position): Food | null => {
+  for (let i = foods.length - 1; i >= 0; i--) {
+    const radius = Math.max(EDITOR_CONSTANTS.FOOD_HIT_RADIUS, foods[i].amount / 10)
+    if (isWithin(foods[i].position, position, radius)) return foods[i]
+  }
+  return null
+}
+
+/**
+ * 位置にある巣のコロニーを探す
+ * @param colonies コロニー一覧
+ * @param position 位置
+ * @returns コロニー（見つからない場合は null）
+ */
+export const findColonyAt = (colonies: Colony[], position: Position): Colony | null =>
+  [...colonies].reverse().find(colony =>
+    isWithin(colony.nest, position, EDITOR_CONSTANTS.NEST_HIT_RADIUS)
+  ) ?? null
@@ -1,6 +1,13 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { ACOSimulation } from '@/components/ACOSimulation'
+import { parseSimulationSearch } from '@/lib/aco/share'
+
+const IndexPage = () => {
+  const search = Route.useSearch()
+  return <ACOSimulation sharedSetup={search} />
+}
 
 export const Route = createFileRoute('/')({
-  component: ACOSimulation,
-})
\ No newline at end of file
+  validateSearch: parseSimulationSearch,
+  component: IndexPage,
+})
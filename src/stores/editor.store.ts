@@ -0,0 +1,61 @@
+import { create } from 'zustand'
+import { ANT_CONSTANTS, EDITOR_CONSTANTS, COLONY_CONSTANTS } from '../lib/aco/constants'
+import type { PheromoneType } from '../lib/aco/types'
+
+/**
+ * キャンバスで使う編集ツール
+ * food: 餌を置く・ドラッグで動かす / eraseFood: 餌を消す / nest: 巣をドラッグで動かす
+ * wall, eraseWall: 壁を描く・消す / pheromone, erasePheromone: フェロモンを塗る・消す
+ */
+export type EditorTool =
+  | 'food'
+  | 'eraseFood'
+  | 'nest'
+  | 'wall'
+  | 'eraseWall'
+  | 'pheromone'
+  | 'erasePheromone'
+
+type EditorState = {
+  tool: EditorTool
+  /** 新しく置く餌の量 */
+  foodAmount: number
+  /** 新しく置く餌の質 */
+  foodQuality: number
+  /** 塗るフェロモンの種類 */
+  pheromoneType: PheromoneType
+  /** 塗るフェロモンのコロニー */
+  pheromoneColonyId: string
+  setTool: (tool: EditorTool) => void
+  setFoodAmount: (amount: number) => void
+  setFoodQuality: (quality: number) => void
+  setPheromoneType: (type: PheromoneType) => void
+  setPheromoneColonyId: (colonyId: string) => void
+}
+
+/**
+ * ワールドエディタの状態のストア
+ * 画面上の操作の状態のみを持ち、保存はしない
+ */
+export const useEditorStore = create<EditorState>()((set) => ({
+  tool: 'food',
+  foodAmount: EDITOR_CONSTANTS.DEFAULT_FOOD_AMOUNT,
+  foodQuality: ANT_CONSTANTS.DEFAULT_FOOD_QUALITY,
+  pheromoneType: 'toFood',
+  pheromoneColonyId: COLONY_CONSTANTS.DEFAULT_COLONY_ID,
+  setTool: (tool) => {
+    set({ tool })
+  },
+  setFoodAmount: (amount) => {
+    set({ foodAmount: amount })
+  },
+  setFoodQuality: (quality) => {
+    set({ foodQuality: quality })
+  },
+  setPheromoneType: (type) => {
+    set({ pheromoneType: type })
+  },
+  setPheromoneColonyId: (colonyId) => {
+    set({ pheromoneColonyId: colonyId })
+  },
+}))
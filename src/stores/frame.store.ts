@@ -0,0 +1,18 @@
+import { create } from 'zustand'
+import type { SimulationFrame } from '../lib/aco/frame'
+
+type FrameState = {
+  frame: SimulationFrame | null
+  publishFrame: (frame: SimulationFrame) => void
+}
+
+/**
+ * 描画用フレームのストア
+ * 毎ティック更新されるため、コンポーネントは購読せず描画ループの中で getState() から読む
+ */
+export const useFrameStore = create<FrameState>()((set) => ({
+  frame: null,
+  publishFrame: (frame) => {
+    set({ frame })
+  },
+}))
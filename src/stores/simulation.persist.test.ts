@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { StateStorage } from 'zustand/middleware'
+import {
+  PERSIST_VERSION,
+  PERSIST_WRITE_DELAY_MS,
+  createDeferredJSONStorage,
+  migratePersistedState,
+  restorePersistedState,
+  serializePersistedState,
+  type PersistedState,
+} from './simulation.persist'
+import { ScenarioSchema, createInitialState } from '../lib/aco/scenario'
+import { createConfigGeometry, executeSimulationTick } from '../lib/aco/simulation-engine'
+import { colonyPheromonesToMap } from '../lib/aco/pheromone-grid'
+
+const scenario = ScenarioSchema.parse({
+  version: 1,
+  config: {
+    worldWidth: 400,
+    worldHeight: 300,
+    antCount: 10,
+    pheromoneDecayRate: 0.98,
+    pheromoneDepositAmount: 3,
+    pheromoneTrackingStrength: 0.5,
+    speed: 2,
+    homingMode: 'pheromone',
+  },
+  seed: 5,
+  nest: { x: 200, y: 150 },
+  obstacles: [{ column: 3, row: 4 }],
+  randomFoodCount: 2,
+})
+
+const createSession = () => {
+  let state = createInitialState(scenario)
+  for (let i = 0; i < 30; i++) {
+    state = executeSimulationTick(scenario.config, state)
+  }
+  return state
+}
+
+const createMemoryStorage = (): StateStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value)
+    },
+    removeItem: (name) => {
+      items.delete(name)
+    },
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('migratePersistedState', () => {
+  it('should move the single nest of a version 1 session into colonies', () => {
+    const session = { ants: [], foods: [], pheromones: [], nest: { x: 1, y: 2 }, obstacles: [], rngState: 3, tick: 4 }
+    const migrated = migratePersistedState(
+      { config: scenario.config, seed: 1, restoreLastSession: true, session },
+      1
+    )
+
+    expect(restorePersistedState(migrated)).toMatchObject({
+      colonies: [{ id: 'colony-0', nest: { x: 1, y: 2 } }],
+      tick: 4,
+    })
+  })
+
+  it('should turn the food amount of a version 2 session into the carried load', () => {
+    const ant = { id: 'ant-0', position: { x: 1, y: 2 }, hasFood: true, targetFood: null, direction: 0, foodAmount: 80 }
+    const session = { ants: [ant], foods: [], pheromones: [], colonies: scenario.colonies, obstacles: [], rngState: 3, tick: 4 }
+    const migrated = migratePersistedState(
+      { config: scenario.config, seed: 1, restoreLastSession: true, session },
+      2
+    )
+
+    expect(restorePersistedState(migrated).ants?.[0].foodAmount).toBe(1)
+  })
+
+  it('should leave current versions untouched', () => {
+    const persisted = { config: scenario.config, seed: 1, restoreLastSession: false, session: null }
+
+    expect(migratePersistedState(persisted, PERSIST_VERSION)).toBe(persisted)
+  })
+})
+
+describe('restorePersistedState', () => {
+  it('should discard settings that fail SimulationConfigSchema', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(restorePersistedState({
+      config: { ...scenario.config, antCount: 5000 },
+      seed: 1,
+      restoreLastSession: false,
+      session: null,
+    })).toEqual({})
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('should only restore the session when enabled', () => {
+    const session = JSON.parse(JSON.stringify({
+      ants: [],
+      foods: [],
+      pheromones: [],
+      colonies: [{ id: 'colony-0', nest: { x: 1, y: 2 }, color: '#FFFFFF' }],
+      obstacles: [],
+      rngState: 3,
+      tick: 4,
+    }))
+    const persisted = { config: scenario.config, seed: 1, restoreLastSession: false, session }
+
+    expect(restorePersistedState(persisted)).not.toHaveProperty('tick')
+    expect(restorePersistedState({ ...persisted, restoreLastSession: true })).toMatchObject({ tick: 4 })
+  })
+
+  it('should keep the settings when the session is broken', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const restored = restorePersistedState({
+      config: scenario.config,
+      seed: 1,
+      restoreLastSession: true,
+      session: { ants: 'broken' },
+    })
+
+    expect(restored).toEqual({ ...scenario.config, seed: 1, restoreLastSession: true })
+    warn.mockRestore()
+  })
+})
+
+describe('createDeferredJSONStorage', () => {
+  it('should batch writes and keep only the latest value', () => {
+    vi.useFakeTimers()
+    const memory = createMemoryStorage()
+    const storage = createDeferredJSONStorage<number>(() => memory, 1000)!
+
+    storage.setItem('key', { state: 1, version: 1 })
+    storage.setItem('key', { state: 2, version: 1 })
+    expect(memory.items.has('key')).toBe(false)
+
+    vi.advanceTimersByTime(1000)
+    expect(JSON.parse(memory.items.get('key')!)).toEqual({ state: 2, version: 1 })
+  })
+
+  it('should round-trip a live session including pheromones and obstacles', () => {
+    vi.useFakeTimers()
+    const memory = createMemoryStorage()
+    const storage = createDeferredJSONStorage<PersistedState>(
+      () => memory,
+      PERSIST_WRITE_DELAY_MS,
+      serializePersistedState
+    )!
+    const session = createSession()
+
+    storage.setItem('key', {
+      state: { config: scenario.config, seed: scenario.seed, restoreLastSession: true, session },
+      version: PERSIST_VERSION,
+    })
+    vi.runAllTimers()
+
+    const stored = storage.getItem('key') as { state: unknown }
+    const restored = restorePersistedState(stored.state)
+
+    expect(colonyPheromonesToMap(session.pheromones, createConfigGeometry(scenario.config)).size).toBeGreaterThan(0)
+    expect(restored).toEqual({
+      ...scenario.config,
+      seed: scenario.seed,
+      restoreLastSession: true,
+      ...session,
+      metrics: { ...session.metrics, samples: [] },
+      colonyMetrics: Object.fromEntries(
+        Object.entries(session.colonyMetrics).map(([id, metrics]) => [id, { ...metrics, samples: [] }])
+      ),
+    })
+    expect(session.metrics.samples).toHaveLength(30)
+  })
+
+  it('should drop a write the storage rejects instead of throwing', () => {
+    vi.useFakeTimers()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const memory = createMemoryStorage()
+    const storage = createDeferredJSONStorage<number>(() => ({
+      ...memory,
+      setItem: () => {
+        throw new DOMException('quota exceeded', 'QuotaExceededError')
+      },
+    }), 1000)!
+
+    storage.setItem('key', { state: 1, version: 1 })
+
+    expect(() => vi.advanceTimersByTime(1000)).not.toThrow()
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,244 @@
+import { z } from 'zod'
+import type { PersistStorage, StateStorage, StorageValue } from 'zustand/middleware'
+import {
+  AntSchema,
+  ColonySchema,
+  FoodSchema,
+  SimulationConfigSchema,
+  type SimulationConfig,
+} from '../lib/aco/types'
+import {
+  PheromoneEntrySchema,
+  deserializePheromones,
+  migrateCarriedFood,
+  serializePheromones,
+} from '../lib/aco/snapshot'
+import { createConfigGeometry, type SimulationState as EngineState } from '../lib/aco/simulation-engine'
+import { colonyPheromonesToMap, pheromoneMapToColonyPheromones } from '../lib/aco/pheromone-grid'
+import { ColonyMetricsSchema, createColonyMetrics, type ColonyMetrics } from '../lib/aco/metrics'
+import { migrateNestToColonies } from '../lib/aco/colony'
+
+/** 永続化形式のバージョン */
+export const PERSIST_VERSION = 3
+
+/** 書き込みをまとめる間隔（ミリ秒） */
+export const PERSIST_WRITE_DELAY_MS = 1000
+
+/**
+ * localStorage に保存する内容
+ * session は「前回のセッションを復元」が有効な場合のみ保存する
+ */
+export type PersistedState = {
+  config: SimulationConfig
+  seed: number
+  restoreLastSession: boolean
+  session: EngineState | null
+}
+
+/**
+ * 保存内容から復元されるストアの状態
+ */
+export type RestoredState = Partial<SimulationConfig & EngineState & {
+  seed: number
+  restoreLastSession: boolean
+}>
+
+const PersistedSettingsSchema = z.object({
+  config: SimulationConfigSchema,
+  seed: z.number().int().min(0),
+  restoreLastSession: z.boolean().default(false),
+  session: z.unknown(),
+})
+
+/**
+ * 保存されたセッション
+ * フェロモンはエントリの配列として、Set は書き込み時に配列へ変換されている
+ */
+const PersistedSessionSchema = z.object({
+  ants: z.array(AntSchema),
+  foods: z.array(FoodSchema),
+  pheromones: z.array(PheromoneEntrySchema),
+  colonies: z.array(ColonySchema).min(1),
+  obstacles: z.array(z.string()),
+  rngState: z.number().int().min(0),
+  tick: z.number().int().min(0),
+  metrics: ColonyMetricsSchema.default(createColonyMetrics),
+  colonyMetrics: z.record(z.string(), ColonyMetricsSchema).default({}),
+})
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * バージョンごとの移行処理
+ * キーのバージョンから次のバージョンへ変換する
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: セッションが巣をひとつだけ nest に持つ形式
+  1: (state) => ({
+    ...state,
+    session: typeof state.session === 'object' && state.session !== null
+      ? migrateNestToColonies(state.session as Record<string, unknown>)
+      : state.session,
+  }),
+  // v2: セッションのアリの foodAmount が運んでいる量ではなく餌の残量
+  2: (state) => ({
+    ...state,
+    session: typeof state.session === 'object' && state.session !== null
+      ? migrateCarriedFood(state.session as Record<string, unknown>)
+      : state.session,
+  }),
+}
+
+/**
+ * 保存内容を現在のバージョンへ移行
+ * 移行できない場合は null を返し、保存内容は使われない
+ * @param persisted 保存内容
+ * @param version 保存時のバージョン
+ * @returns 移行後の保存内容
+ */
+export const migratePersistedState = (persisted: unknown, version: number): unknown => {
+  let state = persisted
+
+  for (let current = version; current < PERSIST_VERSION; current++) {
+    const migration = MIGRATIONS[current]
+    if (!migration || typeof state !== 'object' || state === null) return null
+    state = migration(state as Record<string, unknown>)
+  }
+
+  return state
+}
+
+/**
+ * 保存内容を検証し、ストアに反映する状態を取り出す
+ * 設定が SimulationConfigSchema に合わない場合は何も復元しない
+ * セッションが壊れている場合は設定のみ復元する
+ * @param persisted 保存内容
+ * @returns ストアに反映する状態
+ */
+export const restorePersistedState = (persisted: unknown): RestoredState => {
+  const settings = PersistedSettingsSchema.safeParse(persisted)
+  if (!settings.success) {
+    if (persisted != null) {
+      console.warn('保存された設定が不正なため破棄しました:', settings.error)
+    }
+    return {}
+  }
+
+  const { config, seed, restoreLastSession } = settings.data
+  const restored: RestoredState = { ...config, seed, restoreLastSession }
+  if (!restoreLastSession || settings.data.session == null) return restored
+
+  const session = PersistedSessionSchema.safeParse(settings.data.session)
+  if (!session.success) {
+    console.warn('保存されたセッションが不正なため破棄しました:', session.error)
+    return restored
+  }
+
+  return {
+    ...restored,
+    ...session.data,
+    pheromones: pheromoneMapToColonyPheromones(
+      deserializePheromones(session.data.pheromones),
+      createConfigGeometry(config),
+      session.data.colonies.map(colony => colony.id)
+    ),
+    obstacles: new Set(session.data.obstacles),
+  }
+}
+
+/**
+ * 統計から時系列を除く（累計は往復の平均などを続けて計算するために残す）
+ */
+const withoutSamples = (metrics: ColonyMetrics): ColonyMetrics => ({ ...metrics, samples: [] })
+
+/**
+ * 保存内容を書き込める形にする
+ * セッションのフェロモンはコロニーごとの層のままでは書き出せないため、エントリの配列に変換する
+ * 統計の時系列は最大 METRICS_HISTORY_LIMIT 件まで増えるため保存しない
+ * @param persisted 保存内容
+ * @returns JSON に変換する値
+ */
+export const serializePersistedState = (persisted: PersistedState): unknown => ({
+  ...persisted,
+  session: persisted.session && {
+    ...persisted.session,
+    pheromones: serializePheromones(
+      colonyPheromonesToMap(persisted.session.pheromones, createConfigGeometry(persisted.config))
+    ),
+    metrics: withoutSamples(persisted.session.metrics),
+    colonyMetrics: Object.fromEntries(
+      Object.entries(persisted.session.colonyMetrics).map(([id, metrics]) => [id, withoutSamples(metrics)])
+    ),
+  },
+})
+
+/**
+ * Map と Set を配列として書き出す
+ */
+const persistReplacer = (_key: string, value: unknown): unknown =>
+  value instanceof Map || value instanceof Set ? Array.from(value) : value
+
+/**
+ * 書き込みを間引く JSON ストレージ
+ * シミュレーションは毎フレーム状態を更新するため、直列化と書き込みは
+ * delayMs ごとに最新の内容だけを対象に行う。ページを離れる際には即座に書き込む
+ * @param getStorage 書き込み先のストレージ
+ * @param delayMs 書き込みをまとめる間隔（ミリ秒）
+ * @param serialize 書き込む直前に状態を変換する処理
+ * @returns persist ミドルウェア用のストレージ（ストレージが使えない場合は undefined）
+ */
+export const createDeferredJSONStorage = <S>(
+  getStorage: () => StateStorage,
+  delayMs: number = PERSIST_WRITE_DELAY_MS,
+  serialize: (state: S) => unknown = state => state
+): PersistStorage<S> | undefined => {
+  let storage: StateStorage
+  try {
+    storage = getStorage()
+  } catch {
+    return undefined
+  }
+
+  const pending = new Map<string, StorageValue<S>>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+    // 容量超過などで書き込めなかった内容は捨てる（次の更新で改めて書き込まれる）
+    pending.forEach((value, name) => {
+      try {
+        storage.setItem(name, JSON.stringify({ ...value, state: serialize(value.state) }, persistReplacer))
+      } catch (error) {
+        console.warn('状態を保存できませんでした:', error)
+      }
+    })
+    pending.clear()
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush)
+  }
+
+  const parse = (text: string | null): StorageValue<S> | null =>
+    text === null ? null : JSON.parse(text)
+
+  return {
+    getItem: (name) => {
+      const text = storage.getItem(name)
+      return text instanceof Promise ? text.then(parse) : parse(text)
+    },
+    setItem: (name, value) => {
+      pending.set(name, value)
+      if (timer === null) {
+        timer = setTimeout(flush, delayMs)
+      }
+    },
+    removeItem: (name) => {
+      pending.delete(name)
+      return storage.removeItem(name)
+    },
+  }
+}
@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { act, renderHook } from '@testing-library/react'
-import { useSimulationStore } from './simulation.store'
+import { useSimulationStore, selectEngineState, selectSimulationConfig } from './simulation.store'
+import { createConfigGeometry, executeSimulationTick } from '../lib/aco/simulation-engine'
+import { colonyPheromonesToMap, type ColonyPheromones } from '../lib/aco/pheromone-grid'
+import { createColonyMetrics } from '../lib/aco/metrics'
+import { createSingleColony } from '../lib/aco/colony'
+import { BehaviorTuningSchema, PopulationSchema } from '../lib/aco/types'
+import { PERSIST_VERSION } from './simulation.persist'
+
+const toPheromoneMap = (pheromones: ColonyPheromones) =>
+  colonyPheromonesToMap(pheromones, createConfigGeometry(selectSimulationConfig(useSimulationStore.getState())))
 
 describe('useSimulationStore', () => {
   beforeEach(() => {
@@ -8,7 +17,8 @@ describe('useSimulationStore', () => {
       ants: [],
       foods: [],
       pheromones: new Map(),
-      nest: { x: 400, y: 300 },
+      colonies: createSingleColony({ x: 400, y: 300 }),
+      obstacles: new Set(),
       isRunning: false,
       speed: 1,
       antCount: 50,
@@ -17,6 +27,24 @@ describe('useSimulationStore', () => {
       pheromoneTrackingStrength: 0.7,
       worldWidth: 800,
       worldHeight: 600,
+      pheromoneDecayInterval: 10,
+      homingMode: 'omniscient',
+      pheromoneDiffusionRate: 0,
+      pheromoneDiffusionKernel: 'von-neumann',
+      evaporationModel: 'logarithmic',
+      topology: 'torus',
+      behaviorPolicy: 'default',
+      pheromoneAlpha: 1,
+      pheromoneBeta: 2,
+      pheromoneSensorCount: 3,
+      pheromoneSensorAngle: Math.PI / 4,
+      ...BehaviorTuningSchema.parse({}),
+      ...PopulationSchema.parse({}),
+      tick: 0,
+      metrics: createColonyMetrics(),
+      colonyMetrics: {},
+      lastEdit: null,
+      restoreLastSession: false,
     })
   })
 
@@ -37,6 +65,7 @@ describe('useSimulationStore', () => {
         targetFood: null,
         direction: expect.any(Number),
         foodAmount: null,
+        colonyId: 'colony-0',
       })
     })
 
@@ -44,10 +73,11 @@ describe('useSimulationStore', () => {
       const { result } = renderHook(() => useSimulationStore())
       
       act(() => {
-        result.current.updatePheromone('test', {
+        result.current.updatePheromone({
           position: { x: 100, y: 100 },
           type: 'toFood',
           intensity: 100,
+          colonyId: 'colony-0',
         })
       })
       
@@ -59,6 +89,231 @@ describe('useSimulationStore', () => {
       
       expect(result.current.pheromones.size).toBe(0)
     })
+
+    it('should empty the nest storage when initializing', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        useSimulationStore.setState({
+          colonies: result.current.colonies.map(colony => ({ ...colony, storage: 12 })),
+        })
+        result.current.initializeSimulation()
+      })
+
+      expect(result.current.colonies.map(colony => colony.storage)).toEqual([0])
+    })
+  })
+
+  describe('stepSimulation', () => {
+    it('should advance the tick and move ants', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      
+      act(() => {
+        result.current.setSeed(1)
+      })
+      
+      const initialAnts = result.current.ants
+      
+      act(() => {
+        result.current.stepSimulation()
+      })
+      
+      expect(result.current.tick).toBe(1)
+      expect(result.current.ants).not.toEqual(initialAnts)
+    })
+
+    it('should match the pure simulation engine', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      
+      act(() => {
+        result.current.setSeed(5)
+        result.current.addRandomFoods(3)
+      })
+      
+      let expected = selectEngineState(useSimulationStore.getState())
+      const config = selectSimulationConfig(useSimulationStore.getState())
+      
+      for (let i = 0; i < 20; i++) {
+        expected = executeSimulationTick(config, expected)
+        act(() => {
+          result.current.stepSimulation()
+        })
+      }
+      
+      expect(selectEngineState(useSimulationStore.getState())).toEqual(expected)
+    })
+
+    it('should reset the tick when reinitializing', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      
+      act(() => {
+        result.current.stepSimulation()
+        result.current.initializeSimulation()
+      })
+      
+      expect(result.current.tick).toBe(0)
+    })
+  })
+
+  describe('setSeed', () => {
+    it('should reproduce ant headings and food placement for the same seed', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      
+      act(() => {
+        result.current.setSeed(1234)
+        result.current.addRandomFoods(3)
+      })
+      
+      const firstAnts = result.current.ants
+      const firstFoods = result.current.foods
+      
+      act(() => {
+        useSimulationStore.setState({ foods: [] })
+        result.current.setSeed(1234)
+        result.current.addRandomFoods(3)
+      })
+      
+      expect(result.current.ants).toEqual(firstAnts)
+      expect(result.current.foods).toEqual(firstFoods)
+    })
+  })
+
+  describe('scenario', () => {
+    it('should round-trip the layout through save and load', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setSeed(7)
+        result.current.addRandomFoods(3)
+        result.current.addObstacle({ x: 55, y: 65 })
+        result.current.setTopology('bounded-clamp')
+      })
+
+      const saved = result.current.saveScenario()
+
+      act(() => {
+        result.current.reset()
+        result.current.clearObstacles()
+        result.current.setTopology('torus')
+        result.current.loadScenario(saved)
+      })
+
+      expect(result.current.saveScenario()).toEqual(saved)
+      expect(result.current.topology).toBe('bounded-clamp')
+      expect(result.current.ants).toHaveLength(50)
+      expect(result.current.tick).toBe(0)
+    })
+
+    it('should apply world size, nest and config from the scenario', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      const saved = result.current.saveScenario()
+
+      act(() => {
+        result.current.loadScenario({
+          ...saved,
+          config: { ...saved.config, worldWidth: 400, worldHeight: 300, antCount: 5 },
+          colonies: createSingleColony({ x: 100, y: 100 }),
+        })
+      })
+
+      expect(result.current.worldWidth).toBe(400)
+      expect(result.current.worldHeight).toBe(300)
+      expect(result.current.ants).toHaveLength(5)
+      result.current.ants.forEach(ant => expect(ant.position).toEqual({ x: 100, y: 100 }))
+    })
+  })
+
+  describe('snapshot', () => {
+    it('should resume from a saved snapshot exactly', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setSeed(11)
+        result.current.addRandomFoods(5)
+        for (let i = 0; i < 40; i++) {
+          result.current.stepSimulation()
+        }
+      })
+
+      const snapshot = result.current.saveSnapshot()
+
+      act(() => {
+        for (let i = 0; i < 20; i++) {
+          result.current.stepSimulation()
+        }
+      })
+
+      const expected = selectEngineState(useSimulationStore.getState())
+
+      act(() => {
+        result.current.reset()
+        result.current.loadSnapshot(snapshot)
+      })
+
+      expect(result.current.tick).toBe(40)
+
+      act(() => {
+        for (let i = 0; i < 20; i++) {
+          result.current.stepSimulation()
+        }
+      })
+
+      expect(selectEngineState(useSimulationStore.getState())).toEqual(expected)
+    })
+  })
+
+  describe('loadSharedSetup', () => {
+    it('should apply config and seed from a shared link', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      let loaded = false
+
+      act(() => {
+        loaded = result.current.loadSharedSetup({ antCount: 30, seed: 12, topology: 'bounded-clamp' })
+      })
+
+      expect(loaded).toBe(true)
+      expect(result.current.antCount).toBe(30)
+      expect(result.current.ants).toHaveLength(30)
+      expect(result.current.seed).toBe(12)
+      expect(result.current.topology).toBe('bounded-clamp')
+      expect(result.current.foods).toHaveLength(10)
+    })
+
+    it('should leave the store untouched for a broken layout', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      let loaded = true
+
+      act(() => {
+        loaded = result.current.loadSharedSetup({ antCount: 30, scenario: 'broken' })
+      })
+
+      expect(loaded).toBe(false)
+      expect(result.current.antCount).toBe(50)
+    })
+  })
+
+  describe('persistence', () => {
+    it('should restore validated settings when rehydrating', async () => {
+      const config = selectSimulationConfig(useSimulationStore.getState())
+      localStorage.setItem('aco-simulation', JSON.stringify({
+        state: {
+          config: { ...config, speed: 3, antCount: 120, pheromoneDepositAmount: 4 },
+          seed: 77,
+          restoreLastSession: false,
+          session: null,
+        },
+        version: PERSIST_VERSION,
+      }))
+
+      await useSimulationStore.persist.rehydrate()
+
+      const state = useSimulationStore.getState()
+      expect(state.speed).toBe(3)
+      expect(state.antCount).toBe(120)
+      expect(state.pheromoneDepositAmount).toBe(4)
+      expect(state.seed).toBe(77)
+      localStorage.removeItem('aco-simulation')
+    })
   })
 
   describe('toggleSimulation', () => {
@@ -93,6 +348,34 @@ describe('useSimulationStore', () => {
     })
   })
 
+  describe('setBehaviorTuning', () => {
+    it('should pass the tuned values to the engine config', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setBehaviorTuning({ antSpeed: 4, nestArrivalRange: 20 })
+      })
+
+      const config = selectSimulationConfig(result.current)
+      expect(config.antSpeed).toBe(4)
+      expect(config.nestArrivalRange).toBe(20)
+      expect(config.foodDetectionRange).toBe(20)
+    })
+  })
+
+  describe('setPopulation', () => {
+    it('should recreate the ants with castes drawn from the new ratio', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setPopulation({ scoutRatio: 1 })
+      })
+
+      expect(result.current.ants).toHaveLength(50)
+      result.current.ants.forEach((ant) => expect(ant.caste).toBe('scout'))
+    })
+  })
+
   describe('setAntCount', () => {
     it('should update ant count and reinitialize simulation', () => {
       const { result } = renderHook(() => useSimulationStore())
@@ -122,6 +405,26 @@ describe('useSimulationStore', () => {
       })
     })
 
+    it('should add food with the given amount', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.addFood({ x: 10, y: 20 }, 250)
+      })
+
+      expect(result.current.foods[0]).toMatchObject({ position: { x: 10, y: 20 }, amount: 250 })
+    })
+
+    it('should add food with the given quality', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.addFood({ x: 10, y: 20 }, 250, 2.5)
+      })
+
+      expect(result.current.foods[0]).toMatchObject({ amount: 250, quality: 2.5 })
+    })
+
     it('should remove food by id', () => {
       const { result } = renderHook(() => useSimulationStore())
       
@@ -173,6 +476,146 @@ describe('useSimulationStore', () => {
     })
   })
 
+  describe('obstacle management', () => {
+    it('should add an obstacle to the cell containing the position', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.addObstacle({ x: 105, y: 207 })
+        result.current.addObstacle({ x: 101, y: 203 })
+      })
+
+      expect(result.current.obstacles.size).toBe(1)
+      expect(result.current.obstacles.has('10,20')).toBe(true)
+    })
+
+    it('should remove an obstacle', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.addObstacle({ x: 105, y: 207 })
+        result.current.addObstacle({ x: 305, y: 207 })
+        result.current.removeObstacle({ x: 100, y: 200 })
+      })
+
+      expect(Array.from(result.current.obstacles)).toEqual(['30,20'])
+    })
+
+    it('should clear all obstacles', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.addObstacle({ x: 105, y: 207 })
+        result.current.clearObstacles()
+      })
+
+      expect(result.current.obstacles.size).toBe(0)
+    })
+
+    it('should keep ants out of walls while stepping', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        // 巣を囲む壁
+        for (let x = 360; x <= 440; x += 10) {
+          result.current.addObstacle({ x, y: 260 })
+          result.current.addObstacle({ x, y: 340 })
+        }
+        for (let y = 270; y <= 330; y += 10) {
+          result.current.addObstacle({ x: 360, y })
+          result.current.addObstacle({ x: 440, y })
+        }
+        result.current.initializeSimulation()
+        for (let i = 0; i < 100; i++) {
+          result.current.stepSimulation()
+        }
+      })
+
+      result.current.ants.forEach(ant => {
+        expect(ant.position.x).toBeGreaterThan(360)
+        expect(ant.position.x).toBeLessThan(440)
+        expect(ant.position.y).toBeGreaterThan(260)
+        expect(ant.position.y).toBeLessThan(340)
+      })
+    })
+  })
+
+  describe('world editing', () => {
+    it('should apply the edit and remember it for the worker', () => {
+      const { result } = renderHook(() => useSimulationStore())
+      const edit = { type: 'moveNest', colonyId: 'colony-0', position: { x: 10, y: 20 } } as const
+
+      act(() => {
+        result.current.editWorld(edit)
+      })
+
+      expect(result.current.colonies[0].nest).toEqual({ x: 10, y: 20 })
+      expect(result.current.lastEdit).toBe(edit)
+    })
+
+    it('should mark only replaced states for the worker to reload', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.initializeSimulation()
+      })
+      const revision = result.current.stateRevision
+      const snapshot = result.current.saveSnapshot()
+
+      act(() => {
+        result.current.updateAnt(result.current.ants[0].id, { hasFood: true })
+        result.current.updatePheromone({
+          position: { x: 100, y: 100 },
+          type: 'toFood',
+          intensity: 10,
+          colonyId: 'colony-0',
+        })
+        result.current.decayPheromones()
+        result.current.syncEngineState(selectEngineState(useSimulationStore.getState()))
+      })
+
+      expect(result.current.stateRevision).toBe(revision)
+      expect(result.current.lastEdit).toEqual({ type: 'decayPheromones' })
+
+      act(() => {
+        result.current.loadSnapshot(snapshot)
+      })
+
+      expect(result.current.stateRevision).toBe(revision + 1)
+    })
+  })
+
+  describe('colony management', () => {
+    it('should add a colony and give it its own ants', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setAntCount(5)
+        result.current.addColony({ x: 100, y: 100 })
+      })
+
+      expect(result.current.colonies.map(colony => colony.id)).toEqual(['colony-0', 'colony-1'])
+      expect(result.current.ants).toHaveLength(10)
+      result.current.ants
+        .filter(ant => ant.colonyId === 'colony-1')
+        .forEach(ant => expect(ant.position).toEqual({ x: 100, y: 100 }))
+      expect(Object.keys(result.current.colonyMetrics)).toEqual(['colony-0', 'colony-1'])
+    })
+
+    it('should go back to the first colony only', () => {
+      const { result } = renderHook(() => useSimulationStore())
+
+      act(() => {
+        result.current.setAntCount(5)
+        result.current.addColony({ x: 100, y: 100 })
+        result.current.resetColonies()
+      })
+
+      expect(result.current.colonies).toEqual(createSingleColony({ x: 400, y: 300 }))
+      expect(result.current.ants).toHaveLength(5)
+    })
+  })
+
   describe('ant management', () => {
     it('should update ant properties', () => {
       const { result } = renderHook(() => useSimulationStore())
@@ -204,23 +647,27 @@ describe('useSimulationStore', () => {
         position: { x: 100, y: 100 },
         type: 'toFood' as const,
         intensity: 100,
+        colonyId: 'colony-0',
       }
       
       act(() => {
-        result.current.updatePheromone('100,100', pheromone)
+        result.current.updatePheromone(pheromone)
       })
       
-      expect(result.current.pheromones.get('100,100')).toEqual(pheromone)
+      expect(Array.from(toPheromoneMap(result.current.pheromones).values())).toEqual([
+        { ...pheromone, position: { x: 105, y: 105 } },
+      ])
     })
 
     it('should decay pheromones', () => {
       const { result } = renderHook(() => useSimulationStore())
       
       act(() => {
-        result.current.updatePheromone('10,10', {
+        result.current.updatePheromone({
           position: { x: 105, y: 105 },
           type: 'toFood',
           intensity: 50,
+          colonyId: 'colony-0',
         })
         result.current.setPheromoneDecayRate(0.95)
       })
@@ -229,7 +676,7 @@ describe('useSimulationStore', () => {
         result.current.decayPheromones()
       })
       
-      const decayedPheromone = result.current.pheromones.get('10,10')
+      const [decayedPheromone] = toPheromoneMap(result.current.pheromones).values()
       expect(decayedPheromone?.intensity).toBeTypeOf('number')
       expect(decayedPheromone?.intensity).toBeLessThan(50)
     })
@@ -238,10 +685,11 @@ describe('useSimulationStore', () => {
       const { result } = renderHook(() => useSimulationStore())
       
       act(() => {
-        result.current.updatePheromone('10,10', {
+        result.current.updatePheromone({
           position: { x: 100, y: 100 },
           type: 'toFood',
           intensity: 0.05,  // Start with very low intensity
+          colonyId: 'colony-0',
         })
         result.current.setPheromoneDecayRate(0.5)
       })
@@ -251,7 +699,7 @@ describe('useSimulationStore', () => {
       })
       
       // With logarithmic decay, low intensity pheromones should be removed
-      expect(result.current.pheromones.has('10,10')).toBe(false)
+      expect(toPheromoneMap(result.current.pheromones).size).toBe(0)
     })
   })
 
@@ -261,10 +709,11 @@ describe('useSimulationStore', () => {
       
       act(() => {
         result.current.addFood({ x: 100, y: 100 })
-        result.current.updatePheromone('test', {
+        result.current.updatePheromone({
           position: { x: 100, y: 100 },
           type: 'toFood',
           intensity: 100,
+          colonyId: 'colony-0',
         })
         result.current.toggleSimulation()
       })
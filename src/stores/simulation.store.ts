@@ -1,13 +1,53 @@
 import { create } from 'zustand'
-import { devtools } from 'zustand/middleware'
-import type { Position, Food, Ant, Pheromone } from '../lib/aco/types'
-import { decayPheromones } from '../lib/aco/pheromone'
+import { devtools, persist } from 'zustand/middleware'
+import type {
+  Position,
+  Colony,
+  Food,
+  Ant,
+  Pheromone,
+  SimulationConfig,
+  HomingMode,
+  DiffusionKernel,
+  EvaporationModelId,
+  Topology,
+  BehaviorPolicyId,
+  BehaviorTuning,
+  Population,
+} from '../lib/aco/types'
+import { BehaviorTuningSchema, PopulationSchema } from '../lib/aco/types'
+import type { ColonyPheromones } from '../lib/aco/pheromone-grid'
+import { createRng, createRandomSeed } from '../lib/aco/random'
+import { EDITOR_CONSTANTS, PHEROMONE_CONSTANTS, SIMULATION_CONSTANTS } from '../lib/aco/constants'
+import {
+  createInitialAnts,
+  createRandomFoods,
+  executeSimulationTick,
+  type SimulationState as EngineState,
+} from '../lib/aco/simulation-engine'
+import { createObstacleKey, type ObstacleSet } from '../lib/aco/obstacles'
+import { createColonyMetrics, type ColonyMetrics } from '../lib/aco/metrics'
+import { addColony, createSingleColony } from '../lib/aco/colony'
+import { applyWorldEdit, type WorldEdit } from '../lib/aco/world-editor'
+import { createInitialState, createScenario, type Scenario } from '../lib/aco/scenario'
+import { createSnapshot, restoreSnapshot, type Snapshot } from '../lib/aco/snapshot'
+import { createScenarioFromSearch, type SimulationSearch } from '../lib/aco/share'
+import {
+  PERSIST_VERSION,
+  PERSIST_WRITE_DELAY_MS,
+  createDeferredJSONStorage,
+  migratePersistedState,
+  restorePersistedState,
+  serializePersistedState,
+  type PersistedState,
+} from './simulation.persist'
 
-type SimulationState = {
+type SimulationState = BehaviorTuning & Population & {
   ants: Ant[]
   foods: Food[]
-  pheromones: Map<string, Pheromone>
-  nest: Position
+  pheromones: ColonyPheromones
+  colonies: Colony[]
+  obstacles: ObstacleSet
   isRunning: boolean
   speed: number
   antCount: number
@@ -16,163 +56,457 @@ type SimulationState = {
   pheromoneTrackingStrength: number
   worldWidth: number
   worldHeight: number
+  pheromoneDecayInterval: number
+  homingMode: HomingMode
+  pheromoneDiffusionRate: number
+  pheromoneDiffusionKernel: DiffusionKernel
+  evaporationModel: EvaporationModelId
+  topology: Topology
+  behaviorPolicy: BehaviorPolicyId
+  pheromoneAlpha: number
+  pheromoneBeta: number
+  pheromoneSensorCount: number
+  pheromoneSensorAngle: number
+  seed: number
+  rngState: number
+  tick: number
+  metrics: ColonyMetrics
+  colonyMetrics: Record<string, ColonyMetrics>
+  /** 最後に行ったエディタの編集（実行中のワーカーへ転送するために保持する） */
+  lastEdit: WorldEdit | null
+  /** 初期化や読み込みで状態を置き換えた回数（変わったときだけワーカーに読み込み直させる） */
+  stateRevision: number
+  restoreLastSession: boolean
 }
 
 type SimulationActions = {
   initializeSimulation: () => void
+  stepSimulation: () => void
+  syncEngineState: (engineState: EngineState) => void
   toggleSimulation: () => void
   setSpeed: (speed: number) => void
   setAntCount: (count: number) => void
   setPheromoneDecayRate: (rate: number) => void
   setPheromoneDepositAmount: (amount: number) => void
   setPheromoneTrackingStrength: (strength: number) => void
-  addFood: (position: Position) => void
+  setHomingMode: (mode: HomingMode) => void
+  setPheromoneDiffusionRate: (rate: number) => void
+  setPheromoneDiffusionKernel: (kernel: DiffusionKernel) => void
+  setEvaporationModel: (model: EvaporationModelId) => void
+  setTopology: (topology: Topology) => void
+  setBehaviorPolicy: (policy: BehaviorPolicyId) => void
+  setPheromoneAlpha: (alpha: number) => void
+  setPheromoneBeta: (beta: number) => void
+  setPheromoneSensorCount: (count: number) => void
+  setPheromoneSensorAngle: (angle: number) => void
+  setBehaviorTuning: (tuning: Partial<BehaviorTuning>) => void
+  setPopulation: (population: Partial<Population>) => void
+  setSeed: (seed: number) => void
+  setRestoreLastSession: (restore: boolean) => void
+  loadScenario: (scenario: Scenario) => void
+  saveScenario: () => Scenario
+  loadSnapshot: (snapshot: Snapshot) => void
+  saveSnapshot: () => Snapshot
+  loadSharedSetup: (search: SimulationSearch) => boolean
+  addColony: (position: Position) => void
+  resetColonies: () => void
+  addFood: (position: Position, amount?: number, quality?: number) => void
   removeFood: (id: string) => void
+  editWorld: (edit: WorldEdit) => void
+  addObstacle: (position: Position) => void
+  removeObstacle: (position: Position) => void
+  clearObstacles: () => void
   updateFood: (id: string, updates: Partial<Food>) => void
   addRandomFoods: (count: number) => void
   updateAnt: (id: string, updates: Partial<Ant>) => void
-  updatePheromone: (key: string, pheromone: Pheromone) => void
+  updatePheromone: (pheromone: Pheromone) => void
   decayPheromones: () => void
   reset: () => void
 }
 
+/**
+ * ストアの状態からエンジン用の設定を取り出す
+ */
+export const selectSimulationConfig = (state: SimulationState): SimulationConfig => ({
+  worldWidth: state.worldWidth,
+  worldHeight: state.worldHeight,
+  antCount: state.antCount,
+  pheromoneDecayRate: state.pheromoneDecayRate,
+  pheromoneDepositAmount: state.pheromoneDepositAmount,
+  pheromoneTrackingStrength: state.pheromoneTrackingStrength,
+  speed: state.speed,
+  pheromoneDecayInterval: state.pheromoneDecayInterval,
+  homingMode: state.homingMode,
+  pheromoneDiffusionRate: state.pheromoneDiffusionRate,
+  pheromoneDiffusionKernel: state.pheromoneDiffusionKernel,
+  evaporationModel: state.evaporationModel,
+  topology: state.topology,
+  behaviorPolicy: state.behaviorPolicy,
+  pheromoneAlpha: state.pheromoneAlpha,
+  pheromoneBeta: state.pheromoneBeta,
+  pheromoneSensorCount: state.pheromoneSensorCount,
+  pheromoneSensorAngle: state.pheromoneSensorAngle,
+  antSpeed: state.antSpeed,
+  antTurnRange: state.antTurnRange,
+  foodDetectionRange: state.foodDetectionRange,
+  foodCollectionRange: state.foodCollectionRange,
+  foodApproachBias: state.foodApproachBias,
+  foodApproachTurnRange: state.foodApproachTurnRange,
+  antCarryCapacity: state.antCarryCapacity,
+  nestArrivalRange: state.nestArrivalRange,
+  nestDetectionRange: state.nestDetectionRange,
+  collisionAvoidanceRadius: state.collisionAvoidanceRadius,
+  collisionAvoidanceStrength: state.collisionAvoidanceStrength,
+  pheromoneSensorDistance: state.pheromoneSensorDistance,
+  pheromoneDetectionRadius: state.pheromoneDetectionRadius,
+  pheromoneMinimumStrength: state.pheromoneMinimumStrength,
+  scoutRatio: state.scoutRatio,
+  traitDistribution: state.traitDistribution,
+  speedVariation: state.speedVariation,
+  sensitivityVariation: state.sensitivityVariation,
+  capacityVariation: state.capacityVariation,
+  explorationVariation: state.explorationVariation,
+})
+
+/**
+ * ストアの状態からエンジン用のシミュレーション状態を取り出す
+ */
+export const selectEngineState = (state: SimulationState): EngineState => ({
+  ants: state.ants,
+  foods: state.foods,
+  pheromones: state.pheromones,
+  colonies: state.colonies,
+  obstacles: state.obstacles,
+  rngState: state.rngState,
+  tick: state.tick,
+  metrics: state.metrics,
+  colonyMetrics: state.colonyMetrics,
+})
+
+/**
+ * ストアの状態から localStorage に保存する内容を取り出す
+ */
+export const selectPersistedState = (state: SimulationState): PersistedState => ({
+  config: selectSimulationConfig(state),
+  seed: state.seed,
+  restoreLastSession: state.restoreLastSession,
+  session: state.restoreLastSession ? selectEngineState(state) : null,
+})
+
+const initialSeed = createRandomSeed()
+
+const DEFAULT_NEST: Position = { x: 400, y: 300 }
+
+const createEmptyColonyMetrics = (colonies: Colony[]): Record<string, ColonyMetrics> =>
+  Object.fromEntries(colonies.map(colony => [colony.id, createColonyMetrics()]))
+
 export const useSimulationStore = create<SimulationState & SimulationActions>()(
   devtools(
-    (set, get) => ({
-      ants: [],
-      foods: [],
-      pheromones: new Map(),
-      nest: { x: 400, y: 300 },
-      isRunning: false,
-      speed: 1,
-      antCount: 50,
-      pheromoneDecayRate: 0.99,
-      pheromoneDepositAmount: 2,
-      pheromoneTrackingStrength: 0.7,
-      worldWidth: 800,
-      worldHeight: 600,
-
-      initializeSimulation: () => {
-        const { antCount, nest } = get()
-        const newAnts: Ant[] = []
-        
-        for (let i = 0; i < antCount; i++) {
-          newAnts.push({
-            id: `ant-${i}`,
-            position: { ...nest },
-            hasFood: false,
-            targetFood: null,
-            direction: Math.random() * Math.PI * 2,
-            foodAmount: null,
+    persist(
+      (set, get) => ({
+        ants: [],
+        foods: [],
+        pheromones: new Map(),
+        colonies: createSingleColony(DEFAULT_NEST),
+        obstacles: new Set(),
+        isRunning: false,
+        speed: 1,
+        antCount: 50,
+        pheromoneDecayRate: 0.99,
+        pheromoneDepositAmount: 2,
+        pheromoneTrackingStrength: 0.7,
+        worldWidth: 800,
+        worldHeight: 600,
+        pheromoneDecayInterval: SIMULATION_CONSTANTS.PHEROMONE_DECAY_INTERVAL_TICKS,
+        homingMode: 'omniscient',
+        pheromoneDiffusionRate: 0,
+        pheromoneDiffusionKernel: 'von-neumann',
+        evaporationModel: 'logarithmic',
+        topology: 'torus',
+        behaviorPolicy: 'default',
+        pheromoneAlpha: PHEROMONE_CONSTANTS.DEFAULT_ALPHA,
+        pheromoneBeta: PHEROMONE_CONSTANTS.DEFAULT_BETA,
+        pheromoneSensorCount: PHEROMONE_CONSTANTS.SENSOR_COUNT,
+        pheromoneSensorAngle: PHEROMONE_CONSTANTS.SENSOR_ANGLE,
+        ...BehaviorTuningSchema.parse({}),
+        ...PopulationSchema.parse({}),
+        seed: initialSeed,
+        rngState: initialSeed,
+        tick: 0,
+        metrics: createColonyMetrics(),
+        colonyMetrics: createEmptyColonyMetrics(createSingleColony(DEFAULT_NEST)),
+        lastEdit: null,
+        stateRevision: 0,
+        restoreLastSession: false,
+
+        initializeSimulation: () => {
+          const state = get()
+          const { antCount, colonies, seed } = state
+          const rng = createRng(seed)
+          const newAnts = createInitialAnts(antCount, colonies, rng, selectSimulationConfig(state))
+
+          set({
+            ants: newAnts,
+            pheromones: new Map(),
+            colonies: colonies.map(colony => ({ ...colony, storage: 0 })),
+            rngState: rng.getState(),
+            tick: 0,
+            metrics: createColonyMetrics(),
+            colonyMetrics: createEmptyColonyMetrics(colonies),
+            stateRevision: state.stateRevision + 1,
           })
-        }
-
-        set({
-          ants: newAnts,
-          pheromones: new Map(),
-        })
-      },
-
-      toggleSimulation: () => {
-        set((state) => ({ isRunning: !state.isRunning }))
-      },
-
-      setSpeed: (speed) => {
-        set({ speed })
-      },
-
-      setAntCount: (count) => {
-        set({ antCount: count })
-        get().initializeSimulation()
-      },
-
-      setPheromoneDecayRate: (rate) => {
-        set({ pheromoneDecayRate: rate })
-      },
-
-      setPheromoneDepositAmount: (amount) => {
-        set({ pheromoneDepositAmount: amount })
-      },
-
-      setPheromoneTrackingStrength: (strength) => {
-        set({ pheromoneTrackingStrength: strength })
-      },
-
-      addFood: (position) => {
-        const id = `food-${Date.now()}-${Math.random()}`
-        set((state) => ({
-          foods: [...state.foods, { id, position, amount: 100 }],
-        }))
-      },
-
-      removeFood: (id) => {
-        set((state) => ({
-          foods: state.foods.filter((f) => f.id !== id),
-        }))
-      },
-
-      updateFood: (id, updates) => {
-        set((state) => ({
-          foods: state.foods.map((food) =>
-            food.id === id ? { ...food, ...updates } : food
-          ),
-        }))
-      },
-
-      addRandomFoods: (count) => {
-        const { worldWidth, worldHeight } = get()
-        const newFoods: Food[] = []
-        
-        for (let i = 0; i < count; i++) {
-          newFoods.push({
-            id: `food-${Date.now()}-${i}`,
-            position: {
-              x: Math.random() * worldWidth,
-              y: Math.random() * worldHeight,
-            },
-            amount: 50 + Math.random() * 100,
+        },
+
+        stepSimulation: () => {
+          set((state) => executeSimulationTick(
+            selectSimulationConfig(state),
+            selectEngineState(state)
+          ))
+        },
+
+        syncEngineState: (engineState) => {
+          set(engineState)
+        },
+
+        toggleSimulation: () => {
+          set((state) => ({ isRunning: !state.isRunning }))
+        },
+
+        setSpeed: (speed) => {
+          set({ speed })
+        },
+
+        setAntCount: (count) => {
+          set({ antCount: count })
+          get().initializeSimulation()
+        },
+
+        setPheromoneDecayRate: (rate) => {
+          set({ pheromoneDecayRate: rate })
+        },
+
+        setPheromoneDepositAmount: (amount) => {
+          set({ pheromoneDepositAmount: amount })
+        },
+
+        setPheromoneTrackingStrength: (strength) => {
+          set({ pheromoneTrackingStrength: strength })
+        },
+
+        setHomingMode: (mode) => {
+          set({ homingMode: mode })
+        },
+
+        setPheromoneDiffusionRate: (rate) => {
+          set({ pheromoneDiffusionRate: rate })
+        },
+
+        setPheromoneDiffusionKernel: (kernel) => {
+          set({ pheromoneDiffusionKernel: kernel })
+        },
+
+        setEvaporationModel: (model) => {
+          set({ evaporationModel: model })
+        },
+
+        setTopology: (topology) => {
+          set({ topology })
+        },
+
+        setBehaviorPolicy: (policy) => {
+          set({ behaviorPolicy: policy })
+        },
+
+        setPheromoneAlpha: (alpha) => {
+          set({ pheromoneAlpha: alpha })
+        },
+
+        setPheromoneBeta: (beta) => {
+          set({ pheromoneBeta: beta })
+        },
+
+        setPheromoneSensorCount: (count) => {
+          set({ pheromoneSensorCount: count })
+        },
+
+        setPheromoneSensorAngle: (angle) => {
+          set({ pheromoneSensorAngle: angle })
+        },
+
+        setBehaviorTuning: (tuning) => {
+          set(tuning)
+        },
+
+        setPopulation: (population) => {
+          set(population)
+          get().initializeSimulation()
+        },
+
+        setSeed: (seed) => {
+          set({ seed: seed >>> 0 })
+          get().initializeSimulation()
+        },
+
+        setRestoreLastSession: (restore) => {
+          set({ restoreLastSession: restore })
+        },
+
+        loadScenario: (scenario) => {
+          set((state) => ({
+            ...scenario.config,
+            ...createInitialState(scenario),
+            seed: scenario.seed,
+            isRunning: false,
+            stateRevision: state.stateRevision + 1,
+          }))
+        },
+
+        saveScenario: () => {
+          const state = get()
+          return createScenario(selectSimulationConfig(state), state.seed, state)
+        },
+
+        loadSnapshot: (snapshot) => {
+          set((state) => ({
+            ...snapshot.config,
+            ...restoreSnapshot(snapshot),
+            seed: snapshot.seed,
+            isRunning: false,
+            stateRevision: state.stateRevision + 1,
+          }))
+        },
+
+        saveSnapshot: () => {
+          const state = get()
+          return createSnapshot(selectSimulationConfig(state), state.seed, selectEngineState(state))
+        },
+
+        loadSharedSetup: (search) => {
+          const state = get()
+          const scenario = createScenarioFromSearch(search, {
+            config: selectSimulationConfig(state),
+            seed: state.seed,
+            colonies: state.colonies,
+          })
+          if (!scenario) return false
+
+          get().loadScenario(scenario)
+          return true
+        },
+
+        // コロニーの構成が変わるとアリの割り当ても変わるため、シミュレーションを最初からやり直す
+        addColony: (position) => {
+          set((state) => ({ colonies: addColony(state.colonies, position) }))
+          get().initializeSimulation()
+        },
+
+        resetColonies: () => {
+          set((state) => ({ colonies: createSingleColony(state.colonies[0]?.nest ?? DEFAULT_NEST) }))
+          get().initializeSimulation()
+        },
+
+        addFood: (position, amount = EDITOR_CONSTANTS.DEFAULT_FOOD_AMOUNT, quality) => {
+          const id = `food-${Date.now()}-${Math.random()}`
+          set((state) => ({
+            foods: [...state.foods, { id, position, amount, ...(quality !== undefined && { quality }) }],
+          }))
+        },
+
+        removeFood: (id) => {
+          set((state) => ({
+            foods: state.foods.filter((f) => f.id !== id),
+          }))
+        },
+
+        editWorld: (edit) => {
+          set((state) => ({
+            ...applyWorldEdit(selectSimulationConfig(state), selectEngineState(state), edit),
+            lastEdit: edit,
+          }))
+        },
+
+        addObstacle: (position) => {
+          const key = createObstacleKey(position)
+          if (get().obstacles.has(key)) return
+
+          set((state) => ({
+            obstacles: new Set(state.obstacles).add(key),
+          }))
+        },
+
+        removeObstacle: (position) => {
+          const key = createObstacleKey(position)
+          if (!get().obstacles.has(key)) return
+
+          set((state) => {
+            const newObstacles = new Set(state.obstacles)
+            newObstacles.delete(key)
+            return { obstacles: newObstacles }
+          })
+        },
+
+        clearObstacles: () => {
+          set({ obstacles: new Set() })
+        },
+
+        updateFood: (id, updates) => {
+          set((state) => ({
+            foods: state.foods.map((food) =>
+              food.id === id ? { ...food, ...updates } : food
+            ),
+          }))
+        },
+
+        addRandomFoods: (count) => {
+          const { worldWidth, worldHeight, rngState } = get()
+          const rng = createRng(rngState)
+          const newFoods = createRandomFoods(count, worldWidth, worldHeight, rng)
+
+          set((state) => ({
+            foods: [...state.foods, ...newFoods],
+            rngState: rng.getState(),
+          }))
+        },
+
+        updateAnt: (id, updates) => {
+          get().editWorld({ type: 'updateAnt', id, updates })
+        },
+
+        updatePheromone: (pheromone) => {
+          get().editWorld({ type: 'setPheromone', pheromone })
+        },
+
+        decayPheromones: () => {
+          get().editWorld({ type: 'decayPheromones' })
+        },
+
+        reset: () => {
+          set({
+            ants: [],
+            foods: [],
+            pheromones: new Map(),
+            isRunning: false,
           })
-        }
-
-        set((state) => ({
-          foods: [...state.foods, ...newFoods],
-        }))
-      },
-
-      updateAnt: (id, updates) => {
-        set((state) => ({
-          ants: state.ants.map((ant) =>
-            ant.id === id ? { ...ant, ...updates } : ant
-          ),
-        }))
-      },
-
-      updatePheromone: (key, pheromone) => {
-        set((state) => {
-          const newPheromones = new Map(state.pheromones)
-          newPheromones.set(key, pheromone)
-          return { pheromones: newPheromones }
-        })
-      },
-
-      decayPheromones: () => {
-        const { pheromoneDecayRate } = get()
-        set((state) => {
-          const newPheromones = decayPheromones(state.pheromones, pheromoneDecayRate)
-          return { pheromones: newPheromones }
-        })
-      },
-
-      reset: () => {
-        set({
-          ants: [],
-          foods: [],
-          pheromones: new Map(),
-          isRunning: false,
-        })
-        get().initializeSimulation()
-      },
-    }),
+          get().initializeSimulation()
+        },
+      }),
+      {
+        name: 'aco-simulation',
+        version: PERSIST_VERSION,
+        storage: createDeferredJSONStorage<unknown>(
+          () => localStorage,
+          PERSIST_WRITE_DELAY_MS,
+          state => serializePersistedState(state as PersistedState)
+        ),
+        partialize: (state) => selectPersistedState(state),
+        migrate: migratePersistedState,
+        merge: (persisted, current) => ({
+          ...current,
+          ...restorePersistedState(persisted),
+          stateRevision: current.stateRevision + 1,
+        }),
+      }
+    ),
     {
       name: 'aco-simulation',
     }